@@ -55,7 +55,8 @@ export default async function ArtistSpotlightPage() {
             {artists.map((artist) => (
               <article
                 key={artist.id}
-                className="w-full rounded-2xl border border-amber-500/30 bg-zinc-900/95 px-6 py-8 shadow-xl backdrop-blur sm:px-8 sm:py-10"
+                id={`artist-${artist.id}`}
+                className="w-full scroll-mt-24 rounded-2xl border border-amber-500/30 bg-zinc-900/95 px-6 py-8 shadow-xl backdrop-blur sm:px-8 sm:py-10"
               >
                 {/* Gradient glow behind avatar */}
                 <div className="relative flex flex-col items-center text-center">
@@ -4,16 +4,46 @@ import { useEffect } from 'react'
 import { useSearchParams, useRouter } from 'next/navigation'
 import { toast } from 'sonner'
 import { ComicGrid } from '@/components/comics/ComicGrid'
-import type { Comic } from '@/types/database'
+import type { ComicSort } from '@/lib/comic-actions'
+import type { Comic, ComicStatus } from '@/types/database'
 
 interface ComicsPageContentProps {
-  comics: Comic[]
+  comics: (Comic & { cover_image_url: string | null })[]
+  genres: string[]
+  favoriteIds: string[]
+  statuses: ComicStatus[]
+  sort: ComicSort
+  genre: string | null
+  status: ComicStatus | null
 }
 
-export function ComicsPageContent({ comics }: ComicsPageContentProps) {
+const SORT_OPTIONS: { value: ComicSort; label: string }[] = [
+  { value: 'newest', label: 'Newest' },
+  { value: 'rating', label: 'Top Rated' },
+  { value: 'popular', label: 'Most Popular' },
+]
+
+const selectClassName =
+  'rounded-md border border-border bg-card px-3 py-1.5 text-sm focus:border-amber focus:outline-none focus:ring-1 focus:ring-amber'
+
+export function ComicsPageContent({ comics, genres, favoriteIds, statuses, sort, genre, status }: ComicsPageContentProps) {
   const searchParams = useSearchParams()
   const router = useRouter()
 
+  // Filters live in the URL so the server component re-queries on change
+  const updateFilter = (key: 'sort' | 'genre' | 'status', value: string, defaultValue: string) => {
+    const params = new URLSearchParams(searchParams.toString())
+    if (value === defaultValue) {
+      params.delete(key)
+    } else {
+      params.set(key, value)
+    }
+    const query = params.toString()
+    router.push(query ? `/comics?${query}` : '/comics', { scroll: false })
+  }
+
+  const hasFilters = !!genre || !!status
+
   useEffect(() => {
     // Handle success messages from URL params
     const success = searchParams.get('success')
@@ -44,34 +74,69 @@ export function ComicsPageContent({ comics }: ComicsPageContentProps) {
           </p>
         </div>
 
-        {/* Filters - placeholder for future implementation */}
+        {/* Filters */}
         <div className="mb-6 flex flex-wrap items-center gap-4">
           <div className="flex items-center gap-2">
-            <span className="text-sm text-muted-foreground">Sort by:</span>
-            <select className="rounded-md border border-border bg-card px-3 py-1.5 text-sm focus:border-amber focus:outline-none focus:ring-1 focus:ring-amber">
-              <option value="rating">Top Rated</option>
-              <option value="newest">Newest</option>
-              <option value="popular">Most Popular</option>
+            <label htmlFor="comics-sort" className="text-sm text-muted-foreground">Sort by:</label>
+            <select
+              id="comics-sort"
+              value={sort}
+              onChange={(e) => updateFilter('sort', e.target.value, 'newest')}
+              className={selectClassName}
+            >
+              {SORT_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
             </select>
           </div>
           <div className="flex items-center gap-2">
-            <span className="text-sm text-muted-foreground">Genre:</span>
-            <select className="rounded-md border border-border bg-card px-3 py-1.5 text-sm focus:border-amber focus:outline-none focus:ring-1 focus:ring-amber">
+            <label htmlFor="comics-genre" className="text-sm text-muted-foreground">Genre:</label>
+            <select
+              id="comics-genre"
+              value={genre ?? 'all'}
+              onChange={(e) => updateFilter('genre', e.target.value, 'all')}
+              className={selectClassName}
+            >
               <option value="all">All Genres</option>
-              <option value="action">Action</option>
-              <option value="superhero">Superhero</option>
-              <option value="sci-fi">Sci-Fi</option>
-              <option value="fantasy">Fantasy</option>
+              {/* Keep a hand-edited genre selectable even if no comic uses it */}
+              {genre && !genres.includes(genre) && (
+                <option value={genre}>{genre}</option>
+              )}
+              {genres.map((option) => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex items-center gap-2">
+            <label htmlFor="comics-status" className="text-sm text-muted-foreground">Status:</label>
+            <select
+              id="comics-status"
+              value={status ?? 'all'}
+              onChange={(e) => updateFilter('status', e.target.value, 'all')}
+              className={selectClassName}
+            >
+              <option value="all">Any Status</option>
+              {statuses.map((option) => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
             </select>
           </div>
         </div>
 
         {/* Comics Grid */}
         {comics && comics.length > 0 ? (
-          <ComicGrid comics={comics} columns={4} />
+          <ComicGrid comics={comics} columns={4} favoriteIds={favoriteIds} />
         ) : (
           <div className="rounded-lg border border-border/50 bg-card/50 p-12 text-center">
-            <p className="text-muted-foreground">No comics available yet.</p>
+            <p className="text-muted-foreground">
+              {hasFilters ? 'No comics match these filters.' : 'No comics available yet.'}
+            </p>
           </div>
         )}
       </div>
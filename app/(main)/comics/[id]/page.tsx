@@ -4,9 +4,13 @@ import Link from 'next/link'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Separator } from '@/components/ui/separator'
-import { getComicById, getComicPages, getArtistsForComic, getCharactersForComic } from '@/lib/comic-actions'
+import { getComicById, getComicPages, getComicChapters, getArtistsForComic, getCharactersForComic } from '@/lib/comic-actions'
+import { getReadingProgress } from '@/lib/reading-progress-actions'
+import { ComicRating } from '@/components/comics/ComicRating'
+import { FavoriteButton } from '@/components/comics/FavoriteButton'
+import { OfflineDownloadButton } from '@/components/comics/OfflineDownloadButton'
+import { getFavoriteComicIds } from '@/lib/favorite-actions'
 import { 
-  Star, 
   Eye, 
   Calendar, 
   BookOpen, 
@@ -37,17 +41,16 @@ export default async function ComicDetailPage({ params }: ComicDetailPageProps)
   const { id } = await params
   const { data: comic, error: comicError } = await getComicById(id)
   const { data: pages } = await getComicPages(id)
+  const { data: chapters } = await getComicChapters(id)
   const { data: artists } = await getArtistsForComic(id)
   const { data: characters } = await getCharactersForComic(id)
+  const { data: readingProgress } = await getReadingProgress(id)
+  const { data: favoriteIds } = await getFavoriteComicIds()
 
   if (comicError || !comic) {
     notFound()
   }
 
-  // Generate star rating display
-  const fullStars = Math.floor(Number(comic.rating) / 2)
-  const hasHalfStar = (Number(comic.rating) / 2) % 1 >= 0.5
-
   const pageCount =
     typeof comic.page_count === 'number'
       ? comic.page_count
@@ -120,24 +123,24 @@ export default async function ComicDetailPage({ params }: ComicDetailPageProps)
             {/* Title (mobile) */}
             <h1 className="mt-4 text-2xl font-bold lg:hidden">{comic.title}</h1>
 
+            {/* Favorite */}
+            <FavoriteButton
+              comicId={id}
+              initialIsFavorite={favoriteIds.includes(id)}
+              className="mt-4 w-full"
+            />
+
+            {/* Offline download (members) */}
+            {pages && pages.length > 0 && (
+              <OfflineDownloadButton comicId={id} className="mt-2 w-full" />
+            )}
+
             {/* Rating */}
-              <div className="mt-4 flex items-center gap-2">
-                <div className="flex items-center">
-                  {Array.from({ length: 5 }).map((_, i) => (
-                    <Star
-                      key={i}
-                      className={`h-5 w-5 ${
-                        i < fullStars
-                          ? 'fill-amber text-amber'
-                          : i === fullStars && hasHalfStar
-                          ? 'fill-amber/50 text-amber'
-                          : 'text-muted-foreground'
-                      }`}
-                    />
-                  ))}
-                </div>
-                <span className="text-lg font-bold text-amber">{Number(comic.rating).toFixed(1)}</span>
-              </div>
+            <ComicRating
+              comicId={id}
+              initialAverage={Number(comic.rating) || 0}
+              initialCount={comic.rating_count ?? 0}
+            />
 
             {/* Stats */}
             <div className="mt-4 rounded-lg border border-border/50 bg-card/50 p-4">
@@ -250,9 +253,9 @@ export default async function ComicDetailPage({ params }: ComicDetailPageProps)
                 className="mt-4 w-full bg-amber hover:bg-amber-dark text-background font-bold lg:hidden"
                 size="lg"
               >
-                <Link href={`/comics/read/${id}?page=1`}>
+                <Link href={`/comics/read/${id}?page=${readingProgress?.page_number ?? 1}`}>
                   <BookOpen className="mr-2 h-5 w-5" />
-                  Read Now
+                  {readingProgress ? `Continue Reading (Page ${readingProgress.page_number})` : 'Read Now'}
                 </Link>
               </Button>
             )}
@@ -311,7 +314,8 @@ export default async function ComicDetailPage({ params }: ComicDetailPageProps)
                   {characters.map((character) => (
                     <div
                       key={character.id}
-                      className="flex flex-col rounded-lg border border-border/50 bg-background/40 p-4"
+                      id={`character-${character.id}`}
+                      className="flex scroll-mt-24 flex-col rounded-lg border border-border/50 bg-background/40 p-4"
                     >
                       {/* Picture */}
                       <div className="relative mx-auto aspect-square w-24 overflow-hidden rounded-full border border-border/50">
@@ -423,6 +427,69 @@ export default async function ComicDetailPage({ params }: ComicDetailPageProps)
               </div>
             )} */}
 
+            {/* Chapters */}
+            {chapters && chapters.length > 0 && (
+              <div className="mt-6 rounded-lg border border-border/50 bg-card/50 p-6">
+                <h2 className="mb-4 text-lg font-semibold">Chapters</h2>
+                <div className="space-y-2">
+                  {chapters.map((chapter) => {
+                    const isCurrent =
+                      !!readingProgress &&
+                      chapter.first_page_number !== null &&
+                      readingProgress.page_number >= chapter.first_page_number &&
+                      readingProgress.page_number < chapter.first_page_number + chapter.page_count
+
+                    const content = (
+                      <>
+                        <div className="min-w-0 flex-1">
+                          <p className="font-medium">
+                            Chapter {chapter.chapter_number}
+                            {chapter.title && (
+                              <span className="text-muted-foreground">: {chapter.title}</span>
+                            )}
+                          </p>
+                          {chapter.description && (
+                            <p className="mt-1 line-clamp-2 text-sm text-muted-foreground">
+                              {chapter.description}
+                            </p>
+                          )}
+                        </div>
+                        <div className="flex flex-shrink-0 items-center gap-2 text-xs text-muted-foreground">
+                          {isCurrent && (
+                            <Badge variant="outline" className="border-amber/30 text-amber">
+                              Reading
+                            </Badge>
+                          )}
+                          <span>
+                            {chapter.page_count > 0
+                              ? `${chapter.page_count} page${chapter.page_count !== 1 ? 's' : ''}`
+                              : 'Coming soon'}
+                          </span>
+                        </div>
+                      </>
+                    )
+
+                    return chapter.first_page_number !== null ? (
+                      <Link
+                        key={chapter.id}
+                        href={`/comics/read/${id}?page=${chapter.first_page_number}`}
+                        className="flex items-center gap-4 rounded-md border border-border/50 bg-background/40 px-4 py-3 transition-colors hover:border-amber/50"
+                      >
+                        {content}
+                      </Link>
+                    ) : (
+                      <div
+                        key={chapter.id}
+                        className="flex items-center gap-4 rounded-md border border-border/50 bg-background/40 px-4 py-3 opacity-60"
+                      >
+                        {content}
+                      </div>
+                    )
+                  })}
+                </div>
+              </div>
+            )}
+
             {/* Pages Section */}
             <div className="mt-6 rounded-lg border border-border/50 bg-card/50 p-6">
               <h2 className="mb-4 text-lg font-semibold">Pages</h2>
@@ -432,18 +499,35 @@ export default async function ComicDetailPage({ params }: ComicDetailPageProps)
               ) : (
                 <div className="space-y-2">
                   <p className="text-sm text-muted-foreground mb-4">
-                    This comic has {pages.length} page{pages.length !== 1 ? 's' : ''}. Click below to start reading.
+                    {readingProgress
+                      ? `You're on page ${readingProgress.page_number} of ${readingProgress.total_pages}. Pick up where you left off.`
+                      : `This comic has ${pages.length} page${pages.length !== 1 ? 's' : ''}. Click below to start reading.`}
                   </p>
-                  <Button
-                    asChild
-                    className="bg-amber hover:bg-amber-dark text-background font-bold"
-                    size="lg"
-                  >
-                    <Link href={`/comics/read/${id}?page=1`}>
-                      <BookOpen className="mr-2 h-5 w-5" />
-                      Start Reading
-                    </Link>
-                  </Button>
+                  <div className="flex flex-wrap gap-2">
+                    {readingProgress && (
+                      <Button
+                        asChild
+                        className="bg-amber hover:bg-amber-dark text-background font-bold"
+                        size="lg"
+                      >
+                        <Link href={`/comics/read/${id}?page=${readingProgress.page_number}`}>
+                          <BookOpen className="mr-2 h-5 w-5" />
+                          Continue Reading
+                        </Link>
+                      </Button>
+                    )}
+                    <Button
+                      asChild
+                      variant={readingProgress ? 'outline' : 'default'}
+                      className={readingProgress ? 'border-amber/30' : 'bg-amber hover:bg-amber-dark text-background font-bold'}
+                      size="lg"
+                    >
+                      <Link href={`/comics/read/${id}?page=1`}>
+                        {!readingProgress && <BookOpen className="mr-2 h-5 w-5" />}
+                        {readingProgress ? 'Start Over' : 'Start Reading'}
+                      </Link>
+                    </Button>
+                  </div>
                 </div>
               )}
             </div>
@@ -1,6 +1,7 @@
 import { Suspense } from 'react'
-import { ComicGrid } from '@/components/comics/ComicGrid'
-import { getAllComics } from '@/lib/comic-actions'
+import { getAllComics, getComicGenres, type ComicSort } from '@/lib/comic-actions'
+import { getFavoriteComicIds } from '@/lib/favorite-actions'
+import type { ComicStatus } from '@/types/database'
 import { ComicsPageContent } from './ComicsPageContent'
 
 export const dynamic = 'force-dynamic'
@@ -10,8 +11,26 @@ export const metadata = {
   description: 'Browse all comics available on ShattahsVerse',
 }
 
-export default async function ComicsPage() {
-  const { data: comics } = await getAllComics()
+const SORTS: ComicSort[] = ['newest', 'rating', 'popular']
+const STATUSES: ComicStatus[] = ['Ongoing', 'Completed', 'Hiatus', 'Cancelled']
+
+interface ComicsPageProps {
+  searchParams: Promise<{ sort?: string; genre?: string; status?: string }>
+}
+
+export default async function ComicsPage({ searchParams }: ComicsPageProps) {
+  const params = await searchParams
+
+  // Ignore unknown values rather than erroring on hand-edited URLs
+  const sort = SORTS.includes(params.sort as ComicSort) ? (params.sort as ComicSort) : 'newest'
+  const status = STATUSES.includes(params.status as ComicStatus) ? (params.status as ComicStatus) : null
+  const genre = params.genre?.trim() || null
+
+  const [{ data: comics }, { data: genres }, { data: favoriteIds }] = await Promise.all([
+    getAllComics({ sort, genre, status }),
+    getComicGenres(),
+    getFavoriteComicIds(),
+  ])
 
   return (
     <Suspense fallback={
@@ -28,8 +47,15 @@ export default async function ComicsPage() {
         </div>
       </div>
     }>
-      <ComicsPageContent comics={comics || []} />
+      <ComicsPageContent
+        comics={comics || []}
+        genres={genres || []}
+        favoriteIds={favoriteIds}
+        statuses={STATUSES}
+        sort={sort}
+        genre={genre}
+        status={status}
+      />
     </Suspense>
   )
 }
-
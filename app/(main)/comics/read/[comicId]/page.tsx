@@ -1,6 +1,7 @@
 import { notFound } from 'next/navigation'
 import { ComicReader } from '@/components/comics/ComicReader'
-import { getComicById, getComicPages } from '@/lib/comic-actions'
+import { getComicById, getComicPages, getComicChapters } from '@/lib/comic-actions'
+import { getReaderPreferences } from '@/lib/reader-preferences-actions'
 
 interface ReaderPageProps {
   params: Promise<{ comicId: string }>
@@ -28,6 +29,8 @@ export default async function ReaderPage({ params, searchParams }: ReaderPagePro
 
   const { data: comic, error: comicError } = await getComicById(comicId)
   const { data: pages, error: pagesError } = await getComicPages(comicId)
+  const { data: chapters } = await getComicChapters(comicId)
+  const { data: preferences } = await getReaderPreferences()
 
   if (comicError || !comic) {
     notFound()
@@ -49,7 +52,9 @@ export default async function ReaderPage({ params, searchParams }: ReaderPagePro
     <ComicReader 
       comic={comic}
       pages={pages}
+      chapters={chapters || []}
       currentPageIndex={currentPageIndex}
+      preferences={preferences}
     />
   )
 }
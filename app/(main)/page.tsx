@@ -1,16 +1,18 @@
 import { HeroSection } from '@/components/home/HeroSection'
 import { PopularSection } from '@/components/home/PopularSection'
 import { getPopularComics } from '@/lib/comic-actions'
+import { getFavoriteComicIds } from '@/lib/favorite-actions'
 
 export const dynamic = 'force-dynamic'
 
 export default async function HomePage() {
   const { data: popularComics } = await getPopularComics(4)
+  const { data: favoriteIds } = await getFavoriteComicIds()
 
   return (
     <div className="min-h-screen">
       <HeroSection />
-      <PopularSection comics={popularComics || []} />
+      <PopularSection comics={popularComics || []} favoriteIds={favoriteIds} />
     </div>
   )
 }
@@ -15,6 +15,11 @@ import {
 import { formatDate } from '@/lib/utils'
 import { ProfileForm } from '@/components/profile/ProfileForm'
 import { SignOutButton } from '@/components/auth/SignOutButton'
+import { getReadingHistory } from '@/lib/reading-progress-actions'
+import { getLibrary } from '@/lib/favorite-actions'
+import { MyLibrary } from '@/components/profile/MyLibrary'
+import { OfflineDownloads } from '@/components/profile/OfflineDownloads'
+import { normalizeReaderPreferences } from '@/lib/reader-preferences'
 
 export const metadata = {
   title: 'Profile',
@@ -42,11 +47,11 @@ export default async function ProfilePage() {
   const subscriptionEndDate = profile?.subscription_end_date
   const hasActiveSubscription = subscriptionStatus === 'active' && subscriptionEndDate && new Date(subscriptionEndDate) > new Date()
 
-  // Mock reading history - in production, fetch from user_reading_progress table
-  const readingHistory = [
-    { title: 'Shatteus: Issue 0', progress: '100%', lastRead: '2025-12-20' },
-    { title: 'Neon Shadows', progress: '45%', lastRead: '2025-12-18' },
-  ]
+  const { data: readingHistoryData } = await getReadingHistory(5)
+  const readingHistory = readingHistoryData || []
+
+  const { data: libraryData } = await getLibrary()
+  const library = libraryData || []
 
   const getSubscriptionDisplayName = (tier: string) => {
     switch (tier) {
@@ -119,8 +124,14 @@ export default async function ProfilePage() {
 
         <div className="grid gap-6 lg:grid-cols-3">
           {/* Left Column - Edit Forms */}
-          <div className="lg:col-span-2">
-            <ProfileForm user={user} />
+          <div className="space-y-6 lg:col-span-2">
+            <MyLibrary entries={library} />
+            <OfflineDownloads />
+            <ProfileForm
+              user={user}
+              handle={profile?.handle ?? null}
+              readerPreferences={normalizeReaderPreferences(profile?.reader_preferences)}
+            />
           </div>
 
           {/* Right Column - Stats & Actions */}
@@ -213,22 +224,31 @@ export default async function ProfilePage() {
                   </div>
                 ) : (
                   <div className="space-y-3">
-                    {readingHistory.slice(0, 3).map((item, index) => (
-                      <div
-                        key={index}
-                        className="flex items-center justify-between text-sm"
+                    {readingHistory.slice(0, 3).map((item) => (
+                      <Link
+                        key={item.comic_id}
+                        href={`/comics/read/${item.comic_id}?page=${item.page_number}`}
+                        className="flex items-center justify-between rounded-md text-sm transition-colors hover:text-amber"
                       >
                         <div className="truncate">
-                          <p className="font-medium truncate">{item.title}</p>
+                          <p className="font-medium truncate">{item.comic_title}</p>
                           <p className="text-xs text-muted-foreground">
-                            {formatDate(item.lastRead)}
+                            Page {item.page_number} of {item.total_pages} · {formatDate(item.updated_at)}
                           </p>
                         </div>
                         <span className="text-amber font-medium ml-2">
-                          {item.progress}
+                          {item.percent_complete}%
                         </span>
-                      </div>
+                      </Link>
                     ))}
+                    {readingHistory[0] && readingHistory[0].percent_complete < 100 && (
+                      <Button asChild size="sm" className="mt-2 w-full bg-amber hover:bg-amber-dark text-background">
+                        <Link href={`/comics/read/${readingHistory[0].comic_id}?page=${readingHistory[0].page_number}`}>
+                          <BookOpen className="mr-2 h-4 w-4" />
+                          Continue {readingHistory[0].comic_title}
+                        </Link>
+                      </Button>
+                    )}
                   </div>
                 )}
               </CardContent>
@@ -3,6 +3,7 @@ import { AdminLayout } from '@/components/admin/AdminLayout'
 import { ComicForm } from '@/components/admin/ComicForm'
 import { PageUploader } from '@/components/admin/PageUploader'
 import { CharacterManager } from '@/components/admin/CharacterManager'
+import { ViewsChart } from '@/components/admin/ViewsChart'
 import { getComicById } from '@/lib/admin-actions'
 import { Separator } from '@/components/ui/separator'
 
@@ -28,6 +29,8 @@ export default async function ComicEditPage({ params }: ComicEditPageProps) {
 
         <ComicForm comic={comic} />
 
+        <ViewsChart comicId={id} title={`Views: ${comic.title}`} />
+
         <Separator />
 
         <div>
@@ -0,0 +1,10 @@
+import { AdminLayout } from '@/components/admin/AdminLayout'
+import { CommentModeration } from '@/components/admin/CommentModeration'
+
+export default function AdminCommentsPage() {
+  return (
+    <AdminLayout>
+      <CommentModeration />
+    </AdminLayout>
+  )
+}
@@ -0,0 +1,10 @@
+import { AdminLayout } from '@/components/admin/AdminLayout'
+import { CommentReports } from '@/components/admin/CommentReports'
+
+export default function AdminCommentReportsPage() {
+  return (
+    <AdminLayout>
+      <CommentReports />
+    </AdminLayout>
+  )
+}
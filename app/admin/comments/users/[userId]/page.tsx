@@ -0,0 +1,16 @@
+import { AdminLayout } from '@/components/admin/AdminLayout'
+import { CommentModeration } from '@/components/admin/CommentModeration'
+
+interface CommenterPageProps {
+  params: Promise<{ userId: string }>
+}
+
+export default async function AdminCommenterPage({ params }: CommenterPageProps) {
+  const { userId } = await params
+
+  return (
+    <AdminLayout>
+      <CommentModeration userId={userId} />
+    </AdminLayout>
+  )
+}
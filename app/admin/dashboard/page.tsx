@@ -1,10 +1,14 @@
 import { AdminLayout } from '@/components/admin/AdminLayout'
 import { ComicList } from '@/components/admin/ComicList'
+import { ViewsChart } from '@/components/admin/ViewsChart'
 
 export default function AdminDashboardPage() {
   return (
     <AdminLayout>
-      <ComicList />
+      <div className="space-y-6">
+        <ViewsChart title="Views across all comics" />
+        <ComicList />
+      </div>
     </AdminLayout>
   )
 }
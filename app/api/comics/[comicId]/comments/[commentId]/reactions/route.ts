@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { COMMENT_REACTIONS } from '@/lib/comment-utils'
+import type { CommentReactionType } from '@/types/database'
+
+interface RouteContext {
+  params: Promise<{ comicId: string; commentId: string }>
+}
+
+/**
+ * Toggle the current user's reaction on a comment. Returns the comment's
+ * updated counts and the user's reactions.
+ */
+export async function POST(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const { comicId, commentId } = await context.params
+    const body = await request.json()
+    const reaction = body.reaction as CommentReactionType
+
+    if (!COMMENT_REACTIONS.some((option) => option.value === reaction)) {
+      return NextResponse.json(
+        { error: 'A valid reaction is required' },
+        { status: 400 }
+      )
+    }
+
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const { data: comment, error: commentError } = await supabase
+      .from('comic_comments')
+      .select('id')
+      .eq('id', commentId)
+      .eq('comic_id', comicId)
+      .single()
+
+    if (commentError || !comment) {
+      return NextResponse.json(
+        { error: 'Comment not found' },
+        { status: 404 }
+      )
+    }
+
+    const { data: existing } = await supabase
+      .from('comment_reactions')
+      .select('reaction')
+      .eq('comment_id', commentId)
+      .eq('user_id', user.id)
+      .eq('reaction', reaction)
+      .maybeSingle()
+
+    const { error: toggleError } = existing
+      ? await supabase
+          .from('comment_reactions')
+          .delete()
+          .eq('comment_id', commentId)
+          .eq('user_id', user.id)
+          .eq('reaction', reaction)
+      : await supabase
+          .from('comment_reactions')
+          .insert({ comment_id: commentId, user_id: user.id, reaction })
+
+    // A duplicate insert means a concurrent toggle already added it
+    if (toggleError && toggleError.code !== '23505') {
+      console.error('Error toggling reaction:', toggleError)
+      return NextResponse.json(
+        { error: 'Failed to update reaction' },
+        { status: 500 }
+      )
+    }
+
+    // Counts are recomputed by trigger
+    const [{ data: updated }, { data: mine }] = await Promise.all([
+      supabase
+        .from('comic_comments')
+        .select('reaction_counts, reaction_total')
+        .eq('id', commentId)
+        .single(),
+      supabase
+        .from('comment_reactions')
+        .select('reaction')
+        .eq('comment_id', commentId)
+        .eq('user_id', user.id),
+    ])
+
+    return NextResponse.json({
+      data: {
+        reactions: updated?.reaction_counts ?? {},
+        reaction_total: updated?.reaction_total ?? 0,
+        my_reactions: (mine || []).map((row) => row.reaction),
+      },
+    })
+  } catch (error: any) {
+    console.error('Error in POST /api/comics/[comicId]/comments/[commentId]/reactions:', error)
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { COMMENT_REPORT_REASONS } from '@/lib/comment-utils'
+
+interface RouteContext {
+  params: Promise<{ comicId: string; commentId: string }>
+}
+
+/** Distinct pending reports that hide a comment until an admin reviews it */
+const REPORT_HIDE_THRESHOLD = parseInt(process.env.COMMENT_REPORT_HIDE_THRESHOLD || '', 10) || 3
+
+export async function POST(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const { comicId, commentId } = await context.params
+    const body = await request.json()
+    const { reason, details } = body
+
+    if (!COMMENT_REPORT_REASONS.some((option) => option.value === reason)) {
+      return NextResponse.json(
+        { error: 'A valid report reason is required' },
+        { status: 400 }
+      )
+    }
+
+    if (details != null && (typeof details !== 'string' || details.length > 500)) {
+      return NextResponse.json(
+        { error: 'Report details must be less than 500 characters' },
+        { status: 400 }
+      )
+    }
+
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const { data: comment, error: commentError } = await supabase
+      .from('comic_comments')
+      .select('id, user_id, comic_id, is_hidden')
+      .eq('id', commentId)
+      .eq('comic_id', comicId)
+      .single()
+
+    if (commentError || !comment) {
+      return NextResponse.json(
+        { error: 'Comment not found' },
+        { status: 404 }
+      )
+    }
+
+    if (comment.user_id === user.id) {
+      return NextResponse.json(
+        { error: 'You cannot report your own comment' },
+        { status: 400 }
+      )
+    }
+
+    const { error: insertError } = await supabase
+      .from('comment_reports')
+      .insert({
+        comment_id: commentId,
+        reporter_id: user.id,
+        reason,
+        details: details?.trim() || null,
+      })
+
+    if (insertError) {
+      // Unique (comment_id, reporter_id)
+      if (insertError.code === '23505') {
+        return NextResponse.json(
+          { error: 'You have already reported this comment' },
+          { status: 409 }
+        )
+      }
+      // 10 reports an hour per reader, enforced on insert
+      if (insertError.code === 'PT429') {
+        const retryAfter = Math.max(1, parseInt(insertError.details ?? '', 10) || 60)
+        return NextResponse.json(
+          { error: 'You have sent too many reports. Please try again later.' },
+          { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+        )
+      }
+      console.error('Error reporting comment:', insertError)
+      return NextResponse.json(
+        { error: 'Failed to report comment' },
+        { status: 500 }
+      )
+    }
+
+    // Readers can only see their own reports, so count and hide with the service role
+    if (!comment.is_hidden) {
+      const admin = createAdminClient()
+      const { count: pendingReports } = await admin
+        .from('comment_reports')
+        .select('id', { count: 'exact', head: true })
+        .eq('comment_id', commentId)
+        .eq('status', 'pending')
+
+      if ((pendingReports ?? 0) >= REPORT_HIDE_THRESHOLD) {
+        const { error: hideError } = await admin
+          .from('comic_comments')
+          .update({
+            is_hidden: true,
+            hidden_at: new Date().toISOString(),
+            hidden_reason: 'reports' as const,
+          })
+          .eq('id', commentId)
+          .eq('is_hidden', false)
+
+        if (hideError) {
+          console.error('Error hiding reported comment:', hideError)
+        }
+      }
+    }
+
+    return NextResponse.json({ success: true }, { status: 201 })
+  } catch (error: any) {
+    console.error('Error in POST /api/comics/[comicId]/comments/[commentId]/report:', error)
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
+import { COMMENT_WITH_USER_SELECT, toCommentWithUser } from '@/lib/comment-utils'
+import { checkCommentContent } from '@/lib/comment-filters'
+import { sanitizeCommentContent } from '@/lib/comment-markup'
 
 interface RouteContext {
   params: Promise<{ comicId: string; commentId: string }>
@@ -12,7 +15,8 @@ export async function PUT(
   try {
     const { comicId, commentId } = await context.params
     const body = await request.json()
-    const { content } = body
+    // Strip unsafe characters and links before validating
+    const content = typeof body.content === 'string' ? sanitizeCommentContent(body.content) : ''
 
     if (!content || typeof content !== 'string' || content.trim().length === 0) {
       return NextResponse.json(
@@ -28,6 +32,15 @@ export async function PUT(
       )
     }
 
+    // Word/link blocklist
+    const contentCheck = checkCommentContent(content)
+    if (contentCheck.error) {
+      return NextResponse.json(
+        { error: contentCheck.error },
+        { status: 422 }
+      )
+    }
+
     const supabase = await createClient()
 
     // Check authentication
@@ -67,16 +80,7 @@ export async function PUT(
       .from('comic_comments')
       .update({ content: content.trim() })
       .eq('id', commentId)
-      .select(`
-        *,
-        profiles:user_id (
-          id,
-          full_name,
-          avatar_url,
-          email,
-          platform
-        )
-      `)
+      .select(COMMENT_WITH_USER_SELECT)
       .single()
 
     if (updateError) {
@@ -87,25 +91,7 @@ export async function PUT(
       )
     }
 
-    // Transform the data to flatten the profile relationship
-    const commentWithUser = {
-      id: updatedComment.id,
-      user_id: updatedComment.user_id,
-      comic_id: updatedComment.comic_id,
-      page_id: updatedComment.page_id,
-      parent_id: updatedComment.parent_id,
-      content: updatedComment.content,
-      rating: updatedComment.rating,
-      created_at: updatedComment.created_at,
-      updated_at: updatedComment.updated_at,
-      user: {
-        id: updatedComment.profiles?.id,
-        full_name: updatedComment.profiles?.full_name,
-        avatar_url: updatedComment.profiles?.avatar_url,
-        email: updatedComment.profiles?.email,
-        platform: updatedComment.profiles?.platform,
-      },
-    }
+    const commentWithUser = toCommentWithUser(updatedComment)
 
     return NextResponse.json({ data: commentWithUser })
   } catch (error: any) {
@@ -158,7 +144,7 @@ export async function DELETE(
       )
     }
 
-    // Delete comment
+    // Delete comment (replies to a top-level comment are removed with it by ON DELETE CASCADE)
     const { error: deleteError } = await supabase
       .from('comic_comments')
       .delete()
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { COMMENT_WITH_USER_SELECT, toCommentWithUser } from '@/lib/comment-utils'
+
+interface RouteContext {
+  params: Promise<{ comicId: string }>
+}
+
+/** Markers beyond this many on one page aren't useful on screen; the newest are kept */
+const MAX_ANCHORED_COMMENTS_PER_PAGE = 100
+
+/**
+ * Anchored comments on one page (?page_id=), oldest first, for the reader's
+ * page markers. Replies aren't included; markers open the full thread.
+ */
+export async function GET(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const { comicId } = await context.params
+    const { searchParams } = new URL(request.url)
+    const pageId = searchParams.get('page_id')
+
+    if (!pageId) {
+      return NextResponse.json(
+        { error: 'page_id is required' },
+        { status: 400 }
+      )
+    }
+
+    const supabase = await createClient()
+
+    const { data, error } = await supabase
+      .from('comic_comments')
+      .select(COMMENT_WITH_USER_SELECT)
+      .eq('comic_id', comicId)
+      .eq('page_id', pageId)
+      .is('parent_id', null)
+      .not('anchor_x', 'is', null)
+      .order('created_at', { ascending: false })
+      .limit(MAX_ANCHORED_COMMENTS_PER_PAGE)
+
+    if (error) {
+      console.error('Error fetching anchored comments:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch anchored comments' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ data: (data || []).map(toCommentWithUser).reverse() })
+  } catch (error: any) {
+    console.error('Error in GET /api/comics/[comicId]/comments/anchors:', error)
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
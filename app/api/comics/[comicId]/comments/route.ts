@@ -1,7 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
 import { hasActiveSubscription } from '@/lib/subscription-actions'
 import { getSessionIdFromCookie, hasActiveAnonymousDayPass } from '@/lib/anonymous-daypass'
+import {
+  COMMENT_WITH_USER_SELECT,
+  toCommentWithUser,
+  resolveReplyParent,
+  decodeCommentCursor,
+  fetchCommentFeedPage,
+  parseCommentAnchor,
+} from '@/lib/comment-utils'
+import { checkCommentContent, commentInsertLimitResult } from '@/lib/comment-filters'
+import { sanitizeCommentContent } from '@/lib/comment-markup'
+import { createCommentNotifications } from '@/lib/notifications'
+import type { CommentSort } from '@/types/database'
 
 interface RouteContext {
   params: Promise<{ comicId: string }>
@@ -15,7 +28,17 @@ export async function GET(
     const { comicId } = await context.params
     const { searchParams } = new URL(request.url)
     const pageId = searchParams.get('page_id') || undefined
-    const limit = parseInt(searchParams.get('limit') || '50', 10)
+    const limit = parseInt(searchParams.get('limit') || '', 10) || undefined
+    const sort: CommentSort = searchParams.get('sort') === 'top' ? 'top' : 'newest'
+    const cursorParam = searchParams.get('cursor')
+    const cursor = cursorParam ? decodeCommentCursor(cursorParam, sort) : null
+
+    if (cursorParam && !cursor) {
+      return NextResponse.json(
+        { error: 'Invalid cursor' },
+        { status: 400 }
+      )
+    }
 
     const supabase = await createClient()
 
@@ -33,24 +56,7 @@ export async function GET(
       )
     }
 
-    // Build query
-    let query = supabase
-      .from('comic_comments')
-      .select(`
-        *,
-        profiles:user_id (
-          id,
-          full_name,
-          avatar_url,
-          email,
-          platform
-        )
-      `)
-      .eq('comic_id', comicId)
-      .order('created_at', { ascending: false })
-      .limit(limit)
-
-    // Filter by page_id if provided
+    // Without page_id the feed includes comic-level and all page comments
     if (pageId) {
       // Verify page exists and belongs to comic
       const { data: page, error: pageError } = await supabase
@@ -66,16 +72,22 @@ export async function GET(
           { status: 404 }
         )
       }
-
-      query = query.eq('page_id', pageId)
-    } else {
-      // If no page_id, show both comic-level (page_id IS NULL) and all page comments
-      // For now, we'll show all comments. The frontend can filter if needed.
     }
 
-    const { data: comments, error } = await query
+    // Signed-in readers get their own reactions marked
+    const { data: { user } } = await supabase.auth.getUser()
+
+    // Newest (or top) top-level comments first; next_cursor fetches the next page
+    const { data: feedPage, error } = await fetchCommentFeedPage(supabase, {
+      comicId,
+      pageId,
+      cursor,
+      limit,
+      sort,
+      userId: user?.id,
+    })
 
-    if (error) {
+    if (error || !feedPage) {
       console.error('Error fetching comments:', error)
       return NextResponse.json(
         { error: 'Failed to fetch comments' },
@@ -83,27 +95,7 @@ export async function GET(
       )
     }
 
-    // Transform the data to flatten the profile relationship
-    const commentsWithUsers = comments?.map((comment: any) => ({
-      id: comment.id,
-      user_id: comment.user_id,
-      comic_id: comment.comic_id,
-      page_id: comment.page_id,
-      parent_id: comment.parent_id,
-      content: comment.content,
-      rating: comment.rating,
-      created_at: comment.created_at,
-      updated_at: comment.updated_at,
-      user: {
-        id: comment.profiles?.id,
-        full_name: comment.profiles?.full_name,
-        avatar_url: comment.profiles?.avatar_url,
-        email: comment.profiles?.email,
-        platform: comment.profiles?.platform,
-      },
-    })) || []
-
-    return NextResponse.json({ data: commentsWithUsers })
+    return NextResponse.json(feedPage)
   } catch (error: any) {
     console.error('Error in GET /api/comics/[comicId]/comments:', error)
     return NextResponse.json(
@@ -120,7 +112,9 @@ export async function POST(
   try {
     const { comicId } = await context.params
     const body = await request.json()
-    const { content, page_id } = body
+    const { page_id, parent_id } = body
+    // Strip unsafe characters and links before validating
+    const content = typeof body.content === 'string' ? sanitizeCommentContent(body.content) : ''
 
     if (!content || typeof content !== 'string' || content.trim().length === 0) {
       return NextResponse.json(
@@ -136,6 +130,15 @@ export async function POST(
       )
     }
 
+    // Word/link blocklist
+    const contentCheck = checkCommentContent(content)
+    if (contentCheck.error) {
+      return NextResponse.json(
+        { error: contentCheck.error },
+        { status: 422 }
+      )
+    }
+
     const supabase = await createClient()
 
     // Check authentication
@@ -162,6 +165,15 @@ export async function POST(
       }
     }
 
+    // Shadow-banned users can keep posting, but their comments are hidden from
+    // everyone else. comment_bans is admin-only, so check with the service role.
+    const { data: ban } = await createAdminClient()
+      .from('comment_bans')
+      .select('user_id')
+      .eq('user_id', user.id)
+      .maybeSingle()
+    const isShadowBanned = !!ban
+
     // Verify comic exists
     const { data: comic, error: comicError } = await supabase
       .from('comics')
@@ -193,6 +205,28 @@ export async function POST(
       }
     }
 
+    // Replies must stay on the parent's comic and page
+    let parentId: string | null = null
+    if (parent_id) {
+      const resolved = await resolveReplyParent(supabase, comicId, page_id || null, parent_id)
+      if (resolved.error) {
+        return NextResponse.json(
+          { error: resolved.error },
+          { status: 400 }
+        )
+      }
+      parentId = resolved.parentId
+    }
+
+    // Optional point or region on the page the comment refers to
+    const anchorCheck = parseCommentAnchor(body.anchor, { pageId: page_id || null, parentId })
+    if (anchorCheck.error) {
+      return NextResponse.json(
+        { error: anchorCheck.error },
+        { status: 400 }
+      )
+    }
+
     // Insert comment
     const { data: comment, error: insertError } = await supabase
       .from('comic_comments')
@@ -200,21 +234,31 @@ export async function POST(
         user_id: user.id,
         comic_id: comicId,
         page_id: page_id || null,
+        parent_id: parentId,
         content: content.trim(),
+        ...anchorCheck.columns,
+        ...(isShadowBanned && {
+          is_hidden: true,
+          hidden_at: new Date().toISOString(),
+          hidden_reason: 'shadow_ban' as const,
+        }),
       })
-      .select(`
-        *,
-        profiles:user_id (
-          id,
-          full_name,
-          avatar_url,
-          email,
-          platform
-        )
-      `)
+      .select(COMMENT_WITH_USER_SELECT)
       .single()
 
     if (insertError) {
+      // Per-user/per-page rate limits and duplicate detection run on insert
+      const rateCheck = commentInsertLimitResult(insertError)
+      if (rateCheck?.error) {
+        return NextResponse.json(
+          { error: rateCheck.error },
+          {
+            status: rateCheck.status ?? 429,
+            headers: rateCheck.retryAfter ? { 'Retry-After': String(rateCheck.retryAfter) } : undefined,
+          }
+        )
+      }
+
       console.error('Error creating comment:', insertError)
       return NextResponse.json(
         { error: 'Failed to create comment' },
@@ -222,25 +266,13 @@ export async function POST(
       )
     }
 
-    // Transform the data to flatten the profile relationship
-    const commentWithUser = {
-      id: comment.id,
-      user_id: comment.user_id,
-      comic_id: comment.comic_id,
-      page_id: comment.page_id,
-      parent_id: comment.parent_id,
-      content: comment.content,
-      rating: comment.rating,
-      created_at: comment.created_at,
-      updated_at: comment.updated_at,
-      user: {
-        id: comment.profiles?.id,
-        full_name: comment.profiles?.full_name,
-        avatar_url: comment.profiles?.avatar_url,
-        email: comment.profiles?.email,
-        platform: comment.profiles?.platform,
-      },
-    }
+    const commentWithUser = toCommentWithUser(comment)
+
+    // Replies and @mentions notify other readers (not for hidden comments)
+    await createCommentNotifications({
+      ...commentWithUser,
+      is_hidden: (comment as { is_hidden?: boolean }).is_hidden,
+    })
 
     return NextResponse.json({ data: commentWithUser }, { status: 201 })
   } catch (error: any) {
@@ -0,0 +1,188 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import type { ComicRatingSummary } from '@/types/database'
+
+interface RouteContext {
+  params: Promise<{ comicId: string }>
+}
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>
+
+/**
+ * Read the aggregate (maintained by trigger on comic_ratings) plus the caller's own rating
+ */
+async function getRatingSummary(
+  supabase: SupabaseServerClient,
+  comicId: string,
+  userId: string | null
+): Promise<ComicRatingSummary | null> {
+  const { data: comic } = await supabase
+    .from('comics')
+    .select('rating, rating_count')
+    .eq('id', comicId)
+    .single()
+
+  if (!comic) return null
+
+  let userRating: number | null = null
+  if (userId) {
+    const { data: own } = await supabase
+      .from('comic_ratings')
+      .select('rating')
+      .eq('comic_id', comicId)
+      .eq('user_id', userId)
+      .maybeSingle()
+    userRating = own?.rating ?? null
+  }
+
+  return {
+    average: Number(comic.rating) || 0,
+    count: comic.rating_count ?? 0,
+    user_rating: userRating,
+  }
+}
+
+export async function GET(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const { comicId } = await context.params
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    const summary = await getRatingSummary(supabase, comicId, user?.id ?? null)
+    if (!summary) {
+      return NextResponse.json(
+        { error: 'Comic not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ data: summary })
+  } catch (error: any) {
+    console.error('Error in GET /api/comics/[comicId]/ratings:', error)
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Create or change the caller's rating (1-10)
+ */
+export async function PUT(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const { comicId } = await context.params
+    const body = await request.json()
+    const rating = Number(body?.rating)
+
+    if (!Number.isInteger(rating) || rating < 1 || rating > 10) {
+      return NextResponse.json(
+        { error: 'Rating must be a whole number from 1 to 10' },
+        { status: 400 }
+      )
+    }
+
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    // Verify comic exists
+    const { data: comic, error: comicError } = await supabase
+      .from('comics')
+      .select('id')
+      .eq('id', comicId)
+      .single()
+
+    if (comicError || !comic) {
+      return NextResponse.json(
+        { error: 'Comic not found' },
+        { status: 404 }
+      )
+    }
+
+    const { error: upsertError } = await supabase
+      .from('comic_ratings')
+      .upsert({
+        user_id: user.id,
+        comic_id: comicId,
+        rating,
+      }, {
+        onConflict: 'user_id,comic_id',
+      })
+
+    if (upsertError) {
+      console.error('Error saving rating:', upsertError)
+      return NextResponse.json(
+        { error: 'Failed to save rating' },
+        { status: 500 }
+      )
+    }
+
+    const summary = await getRatingSummary(supabase, comicId, user.id)
+    return NextResponse.json({ data: summary })
+  } catch (error: any) {
+    console.error('Error in PUT /api/comics/[comicId]/ratings:', error)
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Remove the caller's rating
+ */
+export async function DELETE(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const { comicId } = await context.params
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const { error: deleteError } = await supabase
+      .from('comic_ratings')
+      .delete()
+      .eq('comic_id', comicId)
+      .eq('user_id', user.id)
+
+    if (deleteError) {
+      console.error('Error deleting rating:', deleteError)
+      return NextResponse.json(
+        { error: 'Failed to remove rating' },
+        { status: 500 }
+      )
+    }
+
+    const summary = await getRatingSummary(supabase, comicId, user.id)
+    return NextResponse.json({ data: summary })
+  } catch (error: any) {
+    console.error('Error in DELETE /api/comics/[comicId]/ratings:', error)
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createHash } from 'crypto'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+
+const VIEWER_COOKIE_NAME = 'viewer_id'
+const VIEWER_COOKIE_MAX_AGE = 365 * 24 * 60 * 60 // 1 year in seconds
+const VIEW_DEDUPE_WINDOW_MINUTES = 30
+
+interface RouteContext {
+  params: Promise<{ comicId: string }>
+}
+
+/**
+ * Client IP as seen by the platform's proxy. x-real-ip is set by the proxy;
+ * otherwise the last x-forwarded-for entry is the one it appended (earlier
+ * entries come from the client and can be anything).
+ */
+function getClientIp(request: NextRequest): string {
+  const realIp = request.headers.get('x-real-ip')?.trim()
+  if (realIp) return realIp
+  const forwardedFor = request.headers.get('x-forwarded-for')
+  return forwardedFor?.split(',').pop()?.trim() || 'unknown'
+}
+
+/**
+ * Hash the client IP + user agent so cookieless views also dedupe by client
+ * (cookies cleared or blocked) without storing raw IPs
+ */
+function getClientFingerprint(request: NextRequest): string {
+  const ip = getClientIp(request)
+  const userAgent = request.headers.get('user-agent') || ''
+  return createHash('sha256').update(`${ip}|${userAgent}`).digest('hex').slice(0, 32)
+}
+
+/**
+ * Record a view of a comic. Called by the reader when it opens.
+ * Views are deduplicated per user (or anonymous viewer) per comic within a window.
+ */
+export async function POST(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const { comicId } = await context.params
+
+    const supabase = await createClient()
+
+    // Verify comic exists
+    const { data: comic, error: comicError } = await supabase
+      .from('comics')
+      .select('id')
+      .eq('id', comicId)
+      .single()
+
+    if (comicError || !comic) {
+      return NextResponse.json(
+        { error: 'Comic not found' },
+        { status: 404 }
+      )
+    }
+
+    const { data: { user } } = await supabase.auth.getUser()
+
+    let viewerId = request.cookies.get(VIEWER_COOKIE_NAME)?.value || null
+    let shouldSetCookie = false
+
+    // Anonymous viewers get a cookie on their first view, keyed the same way
+    // as later views so a refresh doesn't count again
+    if (!user && !viewerId) {
+      viewerId = crypto.randomUUID()
+      shouldSetCookie = true
+    }
+    const viewerKey = user ? `user:${user.id}` : `anon:${viewerId}`
+
+    const adminClient = createAdminClient()
+    const { data: counted, error } = await adminClient.rpc('record_comic_view', {
+      p_comic_id: comicId,
+      p_viewer_key: viewerKey,
+      p_window_minutes: VIEW_DEDUPE_WINDOW_MINUTES,
+      // Returning readers are told apart by their cookie (many can share one IP
+      // behind a NAT); a reader without one must also be new for this client
+      p_fingerprint_key: shouldSetCookie ? `ip:${getClientFingerprint(request)}` : undefined,
+    })
+
+    if (error) {
+      console.error('Error recording view:', error)
+      return NextResponse.json(
+        { error: 'Failed to record view' },
+        { status: 500 }
+      )
+    }
+
+    const response = NextResponse.json({ counted: !!counted })
+
+    if (shouldSetCookie && viewerId) {
+      response.cookies.set(VIEWER_COOKIE_NAME, viewerId, {
+        path: '/',
+        maxAge: VIEWER_COOKIE_MAX_AGE,
+        httpOnly: true,
+        sameSite: 'lax',
+        secure: process.env.NODE_ENV === 'production',
+      })
+    }
+
+    return response
+  } catch (error: any) {
+    console.error('Error in views API:', error)
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
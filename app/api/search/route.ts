@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createSignedUrlMap, ASSET_URL_TTL_SECONDS } from '@/lib/storage-urls'
+import type { SearchResultItem, SearchResults } from '@/types/database'
+
+const MIN_QUERY_LENGTH = 2
+const MAX_QUERY_LENGTH = 100
+const DEFAULT_LIMIT = 5
+const MAX_LIMIT = 20
+
+/**
+ * Turn free text into a prefix-matching tsquery ("bat gir" -> "bat:* & gir:*")
+ * so results update while the user is still typing. Only letters and digits
+ * survive, which keeps the string safe for to_tsquery.
+ */
+function toPrefixTsQuery(input: string): string | null {
+  const terms = input.toLowerCase().match(/[\p{L}\p{N}]+/gu)
+  if (!terms || terms.length === 0) return null
+  return terms.slice(0, 8).map((term) => `${term}:*`).join(' & ')
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const q = (searchParams.get('q') || '').trim().slice(0, MAX_QUERY_LENGTH)
+    const limit = Math.min(
+      Math.max(parseInt(searchParams.get('limit') || `${DEFAULT_LIMIT}`, 10) || DEFAULT_LIMIT, 1),
+      MAX_LIMIT
+    )
+
+    const empty: SearchResults = { comics: [], artists: [], characters: [] }
+
+    if (q.length < MIN_QUERY_LENGTH) {
+      return NextResponse.json({ query: q, results: empty })
+    }
+
+    const tsQuery = toPrefixTsQuery(q)
+    if (!tsQuery) {
+      return NextResponse.json({ query: q, results: empty })
+    }
+
+    const supabase = await createClient()
+    const { data, error } = await supabase.rpc('search_catalog', {
+      search_query: tsQuery,
+      result_limit: limit,
+    })
+
+    if (error) {
+      console.error('Error searching catalog:', error)
+      return NextResponse.json(
+        { error: 'Search failed' },
+        { status: 500 }
+      )
+    }
+
+    const rows = data || []
+    const imageUrls = await createSignedUrlMap(
+      rows.map((row) => row.picture_path),
+      ASSET_URL_TTL_SECONDS
+    )
+
+    const results: SearchResults = { comics: [], artists: [], characters: [] }
+    for (const row of rows) {
+      const item: SearchResultItem = {
+        type: row.result_type,
+        id: row.id,
+        title: row.title,
+        subtitle: row.subtitle,
+        image_url: row.picture_path ? imageUrls.get(row.picture_path) ?? null : null,
+        href: '',
+      }
+
+      if (row.result_type === 'comic') {
+        item.href = `/comics/${row.id}`
+        results.comics.push(item)
+      } else if (row.result_type === 'artist') {
+        item.href = `/artists#artist-${row.id}`
+        results.artists.push(item)
+      } else if (row.result_type === 'character' && row.comic_id) {
+        item.href = `/comics/${row.comic_id}#character-${row.id}`
+        results.characters.push(item)
+      }
+    }
+
+    return NextResponse.json({ query: q, results })
+  } catch (error: any) {
+    console.error('Error in search API:', error)
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -13,7 +13,9 @@ import {
   Menu, 
   X,
   Shield,
-  UserCircle
+  UserCircle,
+  MessageSquare,
+  Flag
 } from 'lucide-react'
 
 interface AdminLayoutProps {
@@ -44,6 +46,8 @@ export function AdminLayout({ children }: AdminLayoutProps) {
     { href: '/admin/dashboard', label: 'Dashboard', icon: LayoutDashboard },
     { href: '/admin/comics/new', label: 'New Comic', icon: Plus },
     { href: '/admin/artists', label: 'Artists', icon: UserCircle },
+    { href: '/admin/comments', label: 'Comments', icon: MessageSquare },
+    { href: '/admin/comments/reports', label: 'Reports', icon: Flag },
   ]
 
   return (
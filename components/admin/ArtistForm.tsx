@@ -27,7 +27,7 @@ const artistSchema = z.object({
 type ArtistFormData = z.infer<typeof artistSchema>
 
 interface ArtistFormProps {
-  artist?: Artist
+  artist?: Artist & { picture_url?: string | null }
 }
 
 export function ArtistForm({ artist }: ArtistFormProps) {
@@ -36,9 +36,7 @@ export function ArtistForm({ artist }: ArtistFormProps) {
   const [error, setError] = useState<string | null>(null)
   const [pictureFile, setPictureFile] = useState<File | null>(null)
   const [picturePreview, setPicturePreview] = useState<string | null>(
-    artist?.picture_path
-      ? `${process.env.NEXT_PUBLIC_SUPABASE_URL}/storage/v1/object/public/comics/${artist.picture_path}`
-      : null
+    artist?.picture_url ?? null
   )
   const [comics, setComics] = useState<Comic[]>([])
 
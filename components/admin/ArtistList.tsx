@@ -9,7 +9,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Edit, Trash2, Loader2, Plus, UserCircle } from 'lucide-react'
 import type { Artist } from '@/types/database'
 
-type ArtistRow = Artist & { comics: { title: string } | null }
+type ArtistRow = Artist & { comics: { title: string } | null; picture_url: string | null }
 
 export function ArtistList() {
   const [artists, setArtists] = useState<ArtistRow[]>([])
@@ -62,11 +62,6 @@ export function ArtistList() {
     setTogglingId(null)
   }
 
-  const pictureUrl = (path: string | null) =>
-    path
-      ? `${process.env.NEXT_PUBLIC_SUPABASE_URL}/storage/v1/object/public/comics/${path}`
-      : null
-
   if (isLoading) {
     return (
       <div className="flex items-center justify-center py-12">
@@ -113,9 +108,9 @@ export function ArtistList() {
         {artists.map((artist) => (
           <Card key={artist.id} className="overflow-hidden">
             <div className="relative flex h-32 w-full items-center justify-center overflow-hidden bg-muted">
-              {pictureUrl(artist.picture_path) ? (
+              {artist.picture_url ? (
                 <Image
-                  src={pictureUrl(artist.picture_path)!}
+                  src={artist.picture_url}
                   alt={artist.name}
                   fill
                   className="object-cover"
@@ -0,0 +1,144 @@
+'use client'
+
+import { useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import * as z from 'zod'
+import { createChapter, updateChapter } from '@/lib/admin-actions'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Loader2, Save } from 'lucide-react'
+import type { ComicChapter } from '@/types/database'
+
+const chapterSchema = z.object({
+  chapter_number: z.number({ message: 'Chapter number is required' }).int('Must be a whole number').min(0, 'Must be 0 or greater'),
+  title: z.string().optional(),
+  description: z.string().optional(),
+})
+
+type ChapterFormData = z.infer<typeof chapterSchema>
+
+interface ChapterFormProps {
+  comicId: string
+  chapter?: ComicChapter
+  /** Suggested number for a new chapter */
+  nextChapterNumber?: number
+  onSuccess?: () => void
+  onCancel?: () => void
+}
+
+export function ChapterForm({ comicId, chapter, nextChapterNumber = 1, onSuccess, onCancel }: ChapterFormProps) {
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<ChapterFormData>({
+    resolver: zodResolver(chapterSchema),
+    defaultValues: chapter
+      ? {
+          chapter_number: chapter.chapter_number,
+          title: chapter.title || '',
+          description: chapter.description || '',
+        }
+      : {
+          chapter_number: nextChapterNumber,
+          title: '',
+          description: '',
+        },
+  })
+
+  const onSubmit = async (data: ChapterFormData) => {
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const formData = new FormData()
+      formData.append('comic_id', comicId)
+      formData.append('chapter_number', data.chapter_number.toString())
+      formData.append('title', data.title || '')
+      formData.append('description', data.description || '')
+
+      const result = chapter
+        ? await updateChapter(chapter.id, formData)
+        : await createChapter(formData)
+
+      if (result.error) {
+        setError(result.error)
+        setIsLoading(false)
+        return
+      }
+
+      onSuccess?.()
+      setIsLoading(false)
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+      {error && (
+        <div className="rounded-md bg-destructive/10 p-2 text-sm text-destructive">{error}</div>
+      )}
+      <div className="grid gap-4 sm:grid-cols-[120px_1fr]">
+        <div className="space-y-2">
+          <Label htmlFor="chapter-number">Number *</Label>
+          <Input
+            id="chapter-number"
+            type="number"
+            min={0}
+            {...register('chapter_number', { valueAsNumber: true })}
+            disabled={isLoading}
+          />
+          {errors.chapter_number && (
+            <p className="text-sm text-destructive">{errors.chapter_number.message}</p>
+          )}
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="chapter-title">Title</Label>
+          <Input
+            id="chapter-title"
+            {...register('title')}
+            disabled={isLoading}
+            placeholder="e.g. The Awakening"
+          />
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="chapter-description">Description</Label>
+        <textarea
+          id="chapter-description"
+          {...register('description')}
+          disabled={isLoading}
+          placeholder="Short chapter summary"
+          className="min-h-[80px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+        />
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {onCancel && (
+          <Button type="button" variant="outline" onClick={onCancel} disabled={isLoading}>
+            Cancel
+          </Button>
+        )}
+        <Button type="submit" disabled={isLoading}>
+          {isLoading ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Saving...
+            </>
+          ) : (
+            <>
+              <Save className="mr-2 h-4 w-4" />
+              {chapter ? 'Update Chapter' : 'Create Chapter'}
+            </>
+          )}
+        </Button>
+      </div>
+    </form>
+  )
+}
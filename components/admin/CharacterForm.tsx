@@ -24,7 +24,7 @@ type CharacterFormData = z.infer<typeof characterSchema>
 
 interface CharacterFormProps {
   comicId: string
-  character?: ComicCharacter
+  character?: ComicCharacter & { picture_url?: string | null }
   onSuccess?: () => void
   onCancel?: () => void
   compact?: boolean
@@ -35,9 +35,7 @@ export function CharacterForm({ comicId, character, onSuccess, onCancel, compact
   const [error, setError] = useState<string | null>(null)
   const [pictureFile, setPictureFile] = useState<File | null>(null)
   const [picturePreview, setPicturePreview] = useState<string | null>(
-    character?.picture_path
-      ? `${process.env.NEXT_PUBLIC_SUPABASE_URL}/storage/v1/object/public/comics/${character.picture_path}`
-      : null
+    character?.picture_url ?? null
   )
 
   const {
@@ -13,9 +13,11 @@ interface CharacterManagerProps {
   comicId: string
 }
 
+type CharacterRow = ComicCharacter & { picture_url: string | null }
+
 export function CharacterManager({ comicId }: CharacterManagerProps) {
   const router = useRouter()
-  const [characters, setCharacters] = useState<ComicCharacter[]>([])
+  const [characters, setCharacters] = useState<CharacterRow[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [showAddForm, setShowAddForm] = useState(false)
   const [editingId, setEditingId] = useState<string | null>(null)
@@ -141,9 +143,9 @@ export function CharacterManager({ comicId }: CharacterManagerProps) {
                   className="flex gap-4 rounded-lg border border-border bg-card p-4"
                 >
                   <div className="relative h-16 w-16 flex-shrink-0 overflow-hidden rounded-lg border border-border bg-muted">
-                    {character.picture_path ? (
+                    {character.picture_url ? (
                       <img
-                        src={`${process.env.NEXT_PUBLIC_SUPABASE_URL}/storage/v1/object/public/comics/${character.picture_path}`}
+                        src={character.picture_url}
                         alt={character.name}
                         className="h-full w-full object-cover"
                       />
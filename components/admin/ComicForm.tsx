@@ -30,7 +30,7 @@ const comicSchema = z.object({
 type ComicFormData = z.infer<typeof comicSchema>
 
 interface ComicFormProps {
-  comic?: Comic
+  comic?: Comic & { cover_image_url?: string | null }
 }
 
 export function ComicForm({ comic }: ComicFormProps) {
@@ -39,9 +39,7 @@ export function ComicForm({ comic }: ComicFormProps) {
   const [error, setError] = useState<string | null>(null)
   const [coverFile, setCoverFile] = useState<File | null>(null)
   const [coverPreview, setCoverPreview] = useState<string | null>(
-    comic?.cover_image_path
-      ? `${process.env.NEXT_PUBLIC_SUPABASE_URL}/storage/v1/object/public/comics/${comic.cover_image_path}`
-      : null
+    comic?.cover_image_url ?? null
   )
 
   const {
@@ -14,11 +14,12 @@ import {
   Loader2,
   Plus
 } from 'lucide-react'
-import { getStorageUrl } from '@/lib/storage-actions'
 import type { Comic } from '@/types/database'
 
+type ComicRow = Comic & { cover_image_url: string | null }
+
 export function ComicList() {
-  const [comics, setComics] = useState<Comic[]>([])
+  const [comics, setComics] = useState<ComicRow[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [deletingId, setDeletingId] = useState<string | null>(null)
 
@@ -98,9 +99,9 @@ export function ComicList() {
         {comics.map((comic) => (
           <Card key={comic.id} className="overflow-hidden">
             <div className="relative aspect-[3/4] w-full overflow-hidden bg-muted">
-              {comic.cover_image_path ? (
+              {comic.cover_image_url ? (
                 <img
-                  src={`${process.env.NEXT_PUBLIC_SUPABASE_URL}/storage/v1/object/public/comics/${comic.cover_image_path}`}
+                  src={comic.cover_image_url}
                   alt={comic.title}
                   className="h-full w-full object-cover"
                 />
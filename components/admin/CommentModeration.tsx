@@ -0,0 +1,521 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import {
+  getAllComics,
+  getModerationComments,
+  setCommentsHidden,
+  deleteComments,
+  getCommenterSummary,
+  setCommentBan,
+  type ModerationFilters,
+} from '@/lib/admin-actions'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Loader2, Eye, EyeOff, Trash2, Ban, MessageSquare, ArrowLeft } from 'lucide-react'
+import { formatDate } from '@/lib/utils'
+import type { CommentHiddenReason, ModerationComment } from '@/types/database'
+
+// Radix Select can't use an empty string as an item value
+const ALL_COMICS = 'all'
+
+const HIDDEN_REASON_LABELS: Record<CommentHiddenReason, string> = {
+  moderator: 'moderator',
+  shadow_ban: 'shadow-ban',
+  reports: 'reports',
+}
+
+type Visibility = NonNullable<ModerationFilters['visibility']>
+
+interface FilterForm {
+  comicId: string
+  pageNumber: string
+  userQuery: string
+  fromDate: string
+  toDate: string
+  visibility: Visibility
+}
+
+const EMPTY_FILTERS: FilterForm = {
+  comicId: ALL_COMICS,
+  pageNumber: '',
+  userQuery: '',
+  fromDate: '',
+  toDate: '',
+  visibility: 'all',
+}
+
+type CommenterSummary = NonNullable<Awaited<ReturnType<typeof getCommenterSummary>>['data']>
+
+interface CommentModerationProps {
+  /** Show one user's comment history with ban controls */
+  userId?: string
+}
+
+export function CommentModeration({ userId }: CommentModerationProps) {
+  const [comics, setComics] = useState<{ id: string; title: string }[]>([])
+  const [form, setForm] = useState<FilterForm>(EMPTY_FILTERS)
+  const [appliedFilters, setAppliedFilters] = useState<FilterForm>(EMPTY_FILTERS)
+  const [comments, setComments] = useState<ModerationComment[]>([])
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isLoadingMore, setIsLoadingMore] = useState(false)
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  const [isActing, setIsActing] = useState(false)
+  const [summary, setSummary] = useState<CommenterSummary | null>(null)
+
+  useEffect(() => {
+    const loadComics = async () => {
+      const { data } = await getAllComics()
+      if (data) {
+        setComics(data.map((comic) => ({ id: comic.id, title: comic.title })))
+      }
+    }
+    loadComics()
+  }, [])
+
+  const fetchSummary = useCallback(async () => {
+    if (!userId) return null
+    const { data, error } = await getCommenterSummary(userId)
+    if (error) {
+      console.error('Failed to load user:', error)
+    }
+    return data
+  }, [userId])
+
+  const loadSummary = async () => {
+    setSummary(await fetchSummary())
+  }
+
+  useEffect(() => {
+    let cancelled = false
+    fetchSummary().then((data) => {
+      if (!cancelled) setSummary(data)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [fetchSummary])
+
+  const toQuery = useCallback((filters: FilterForm, cursor?: string): ModerationFilters => ({
+    comicId: filters.comicId !== ALL_COMICS ? filters.comicId : undefined,
+    pageNumber: filters.pageNumber ? parseInt(filters.pageNumber, 10) : undefined,
+    userId,
+    userQuery: userId ? undefined : filters.userQuery || undefined,
+    fromDate: filters.fromDate || undefined,
+    toDate: filters.toDate || undefined,
+    visibility: filters.visibility,
+    cursor,
+  }), [userId])
+
+  const fetchComments = useCallback(async () => {
+    const { data, error } = await getModerationComments(toQuery(appliedFilters))
+    if (error) {
+      console.error('Failed to load comments:', error)
+    }
+    return data
+  }, [appliedFilters, toQuery])
+
+  const showComments = useCallback((data: Awaited<ReturnType<typeof getModerationComments>>['data']) => {
+    if (data) {
+      setComments(data.comments)
+      setNextCursor(data.next_cursor)
+    }
+    setIsLoading(false)
+  }, [])
+
+  // Reloads whenever the applied filters change; applyFilters shows the spinner
+  useEffect(() => {
+    let cancelled = false
+    fetchComments().then((data) => {
+      if (!cancelled) showComments(data)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [fetchComments, showComments])
+
+  const loadComments = async () => {
+    setIsLoading(true)
+    setSelectedIds(new Set())
+    showComments(await fetchComments())
+  }
+
+  const applyFilters = (filters: FilterForm) => {
+    setIsLoading(true)
+    setSelectedIds(new Set())
+    setAppliedFilters(filters)
+  }
+
+  const loadMore = async () => {
+    if (!nextCursor) return
+    setIsLoadingMore(true)
+    const { data, error } = await getModerationComments(toQuery(appliedFilters, nextCursor))
+    if (error) {
+      alert(`Failed to load more comments: ${error}`)
+    } else if (data) {
+      setComments((prev) => [...prev, ...data.comments])
+      setNextCursor(data.next_cursor)
+    }
+    setIsLoadingMore(false)
+  }
+
+  const toggleSelected = (commentId: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev)
+      if (next.has(commentId)) {
+        next.delete(commentId)
+      } else {
+        next.add(commentId)
+      }
+      return next
+    })
+  }
+
+  const allSelected = comments.length > 0 && selectedIds.size === comments.length
+
+  const handleHide = async (commentIds: string[], hidden: boolean) => {
+    setIsActing(true)
+    const { error } = await setCommentsHidden(commentIds, hidden)
+    if (error) {
+      alert(`Failed to update comments: ${error}`)
+    } else {
+      const ids = new Set(commentIds)
+      setComments((prev) =>
+        prev.map((c) =>
+          ids.has(c.id) ? { ...c, is_hidden: hidden, hidden_reason: hidden ? 'moderator' : null } : c
+        )
+      )
+      setSelectedIds(new Set())
+      loadSummary()
+    }
+    setIsActing(false)
+  }
+
+  const handleDelete = async (commentIds: string[]) => {
+    const label = commentIds.length === 1 ? 'this comment' : `${commentIds.length} comments`
+    if (!confirm(`Delete ${label}? Replies to deleted comments are removed too. This action cannot be undone.`)) {
+      return
+    }
+
+    setIsActing(true)
+    const { error } = await deleteComments(commentIds)
+    if (error) {
+      alert(`Failed to delete comments: ${error}`)
+    } else {
+      const ids = new Set(commentIds)
+      setComments((prev) => prev.filter((c) => !ids.has(c.id) && !(c.parent_id && ids.has(c.parent_id))))
+      setSelectedIds(new Set())
+      loadSummary()
+    }
+    setIsActing(false)
+  }
+
+  const handleBanToggle = async () => {
+    if (!userId || !summary) return
+
+    const isBanned = !!summary.ban
+    let reason: string | undefined
+    if (!isBanned) {
+      const input = prompt('Shadow-ban this user? Their new comments will only be visible to themselves.\n\nReason (optional):')
+      if (input === null) return
+      reason = input
+    } else if (!confirm('Lift the shadow-ban? New comments from this user will be visible again.')) {
+      return
+    }
+
+    setIsActing(true)
+    const { error } = await setCommentBan(userId, !isBanned, reason)
+    if (error) {
+      alert(`Failed to update ban: ${error}`)
+    } else {
+      await Promise.all([loadSummary(), loadComments()])
+    }
+    setIsActing(false)
+  }
+
+  return (
+    <div className="space-y-6">
+      {userId ? (
+        <div className="space-y-4">
+          <Link
+            href="/admin/comments"
+            className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground"
+          >
+            <ArrowLeft className="mr-1 h-4 w-4" />
+            All comments
+          </Link>
+          <Card>
+            <CardHeader>
+              <div className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
+                <div>
+                  <CardTitle className="flex items-center gap-2">
+                    {summary?.profile.full_name || summary?.profile.email || 'Commenter'}
+                    {summary?.ban && <Badge variant="destructive">Shadow-banned</Badge>}
+                  </CardTitle>
+                  <CardDescription>
+                    {summary?.profile.email}
+                    {summary && ` · joined ${formatDate(summary.profile.created_at)}`}
+                  </CardDescription>
+                </div>
+                {summary && (
+                  <Button
+                    variant={summary.ban ? 'outline' : 'destructive'}
+                    onClick={handleBanToggle}
+                    disabled={isActing}
+                  >
+                    <Ban className="mr-2 h-4 w-4" />
+                    {summary.ban ? 'Lift ban' : 'Shadow-ban'}
+                  </Button>
+                )}
+              </div>
+            </CardHeader>
+            {summary && (
+              <CardContent className="space-y-1 text-sm text-muted-foreground">
+                <p>
+                  {summary.comment_count} comment{summary.comment_count !== 1 ? 's' : ''} ·{' '}
+                  {summary.hidden_count} hidden
+                </p>
+                {summary.ban && (
+                  <p>
+                    Banned {formatDate(summary.ban.created_at)}
+                    {summary.ban.reason && ` · ${summary.ban.reason}`}
+                  </p>
+                )}
+              </CardContent>
+            )}
+          </Card>
+        </div>
+      ) : (
+        <div>
+          <h1 className="text-3xl font-bold">Comments</h1>
+          <p className="text-muted-foreground">Review, hide and remove reader comments across all comics</p>
+        </div>
+      )}
+
+      <Card>
+        <CardContent className="pt-6">
+          <form
+            onSubmit={(e) => {
+              e.preventDefault()
+              applyFilters(form)
+            }}
+            className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3"
+          >
+            <div className="space-y-2">
+              <Label htmlFor="filter-comic">Comic</Label>
+              <Select
+                value={form.comicId}
+                onValueChange={(value) => setForm((prev) => ({ ...prev, comicId: value, pageNumber: '' }))}
+              >
+                <SelectTrigger id="filter-comic" className="w-full">
+                  <SelectValue placeholder="All comics" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_COMICS}>All comics</SelectItem>
+                  {comics.map((comic) => (
+                    <SelectItem key={comic.id} value={comic.id}>
+                      {comic.title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="filter-page">Page</Label>
+              <Input
+                id="filter-page"
+                type="number"
+                min={1}
+                placeholder={form.comicId === ALL_COMICS ? 'Pick a comic first' : 'Any page'}
+                value={form.pageNumber}
+                onChange={(e) => setForm((prev) => ({ ...prev, pageNumber: e.target.value }))}
+                disabled={form.comicId === ALL_COMICS}
+              />
+            </div>
+            {!userId && (
+              <div className="space-y-2">
+                <Label htmlFor="filter-user">User</Label>
+                <Input
+                  id="filter-user"
+                  placeholder="Name or email"
+                  value={form.userQuery}
+                  onChange={(e) => setForm((prev) => ({ ...prev, userQuery: e.target.value }))}
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="filter-from">From</Label>
+              <Input
+                id="filter-from"
+                type="date"
+                value={form.fromDate}
+                onChange={(e) => setForm((prev) => ({ ...prev, fromDate: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="filter-to">To</Label>
+              <Input
+                id="filter-to"
+                type="date"
+                value={form.toDate}
+                onChange={(e) => setForm((prev) => ({ ...prev, toDate: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="filter-visibility">Status</Label>
+              <Select
+                value={form.visibility}
+                onValueChange={(value) => setForm((prev) => ({ ...prev, visibility: value as Visibility }))}
+              >
+                <SelectTrigger id="filter-visibility" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All</SelectItem>
+                  <SelectItem value="visible">Visible</SelectItem>
+                  <SelectItem value="hidden">Hidden</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-end gap-2 sm:col-span-2 lg:col-span-3">
+              <Button type="submit">Apply filters</Button>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => {
+                  setForm(EMPTY_FILTERS)
+                  applyFilters(EMPTY_FILTERS)
+                }}
+              >
+                Reset
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      {/* Bulk actions */}
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={allSelected}
+            onChange={() =>
+              setSelectedIds(allSelected ? new Set() : new Set(comments.map((c) => c.id)))
+            }
+            disabled={comments.length === 0}
+            className="h-4 w-4 accent-amber"
+          />
+          {selectedIds.size > 0 ? `${selectedIds.size} selected` : 'Select all'}
+        </label>
+        {selectedIds.size > 0 && (
+          <>
+            <Button size="sm" variant="outline" disabled={isActing} onClick={() => handleHide(Array.from(selectedIds), true)}>
+              <EyeOff className="mr-2 h-4 w-4" />
+              Hide
+            </Button>
+            <Button size="sm" variant="outline" disabled={isActing} onClick={() => handleHide(Array.from(selectedIds), false)}>
+              <Eye className="mr-2 h-4 w-4" />
+              Unhide
+            </Button>
+            <Button size="sm" variant="destructive" disabled={isActing} onClick={() => handleDelete(Array.from(selectedIds))}>
+              <Trash2 className="mr-2 h-4 w-4" />
+              Delete
+            </Button>
+          </>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : comments.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            <MessageSquare className="mx-auto mb-2 h-8 w-8 opacity-50" />
+            No comments match these filters
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {comments.map((comment) => (
+            <Card key={comment.id} className={comment.is_hidden ? 'opacity-70' : ''}>
+              <CardContent className="flex gap-4 py-4">
+                <input
+                  type="checkbox"
+                  checked={selectedIds.has(comment.id)}
+                  onChange={() => toggleSelected(comment.id)}
+                  className="mt-1 h-4 w-4 flex-shrink-0 accent-amber"
+                  aria-label="Select comment"
+                />
+                <div className="min-w-0 flex-1 space-y-1">
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <Link
+                      href={`/admin/comments/users/${comment.user_id}`}
+                      className="font-semibold hover:text-amber"
+                    >
+                      {comment.user.full_name || comment.user.email || 'Anonymous'}
+                    </Link>
+                    {comment.user_is_banned && <Badge variant="destructive">Banned</Badge>}
+                    {comment.is_hidden && (
+                      <Badge variant="secondary">
+                        Hidden{comment.hidden_reason && comment.hidden_reason !== 'moderator' ? ` (${HIDDEN_REASON_LABELS[comment.hidden_reason]})` : ''}
+                      </Badge>
+                    )}
+                    {comment.parent_id && <Badge variant="outline">Reply</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    <Link href={`/admin/comics/${comment.comic_id}`} className="hover:text-foreground">
+                      {comment.comic_title}
+                    </Link>
+                    {comment.page_number !== null ? ` · Page ${comment.page_number}` : ' · Comic'}
+                    {' · '}
+                    {new Date(comment.created_at).toLocaleString()}
+                  </p>
+                  <p className="whitespace-pre-wrap break-words text-sm">{comment.content}</p>
+                </div>
+                <div className="flex flex-shrink-0 items-start gap-1">
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    disabled={isActing}
+                    onClick={() => handleHide([comment.id], !comment.is_hidden)}
+                    title={comment.is_hidden ? 'Unhide' : 'Hide'}
+                  >
+                    {comment.is_hidden ? <Eye className="h-4 w-4" /> : <EyeOff className="h-4 w-4" />}
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    disabled={isActing}
+                    onClick={() => handleDelete([comment.id])}
+                    className="text-destructive hover:text-destructive"
+                    title="Delete"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+
+          {nextCursor && (
+            <div className="flex justify-center pt-2">
+              <Button variant="outline" onClick={loadMore} disabled={isLoadingMore}>
+                {isLoadingMore && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Load more
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
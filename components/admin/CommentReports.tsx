@@ -0,0 +1,191 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { getReportedComments, resolveCommentReports } from '@/lib/admin-actions'
+import { COMMENT_REPORT_REASONS } from '@/lib/comment-utils'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent } from '@/components/ui/card'
+import { Loader2, Check, EyeOff, Flag, ChevronDown, ChevronUp } from 'lucide-react'
+import type { ReportedComment } from '@/types/database'
+
+const REASON_LABELS = new Map(COMMENT_REPORT_REASONS.map((option) => [option.value, option.label]))
+
+export function CommentReports() {
+  const [items, setItems] = useState<ReportedComment[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [resolvingId, setResolvingId] = useState<string | null>(null)
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set())
+
+  const loadReports = useCallback(async () => {
+    const { data, error } = await getReportedComments()
+    if (error) {
+      console.error('Failed to load reports:', error)
+    }
+    return data
+  }, [])
+
+  useEffect(() => {
+    let cancelled = false
+    loadReports().then((data) => {
+      if (cancelled) return
+      if (data) {
+        setItems(data)
+      }
+      setIsLoading(false)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [loadReports])
+
+  const handleResolve = async (commentId: string, outcome: 'approved' | 'removed') => {
+    setResolvingId(commentId)
+    const { error } = await resolveCommentReports(commentId, outcome)
+    if (error) {
+      alert(`Failed to resolve reports: ${error}`)
+    } else {
+      setItems((prev) => prev.filter((item) => item.comment.id !== commentId))
+    }
+    setResolvingId(null)
+  }
+
+  const toggleExpanded = (commentId: string) => {
+    setExpandedIds((prev) => {
+      const next = new Set(prev)
+      if (next.has(commentId)) {
+        next.delete(commentId)
+      } else {
+        next.add(commentId)
+      }
+      return next
+    })
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Reported Comments</h1>
+        <p className="text-muted-foreground">
+          Approve a comment to keep it, or remove it to hide it from readers
+        </p>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : items.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            <Flag className="mx-auto mb-2 h-8 w-8 opacity-50" />
+            No reports waiting for review
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {items.map(({ comment, report_count, reason_counts, reports }) => {
+            const isExpanded = expandedIds.has(comment.id)
+            const isResolving = resolvingId === comment.id
+
+            return (
+              <Card key={comment.id}>
+                <CardContent className="space-y-3 py-4">
+                  <div className="flex flex-col gap-3 sm:flex-row sm:items-start">
+                    <div className="min-w-0 flex-1 space-y-1">
+                      <div className="flex flex-wrap items-center gap-2 text-sm">
+                        <Badge variant="destructive">
+                          {report_count} report{report_count !== 1 ? 's' : ''}
+                        </Badge>
+                        <Link
+                          href={`/admin/comments/users/${comment.user_id}`}
+                          className="font-semibold hover:text-amber"
+                        >
+                          {comment.user.full_name || comment.user.email || 'Anonymous'}
+                        </Link>
+                        {comment.user_is_banned && <Badge variant="destructive">Banned</Badge>}
+                        {comment.is_hidden && (
+                          <Badge variant="secondary">
+                            {comment.hidden_reason === 'reports' ? 'Auto-hidden' : 'Hidden'}
+                          </Badge>
+                        )}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        <Link href={`/admin/comics/${comment.comic_id}`} className="hover:text-foreground">
+                          {comment.comic_title}
+                        </Link>
+                        {comment.page_number !== null ? ` · Page ${comment.page_number}` : ' · Comic'}
+                        {' · '}
+                        {new Date(comment.created_at).toLocaleString()}
+                      </p>
+                      <p className="whitespace-pre-wrap break-words text-sm">{comment.content}</p>
+                      <div className="flex flex-wrap gap-1 pt-1">
+                        {Object.entries(reason_counts).map(([reason, count]) => (
+                          <Badge key={reason} variant="outline">
+                            {REASON_LABELS.get(reason as keyof typeof reason_counts) ?? reason} × {count}
+                          </Badge>
+                        ))}
+                      </div>
+                    </div>
+                    <div className="flex flex-shrink-0 gap-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={isResolving}
+                        onClick={() => handleResolve(comment.id, 'approved')}
+                      >
+                        <Check className="mr-2 h-4 w-4" />
+                        Approve
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="destructive"
+                        disabled={isResolving}
+                        onClick={() => handleResolve(comment.id, 'removed')}
+                      >
+                        <EyeOff className="mr-2 h-4 w-4" />
+                        Remove
+                      </Button>
+                    </div>
+                  </div>
+
+                  <button
+                    type="button"
+                    onClick={() => toggleExpanded(comment.id)}
+                    className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+                  >
+                    {isExpanded ? <ChevronUp className="h-3 w-3" /> : <ChevronDown className="h-3 w-3" />}
+                    {isExpanded ? 'Hide reports' : 'Show reports'}
+                  </button>
+                  {isExpanded && (
+                    <ul className="space-y-2 border-l pl-3 text-sm">
+                      {reports.map((report) => (
+                        <li key={report.id}>
+                          <span className="font-medium">
+                            {report.reporter.full_name || report.reporter.email || 'Reader'}
+                          </span>
+                          {' · '}
+                          {REASON_LABELS.get(report.reason) ?? report.reason}
+                          {' · '}
+                          <span className="text-muted-foreground">
+                            {new Date(report.created_at).toLocaleString()}
+                          </span>
+                          {report.details && (
+                            <p className="whitespace-pre-wrap break-words text-muted-foreground">
+                              {report.details}
+                            </p>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </CardContent>
+              </Card>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,21 +1,45 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { deleteComicPage, getComicPages } from '@/lib/admin-actions'
+import {
+  deleteComicPage,
+  getComicPages,
+  getChaptersByComicId,
+  deleteChapter,
+  assignPageToChapter,
+  setPageSpread,
+} from '@/lib/admin-actions'
 import { uploadComicPages } from '@/lib/storage-actions'
+import { parsePagePanels } from '@/lib/page-panels'
 import { FileUpload } from '@/components/admin/FileUpload'
+import { PanelEditor } from '@/components/admin/PanelEditor'
+import { ChapterForm } from '@/components/admin/ChapterForm'
 import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
-import { Loader2, Upload, Trash2, Image as ImageIcon } from 'lucide-react'
-import { getStorageUrl } from '@/lib/storage-actions'
-import type { ComicPage } from '@/types/database'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Loader2, Upload, Trash2, Plus, Pencil, BookOpen, Focus, Image as ImageIcon } from 'lucide-react'
+import type { ComicChapter, ComicPage, ComicPanel } from '@/types/database'
+
+type PageRow = ComicPage & { image_url: string | null }
+
+// Radix Select can't use an empty string as an item value
+const NO_CHAPTER = 'none'
+
+const chapterLabel = (chapter: ComicChapter) =>
+  `Chapter ${chapter.chapter_number}${chapter.title ? `: ${chapter.title}` : ''}`
 
 interface PageUploaderProps {
   comicId: string
 }
 
 export function PageUploader({ comicId }: PageUploaderProps) {
-  const [pages, setPages] = useState<ComicPage[]>([])
+  const [pages, setPages] = useState<PageRow[]>([])
+  const [chapters, setChapters] = useState<ComicChapter[]>([])
+  const [uploadChapterId, setUploadChapterId] = useState<string>(NO_CHAPTER)
+  const [showChapterForm, setShowChapterForm] = useState(false)
+  const [editingChapterId, setEditingChapterId] = useState<string | null>(null)
+  const [panelPageId, setPanelPageId] = useState<string | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   const [isUploading, setIsUploading] = useState(false)
   const [uploadProgress, setUploadProgress] = useState<number>(0)
@@ -27,13 +51,65 @@ export function PageUploader({ comicId }: PageUploaderProps) {
 
   const loadPages = async () => {
     setIsLoading(true)
-    const { data, error } = await getComicPages(comicId)
+    const [pagesResult, chaptersResult] = await Promise.all([
+      getComicPages(comicId),
+      getChaptersByComicId(comicId),
+    ])
+    if (pagesResult.error) {
+      setError(pagesResult.error)
+    } else if (pagesResult.data) {
+      setPages(pagesResult.data)
+    }
+    if (chaptersResult.error) {
+      setError(chaptersResult.error)
+    } else if (chaptersResult.data) {
+      setChapters(chaptersResult.data)
+    }
+    setIsLoading(false)
+  }
+
+  const handleChapterSaved = async () => {
+    setShowChapterForm(false)
+    setEditingChapterId(null)
+    await loadPages()
+  }
+
+  const handleDeleteChapter = async (chapter: ComicChapter) => {
+    if (!confirm(`Delete ${chapterLabel(chapter)}? Its pages will be kept but unassigned.`)) {
+      return
+    }
+
+    const { error } = await deleteChapter(chapter.id)
     if (error) {
       setError(error)
-    } else if (data) {
-      setPages(data)
+      return
+    }
+    if (uploadChapterId === chapter.id) {
+      setUploadChapterId(NO_CHAPTER)
+    }
+    await loadPages()
+  }
+
+  const handleAssignChapter = async (pageId: string, value: string) => {
+    const { error } = await assignPageToChapter(pageId, value === NO_CHAPTER ? null : value)
+    if (error) {
+      setError(error)
+    } else {
+      await loadPages()
+    }
+  }
+
+  const handleSetSpread = async (pageId: string, isSpread: boolean) => {
+    const { error } = await setPageSpread(pageId, isSpread)
+    if (error) {
+      setError(error)
+    } else {
+      setPages((prev) => prev.map((page) => (page.id === pageId ? { ...page, is_spread: isSpread } : page)))
     }
-    setIsLoading(false)
+  }
+
+  const handlePanelsSaved = (pageId: string, panels: ComicPanel[]) => {
+    setPages((prev) => prev.map((page) => (page.id === pageId ? { ...page, panels: panels.map((panel) => ({ ...panel })) } : page)))
   }
 
   const handleFilesSelected = async (files: File[]) => {
@@ -53,7 +129,11 @@ export function PageUploader({ comicId }: PageUploaderProps) {
         formData.append('file', file)
 
         // Create a single-file array for upload
-        const results = await uploadComicPages(comicId, [file])
+        const results = await uploadComicPages(
+          comicId,
+          [file],
+          uploadChapterId === NO_CHAPTER ? null : uploadChapterId
+        )
         
         if (results[0]?.error) {
           throw new Error(results[0].error)
@@ -98,8 +178,119 @@ export function PageUploader({ comicId }: PageUploaderProps) {
     )
   }
 
+  const nextChapterNumber = chapters.reduce((max, c) => Math.max(max, c.chapter_number), 0) + 1
+  const editingChapter = chapters.find((c) => c.id === editingChapterId)
+  const panelPage = pages.find((page) => page.id === panelPageId)
+
+  // Group pages by chapter for display; unassigned pages go last
+  const pageGroups = [
+    ...chapters.map((chapter) => ({
+      key: chapter.id,
+      label: chapterLabel(chapter),
+      pages: pages.filter((page) => page.chapter_id === chapter.id),
+    })),
+    {
+      key: NO_CHAPTER,
+      label: chapters.length > 0 ? 'Unassigned' : '',
+      pages: pages.filter((page) => !page.chapter_id),
+    },
+  ].filter((group) => group.pages.length > 0)
+
   return (
     <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+            <div>
+              <CardTitle>Chapters ({chapters.length})</CardTitle>
+              <CardDescription>
+                Group pages into chapters. Readers see the chapter list on the comic page.
+              </CardDescription>
+            </div>
+            {!showChapterForm && !editingChapterId && (
+              <Button onClick={() => setShowChapterForm(true)}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Chapter
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {showChapterForm && (
+            <div className="rounded-lg border border-border bg-muted/30 p-4">
+              <h3 className="mb-4 text-sm font-semibold">New Chapter</h3>
+              <ChapterForm
+                comicId={comicId}
+                nextChapterNumber={nextChapterNumber}
+                onSuccess={handleChapterSaved}
+                onCancel={() => setShowChapterForm(false)}
+              />
+            </div>
+          )}
+
+          {editingChapter && (
+            <div className="rounded-lg border border-border bg-muted/30 p-4">
+              <h3 className="mb-4 text-sm font-semibold">Edit: {chapterLabel(editingChapter)}</h3>
+              <ChapterForm
+                comicId={comicId}
+                chapter={editingChapter}
+                onSuccess={handleChapterSaved}
+                onCancel={() => setEditingChapterId(null)}
+              />
+            </div>
+          )}
+
+          {chapters.length === 0 && !showChapterForm ? (
+            <div className="py-6 text-center text-muted-foreground">
+              <BookOpen className="mx-auto mb-2 h-8 w-8" />
+              <p className="text-sm">No chapters yet. Pages will be shown as one continuous comic.</p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {chapters.map((chapter) => {
+                const chapterPageCount = pages.filter((page) => page.chapter_id === chapter.id).length
+                return (
+                  <div
+                    key={chapter.id}
+                    className="flex items-center justify-between gap-4 rounded-lg border border-border bg-card px-4 py-3"
+                  >
+                    <div className="min-w-0">
+                      <p className="font-semibold">{chapterLabel(chapter)}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {chapterPageCount} page{chapterPageCount !== 1 ? 's' : ''}
+                      </p>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => {
+                          setShowChapterForm(false)
+                          setEditingChapterId(chapter.id)
+                        }}
+                        disabled={!!editingChapterId}
+                      >
+                        <Pencil className="h-3 w-3" />
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="destructive"
+                        size="sm"
+                        onClick={() => handleDeleteChapter(chapter)}
+                        disabled={!!editingChapterId}
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       <Card>
         <CardHeader>
           <CardTitle>Upload Pages</CardTitle>
@@ -129,6 +320,32 @@ export function PageUploader({ comicId }: PageUploaderProps) {
             </div>
           )}
 
+          {chapters.length > 0 && (
+            <div className="mb-4 space-y-2">
+              <Label htmlFor="upload-chapter">Upload into</Label>
+              <Select
+                value={uploadChapterId}
+                onValueChange={setUploadChapterId}
+                disabled={isUploading}
+              >
+                <SelectTrigger id="upload-chapter" className="w-full sm:w-80">
+                  <SelectValue placeholder="Select chapter" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_CHAPTER}>No chapter</SelectItem>
+                  {chapters.map((chapter) => (
+                    <SelectItem key={chapter.id} value={chapter.id}>
+                      {chapterLabel(chapter)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                New pages are always added after the comic&apos;s current last page.
+              </p>
+            </div>
+          )}
+
           <FileUpload
             onFilesSelected={handleFilesSelected}
             accept="image/*"
@@ -151,42 +368,101 @@ export function PageUploader({ comicId }: PageUploaderProps) {
               <p className="text-sm">Upload pages using the form above</p>
             </div>
           ) : (
-            <div className="grid gap-4 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4">
-              {pages.map((page) => {
-                const imageUrl = `${process.env.NEXT_PUBLIC_SUPABASE_URL}/storage/v1/object/public/comics/${page.image_path}`
-                return (
-                  <div
-                    key={page.id}
-                    className="group relative overflow-hidden rounded-lg border border-border bg-muted"
-                  >
-                    <div className="aspect-[2/3] w-full overflow-hidden">
-                      <img
-                        src={imageUrl}
-                        alt={`Page ${page.page_number}`}
-                        className="h-full w-full object-cover transition-transform group-hover:scale-105"
-                      />
-                    </div>
-                    <div className="absolute inset-0 bg-black/60 opacity-0 transition-opacity group-hover:opacity-100">
-                      <div className="flex h-full items-center justify-center gap-2">
-                        <Button
-                          variant="destructive"
-                          size="sm"
-                          onClick={() => handleDeletePage(page.id, page.image_path)}
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
-                      </div>
-                    </div>
-                    <div className="absolute bottom-0 left-0 right-0 bg-black/80 p-2 text-center text-xs text-white">
-                      Page {page.page_number}
-                    </div>
+            <div className="space-y-6">
+              {pageGroups.map((group) => (
+                <div key={group.key}>
+                  {group.label && (
+                    <h3 className="mb-3 text-sm font-semibold text-muted-foreground">
+                      {group.label} ({group.pages.length})
+                    </h3>
+                  )}
+                  <div className="grid gap-4 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4">
+                    {group.pages.map((page) => {
+                      const imageUrl = page.image_url ?? undefined
+                      return (
+                        <div key={page.id} className="space-y-2">
+                          <div className="group relative overflow-hidden rounded-lg border border-border bg-muted">
+                            <div className="aspect-[2/3] w-full overflow-hidden">
+                              <img
+                                src={imageUrl}
+                                alt={`Page ${page.page_number}`}
+                                className="h-full w-full object-cover transition-transform group-hover:scale-105"
+                              />
+                            </div>
+                            <div className="absolute inset-0 bg-black/60 opacity-0 transition-opacity group-hover:opacity-100">
+                              <div className="flex h-full items-center justify-center gap-2">
+                                <Button
+                                  variant="destructive"
+                                  size="sm"
+                                  onClick={() => handleDeletePage(page.id, page.image_path)}
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </div>
+                            </div>
+                            <div className="absolute bottom-0 left-0 right-0 bg-black/80 p-2 text-center text-xs text-white">
+                              Page {page.page_number}
+                            </div>
+                          </div>
+                          {chapters.length > 0 && (
+                            <Select
+                              value={page.chapter_id ?? NO_CHAPTER}
+                              onValueChange={(value) => handleAssignChapter(page.id, value)}
+                            >
+                              <SelectTrigger className="h-8 w-full text-xs">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value={NO_CHAPTER}>No chapter</SelectItem>
+                                {chapters.map((chapter) => (
+                                  <SelectItem key={chapter.id} value={chapter.id}>
+                                    {chapterLabel(chapter)}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          )}
+                          <div className="flex items-center space-x-2">
+                            <input
+                              type="checkbox"
+                              id={`spread-${page.id}`}
+                              checked={page.is_spread}
+                              onChange={(e) => handleSetSpread(page.id, e.target.checked)}
+                              className="h-4 w-4 rounded border-gray-300"
+                            />
+                            <Label htmlFor={`spread-${page.id}`} className="text-xs font-normal">
+                              Full two-page spread
+                            </Label>
+                          </div>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="h-8 w-full text-xs"
+                            onClick={() => setPanelPageId(page.id)}
+                          >
+                            <Focus className="mr-1 h-3.5 w-3.5" />
+                            Panels ({parsePagePanels(page.panels).length})
+                          </Button>
+                        </div>
+                      )
+                    })}
                   </div>
-                )
-              })}
+                </div>
+              ))}
             </div>
           )}
         </CardContent>
       </Card>
+
+      {panelPage && (
+        <PanelEditor
+          key={panelPage.id}
+          page={panelPage}
+          open
+          onOpenChange={(open) => !open && setPanelPageId(null)}
+          onSaved={(panels) => handlePanelsSaved(panelPage.id, panels)}
+        />
+      )}
     </div>
   )
 }
@@ -0,0 +1,215 @@
+'use client'
+
+import { useState } from 'react'
+import { setPagePanels } from '@/lib/admin-actions'
+import { MAX_PANELS_PER_PAGE, MIN_PANEL_SIZE, parsePagePanels } from '@/lib/page-panels'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { ArrowUp, Loader2, Trash2 } from 'lucide-react'
+import type { ComicPage, ComicPanel } from '@/types/database'
+
+type Point = { x: number; y: number }
+
+function clamp(value: number): number {
+  return Math.min(1, Math.max(0, value))
+}
+
+function toPanel(start: Point, end: Point): ComicPanel {
+  return {
+    x: Math.min(start.x, end.x),
+    y: Math.min(start.y, end.y),
+    width: Math.abs(end.x - start.x),
+    height: Math.abs(end.y - start.y),
+  }
+}
+
+interface PanelEditorProps {
+  page: ComicPage & { image_url: string | null }
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSaved: (panels: ComicPanel[]) => void
+}
+
+/**
+ * Draw a page's guided view panels over its image. Panels are read in the
+ * order they're listed; drag on the image to add one.
+ */
+export function PanelEditor({ page, open, onOpenChange, onSaved }: PanelEditorProps) {
+  const [panels, setPanels] = useState<ComicPanel[]>(() => parsePagePanels(page.panels))
+  const [start, setStart] = useState<Point | null>(null)
+  const [current, setCurrent] = useState<Point | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const toPoint = (e: React.PointerEvent<HTMLDivElement>): Point => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    return {
+      x: clamp((e.clientX - rect.left) / rect.width),
+      y: clamp((e.clientY - rect.top) / rect.height),
+    }
+  }
+
+  const preview = start && current ? toPanel(start, current) : null
+
+  const movePanelUp = (index: number) => {
+    setPanels((prev) => {
+      const next = [...prev]
+      ;[next[index - 1], next[index]] = [next[index], next[index - 1]]
+      return next
+    })
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    setError(null)
+    const { error } = await setPagePanels(page.id, panels)
+    setIsSaving(false)
+    if (error) {
+      setError(error)
+      return
+    }
+    onSaved(panels)
+    onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Panels for page {page.page_number}</DialogTitle>
+          <DialogDescription>
+            Drag a box around each panel in reading order. Guided view steps through them;
+            a page without panels is shown whole.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 md:grid-cols-[1fr_220px]">
+          <div className="relative mx-auto w-fit select-none">
+            <img
+              src={page.image_url ?? undefined}
+              alt={`Page ${page.page_number}`}
+              className="block max-h-[65vh] w-auto rounded-md"
+              draggable={false}
+            />
+            <div
+              className="absolute inset-0 cursor-crosshair touch-none"
+              onPointerDown={(e) => {
+                if (panels.length >= MAX_PANELS_PER_PAGE) return
+                e.currentTarget.setPointerCapture(e.pointerId)
+                const point = toPoint(e)
+                setStart(point)
+                setCurrent(point)
+              }}
+              onPointerMove={(e) => {
+                if (start) setCurrent(toPoint(e))
+              }}
+              onPointerUp={(e) => {
+                if (!start) return
+                const panel = toPanel(start, toPoint(e))
+                setStart(null)
+                setCurrent(null)
+                if (panel.width >= MIN_PANEL_SIZE && panel.height >= MIN_PANEL_SIZE) {
+                  setPanels((prev) => [...prev, panel])
+                }
+              }}
+            >
+              {panels.map((panel, index) => (
+                <div
+                  key={index}
+                  className="pointer-events-none absolute rounded border-2 border-amber bg-amber/10"
+                  style={{
+                    left: `${panel.x * 100}%`,
+                    top: `${panel.y * 100}%`,
+                    width: `${panel.width * 100}%`,
+                    height: `${panel.height * 100}%`,
+                  }}
+                >
+                  <span className="absolute left-1 top-1 flex h-5 min-w-5 items-center justify-center rounded-full bg-amber px-1 text-xs font-bold text-background">
+                    {index + 1}
+                  </span>
+                </div>
+              ))}
+              {preview && (
+                <div
+                  className="pointer-events-none absolute rounded border-2 border-dashed border-amber bg-amber/20"
+                  style={{
+                    left: `${preview.x * 100}%`,
+                    top: `${preview.y * 100}%`,
+                    width: `${preview.width * 100}%`,
+                    height: `${preview.height * 100}%`,
+                  }}
+                />
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-sm font-medium">
+              Reading order ({panels.length}/{MAX_PANELS_PER_PAGE})
+            </p>
+            {panels.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No panels yet</p>
+            ) : (
+              <ol className="max-h-[55vh] space-y-1 overflow-y-auto">
+                {panels.map((panel, index) => (
+                  <li
+                    key={index}
+                    className="flex items-center justify-between rounded-md border border-border px-2 py-1 text-sm"
+                  >
+                    <span>Panel {index + 1}</span>
+                    <span className="flex gap-1">
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        disabled={index === 0}
+                        onClick={() => movePanelUp(index)}
+                        aria-label={`Move panel ${index + 1} earlier`}
+                      >
+                        <ArrowUp className="h-3.5 w-3.5" />
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7 text-destructive"
+                        onClick={() => setPanels((prev) => prev.filter((_, i) => i !== index))}
+                        aria-label={`Remove panel ${index + 1}`}
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </Button>
+                    </span>
+                  </li>
+                ))}
+              </ol>
+            )}
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => setPanels([])}
+            disabled={panels.length === 0 || isSaving}
+          >
+            Clear all
+          </Button>
+          <Button type="button" onClick={handleSave} disabled={isSaving}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save panels
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
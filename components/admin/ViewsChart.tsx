@@ -0,0 +1,100 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { getDailyViewStats } from '@/lib/admin-actions'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Loader2 } from 'lucide-react'
+
+interface ViewsChartProps {
+  /** Chart one comic; omit for all comics combined */
+  comicId?: string
+  title?: string
+}
+
+const RANGES = [7, 30, 90]
+
+export function ViewsChart({ comicId, title = 'Views' }: ViewsChartProps) {
+  const [days, setDays] = useState(30)
+  const [series, setSeries] = useState<{ date: string; views: number }[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const loadStats = async () => {
+      setIsLoading(true)
+      const { data, error } = await getDailyViewStats(comicId ?? null, days)
+      if (error) {
+        setError(error)
+      } else {
+        setError(null)
+        setSeries(data || [])
+      }
+      setIsLoading(false)
+    }
+    loadStats()
+  }, [comicId, days])
+
+  const total = series.reduce((sum, point) => sum + point.views, 0)
+  const max = Math.max(1, ...series.map((point) => point.views))
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+          <div>
+            <CardTitle>{title}</CardTitle>
+            <CardDescription>
+              {total.toLocaleString()} view{total !== 1 ? 's' : ''} in the last {days} days (UTC)
+            </CardDescription>
+          </div>
+          <div className="flex gap-1">
+            {RANGES.map((range) => (
+              <button
+                key={range}
+                type="button"
+                onClick={() => setDays(range)}
+                className={`rounded-md px-3 py-1 text-xs font-medium transition-colors ${
+                  days === range
+                    ? 'bg-amber text-amber-foreground'
+                    : 'text-muted-foreground hover:bg-muted'
+                }`}
+              >
+                {range}d
+              </button>
+            ))}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {error ? (
+          <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">{error}</div>
+        ) : isLoading ? (
+          <div className="flex h-40 items-center justify-center">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div>
+            <div className="flex h-40 items-end gap-px">
+              {series.map((point) => (
+                <div
+                  key={point.date}
+                  className="group relative flex h-full flex-1 items-end"
+                  title={`${point.date}: ${point.views.toLocaleString()} views`}
+                >
+                  <div
+                    className="w-full rounded-t-sm bg-amber/70 transition-colors group-hover:bg-amber"
+                    style={{ height: `${(point.views / max) * 100}%`, minHeight: point.views > 0 ? 2 : 0 }}
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="mt-2 flex justify-between text-xs text-muted-foreground">
+              <span>{series[0]?.date}</span>
+              <span>{series[series.length - 1]?.date}</span>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
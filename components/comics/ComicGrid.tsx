@@ -4,9 +4,10 @@ import type { Comic } from '@/types/database'
 interface ComicGridProps {
   comics: (Comic & { cover_image_url: string | null })[]
   columns?: 2 | 3 | 4 | 5
+  favoriteIds?: string[]
 }
 
-export function ComicGrid({ comics, columns = 4 }: ComicGridProps) {
+export function ComicGrid({ comics, columns = 4, favoriteIds = [] }: ComicGridProps) {
   const gridCols = {
     2: 'grid-cols-1 sm:grid-cols-2',
     3: 'grid-cols-1 sm:grid-cols-2 lg:grid-cols-3',
@@ -29,7 +30,7 @@ export function ComicGrid({ comics, columns = 4 }: ComicGridProps) {
   return (
     <div className={`grid gap-6 ${gridCols[columns]}`}>
       {comics.map((comic) => (
-        <ComicCard key={comic.id} comic={comic} />
+        <ComicCard key={comic.id} comic={comic} isFavorite={favoriteIds.includes(comic.id)} />
       ))}
     </div>
   )
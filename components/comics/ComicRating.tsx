@@ -0,0 +1,152 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { toast } from 'sonner'
+import { Star, Loader2 } from 'lucide-react'
+import { createClient } from '@/lib/supabase/client'
+import type { ComicRatingSummary } from '@/types/database'
+
+interface ComicRatingProps {
+  comicId: string
+  initialAverage: number
+  initialCount: number
+}
+
+export function ComicRating({ comicId, initialAverage, initialCount }: ComicRatingProps) {
+  const [summary, setSummary] = useState<ComicRatingSummary>({
+    average: initialAverage,
+    count: initialCount,
+    user_rating: null,
+  })
+  const [isAuthenticated, setIsAuthenticated] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [hoverRating, setHoverRating] = useState<number | null>(null)
+
+  useEffect(() => {
+    const loadUserRating = async () => {
+      const supabase = createClient()
+      const { data: { user } } = await supabase.auth.getUser()
+      setIsAuthenticated(!!user)
+      if (!user) return
+
+      try {
+        const response = await fetch(`/api/comics/${comicId}/ratings`)
+        const result = await response.json()
+        if (response.ok && result.data) {
+          setSummary(result.data)
+        }
+      } catch (error) {
+        console.error('Error fetching rating:', error)
+      }
+    }
+    loadUserRating()
+  }, [comicId])
+
+  const submitRating = async (rating: number | null) => {
+    setIsSaving(true)
+    try {
+      const response = await fetch(`/api/comics/${comicId}/ratings`, {
+        method: rating === null ? 'DELETE' : 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: rating === null ? undefined : JSON.stringify({ rating }),
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to save rating')
+      }
+      setSummary(result.data)
+      toast.success(rating === null ? 'Rating removed' : `You rated this ${rating}/10`)
+    } catch (error: unknown) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save rating')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  // 10-point average shown as 5 stars
+  const fullStars = Math.floor(summary.average / 2)
+  const hasHalfStar = (summary.average / 2) % 1 >= 0.5
+  const shownRating = hoverRating ?? summary.user_rating
+
+  return (
+    <div className="mt-4 space-y-3">
+      <div className="flex items-center gap-2">
+        <div className="flex items-center">
+          {Array.from({ length: 5 }).map((_, i) => (
+            <Star
+              key={i}
+              className={`h-5 w-5 ${
+                i < fullStars
+                  ? 'fill-amber text-amber'
+                  : i === fullStars && hasHalfStar
+                  ? 'fill-amber/50 text-amber'
+                  : 'text-muted-foreground'
+              }`}
+            />
+          ))}
+        </div>
+        <span className="text-lg font-bold text-amber">
+          {summary.count > 0 ? summary.average.toFixed(1) : '—'}
+        </span>
+        <span className="text-sm text-muted-foreground">
+          ({summary.count.toLocaleString()} rating{summary.count !== 1 ? 's' : ''})
+        </span>
+      </div>
+
+      {isAuthenticated ? (
+        <div className="rounded-lg border border-border/50 bg-card/50 p-3">
+          <div className="mb-2 flex items-center justify-between text-xs text-muted-foreground">
+            <span>
+              {summary.user_rating ? `Your rating: ${summary.user_rating}/10` : 'Rate this comic'}
+            </span>
+            {isSaving ? (
+              <Loader2 className="h-3 w-3 animate-spin" />
+            ) : summary.user_rating ? (
+              <button
+                type="button"
+                onClick={() => submitRating(null)}
+                className="hover:text-foreground hover:underline"
+              >
+                Remove
+              </button>
+            ) : null}
+          </div>
+          <div className="flex gap-1" onMouseLeave={() => setHoverRating(null)}>
+            {Array.from({ length: 10 }).map((_, i) => {
+              const value = i + 1
+              const isActive = shownRating !== null && value <= shownRating
+              return (
+                <button
+                  key={value}
+                  type="button"
+                  disabled={isSaving}
+                  onMouseEnter={() => setHoverRating(value)}
+                  onClick={() => submitRating(value)}
+                  className={`h-7 flex-1 rounded text-xs font-semibold transition-colors disabled:opacity-50 ${
+                    isActive
+                      ? 'bg-amber text-background'
+                      : 'bg-muted text-muted-foreground hover:bg-amber/20'
+                  }`}
+                  aria-label={`Rate ${value} out of 10`}
+                >
+                  {value}
+                </button>
+              )
+            })}
+          </div>
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          <Link
+            href={`/login?redirectTo=${encodeURIComponent(`/comics/${comicId}`)}`}
+            className="text-amber hover:underline"
+          >
+            Sign in
+          </Link>{' '}
+          to rate this comic
+        </p>
+      )}
+    </div>
+  )
+}
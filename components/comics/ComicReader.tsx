@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useEffect, useCallback, useRef } from 'react'
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
 import Image from 'next/image'
 import Link from 'next/link'
 import { useRouter, useSearchParams } from 'next/navigation'
@@ -15,38 +15,132 @@ import {
   LayoutGrid,
   LayoutList,
   MessageSquare,
+  Gauge,
+  ArrowLeftRight,
+  Columns2,
+  Focus,
+  Keyboard,
 } from 'lucide-react'
 import { createClient } from '@/lib/supabase/client'
 import { SubscriptionGateDialog } from './SubscriptionGateDialog'
 import { ComicShareDialog } from './ComicShareDialog'
 import { PageComments } from './PageComments'
 import { CommentSidebar } from './CommentSidebar'
-import type { Comic } from '@/types/database'
+import { CommentAnchorLayer } from './CommentAnchorLayer'
+import { ReaderPageImage } from './ReaderPageImage'
+import { ZoomablePage, DOUBLE_TAP_MS, type ZoomControls } from './ZoomablePage'
+import { GuidedPageView } from './GuidedPageView'
+import { KeyboardShortcutsDialog } from './KeyboardShortcutsDialog'
+import { saveReadingProgress } from '@/lib/reading-progress-actions'
+import { FREE_PAGE_LIMIT } from '@/lib/subscription-utils'
+import { getOfflineComic, isOfflineServingReady, offlinePageUrl } from '@/lib/offline-reading'
+import { saveReaderPreferences } from '@/lib/reader-preferences-actions'
+import { parsePagePanels } from '@/lib/page-panels'
+import { actionForKey, formatKey, keyFromEvent } from '@/lib/reader-keymap'
+import {
+  DEFAULT_READER_PREFERENCES,
+  READING_MODES,
+  READING_MODE_LABELS,
+  readLocalReaderPreferences,
+  writeLocalReaderPreferences,
+} from '@/lib/reader-preferences'
+import type {
+  Comic,
+  ChapterSummary,
+  CommentAnchor,
+  CommentWithUser,
+  Json,
+  ReaderAction,
+  ReaderBackground,
+  ReaderPreferences,
+  ReadingMode,
+} from '@/types/database'
 
 interface PageWithUrl {
   id: string
   page_number: number
+  chapter_id?: string | null
   image_url: string | null
+  /** Set by the server when the caller is not entitled to this page; image_url is null */
+  is_locked?: boolean
+  /** The image is a full two-page spread; never paired in spread mode */
+  is_spread?: boolean
+  /** Panel rectangles for guided mode (comic_pages.panels) */
+  panels?: Json
 }
 
 interface ComicReaderProps {
   comic: Comic & { cover_image_url: string | null }
   pages: PageWithUrl[]
+  chapters?: ChapterSummary[]
   currentPageIndex: number
+  /** The signed-in reader's saved preferences; null for anonymous readers */
+  preferences?: ReaderPreferences | null
 }
 
-type ReadingMode = 'vertical' | 'horizontal'
+const READING_MODE_ICONS: Record<ReadingMode, typeof LayoutList> = {
+  vertical: LayoutList,
+  horizontal: LayoutGrid,
+  rtl: ArrowLeftRight,
+  spread: Columns2,
+  guided: Focus,
+}
+
+const nextReadingMode = (mode: ReadingMode) =>
+  READING_MODES[(READING_MODES.indexOf(mode) + 1) % READING_MODES.length]
+
+const READER_BACKGROUND_CLASSES: Record<ReaderBackground, string> = {
+  black: 'bg-black',
+  gray: 'bg-neutral-800',
+  white: 'bg-neutral-100',
+}
 
-const FREE_PAGE_LIMIT = 4 // Users can access pages 0-3 (pages 1-4)
+// Spread mode only pairs pages when two fit side by side
+const WIDE_SCREEN_QUERY = '(min-width: 1024px)'
+
+const PROGRESS_SAVE_DELAY_MS = 1500 // Debounce reading progress writes while flipping pages
+const PREFETCH_AHEAD = 3 // Full-resolution pages loaded ahead in the reading direction
+const PREFETCH_AHEAD_DATA_SAVER = 1
+const PREFETCH_BEHIND = 1 // Kept loaded behind, for flipping back
+const PREFERENCES_SAVE_DELAY_MS = 1000 // Debounce preference writes while cycling modes
+
+/**
+ * Group page indexes into what's shown together: pairs in spread mode (the
+ * cover and pages flagged as full spreads stand alone), single pages otherwise
+ */
+function groupPages(pages: PageWithUrl[], pairPages: boolean): number[][] {
+  const groups: number[][] = []
+  for (let index = 0; index < pages.length; index++) {
+    const canPair = pairPages && index > 0 && !pages[index].is_spread
+    const next = pages[index + 1]
+    if (canPair && next && !next.is_spread) {
+      groups.push([index, index + 1])
+      index++
+    } else {
+      groups.push([index])
+    }
+  }
+  return groups
+}
 
-export function ComicReader({ comic, pages, currentPageIndex: initialPageIndex }: ComicReaderProps) {
+export function ComicReader({
+  comic,
+  pages,
+  chapters = [],
+  currentPageIndex: initialPageIndex,
+  preferences: initialPreferences = null,
+}: ComicReaderProps) {
   const router = useRouter()
   const searchParams = useSearchParams()
   const [currentPage, setCurrentPage] = useState(initialPageIndex)
   const [isFullscreen, setIsFullscreen] = useState(false)
   const [showControls, setShowControls] = useState(true)
   const [imageError, setImageError] = useState(false)
-  const [readingMode, setReadingMode] = useState<ReadingMode>('vertical')
+  const [preferences, setPreferences] = useState<ReaderPreferences>(initialPreferences ?? DEFAULT_READER_PREFERENCES)
+  // Only changes made in the reader are saved back, not loaded preferences
+  const preferencesChangedRef = useRef(false)
+  const readingMode = preferences.reading_mode
+  const dataSaver = preferences.data_saver
   const [isAuthenticated, setIsAuthenticated] = useState(false)
   const [hasActiveSubscription, setHasActiveSubscription] = useState(false)
   const [isCheckingAuth, setIsCheckingAuth] = useState(true)
@@ -56,11 +150,49 @@ export function ComicReader({ comic, pages, currentPageIndex: initialPageIndex }
   const [sharePageNumber, setSharePageNumber] = useState<number | null>(null)
   const [sharePageImageUrl, setSharePageImageUrl] = useState<string | null>(null)
   const [showMobileHints, setShowMobileHints] = useState(true)
+  const [showShortcuts, setShowShortcuts] = useState(false)
+  const [isJumpingToPage, setIsJumpingToPage] = useState(false)
+  // Keyboard zoom for the current page, when it's zoomable
+  const zoomControlsRef = useRef<ZoomControls>(null)
   const horizontalContainerRef = useRef<HTMLDivElement>(null)
   const verticalContainerRef = useRef<HTMLDivElement>(null)
   const currentPageRef = useRef(currentPage)
-  const totalPagesRef = useRef(pages.length)
+  // Intrinsic image sizes by page id, for the original-size fit
+  const [naturalSizes, setNaturalSizes] = useState<Record<string, { width: number; height: number }>>({})
+  const [isWideScreen, setIsWideScreen] = useState(false)
+  // Which way the reader is paging, so prefetching runs ahead of them
+  const [readingDirection, setReadingDirection] = useState<'forward' | 'backward'>('forward')
+  const [lastPage, setLastPage] = useState(currentPage)
+  if (currentPage !== lastPage) {
+    setReadingDirection(currentPage > lastPage ? 'forward' : 'backward')
+    setLastPage(currentPage)
+  }
+  // Guided mode's current panel, tied to its page; other pages start at their first panel
+  const [guidedPanel, setGuidedPanel] = useState({ page: currentPage, index: 0 })
   const pageRefs = useRef<(HTMLDivElement | null)[]>([])
+  const viewRecordedRef = useRef<string | null>(null)
+  // A tap-zone page turn waits out DOUBLE_TAP_MS, since a second tap zooms instead
+  const pendingTapRef = useRef<NodeJS.Timeout | null>(null)
+  // Notification links open a page's comment: ?page_id=...&comment=...
+  const deepLinkRef = useRef({
+    pageId: searchParams.get('page_id'),
+    commentId: searchParams.get('comment'),
+    handled: false,
+  })
+  const [highlightCommentId, setHighlightCommentId] = useState<string | null>(null)
+  // Comments pinned to a point or region, drawn as markers over their page
+  const [anchoredComments, setAnchoredComments] = useState<CommentWithUser[]>([])
+  // Pages whose anchored comments are loaded (or loading)
+  const anchorPagesLoadedRef = useRef<Set<string>>(new Set())
+  // Pin for the comment being written on a page: placed over the page image
+  // here (inside the zoom), posted by that page's PageComments
+  const [anchorDraft, setAnchorDraft] = useState<{
+    pageId: string
+    anchor: CommentAnchor | null
+    isPicking: boolean
+  } | null>(null)
+  // Pages downloaded for offline reading; served by the service worker from cache
+  const [offlinePageIds, setOfflinePageIds] = useState<Set<string>>(new Set())
 
   // Check authentication and subscription status
   const checkAuthAndSubscription = useCallback(async (retryCount = 0) => {
@@ -234,18 +366,45 @@ export function ComicReader({ comic, pages, currentPageIndex: initialPageIndex }
     // For pages beyond free limit, require either:
     // 1. Authentication with active subscription, OR
     // 2. Active anonymous Day Pass (hasActiveSubscription can be true even without authentication)
-    return hasActiveSubscription
-  }, [hasActiveSubscription])
+    // 3. An unexpired offline download of the page (the subscription check fails offline)
+    return hasActiveSubscription || offlinePageIds.has(pages[pageIndex]?.id)
+  }, [hasActiveSubscription, offlinePageIds, pages])
+
+  // Use downloaded pages when this comic was saved for offline reading
+  useEffect(() => {
+    let cancelled = false
+    getOfflineComic(comic.id)
+      .then((download) => {
+        if (!cancelled && download && isOfflineServingReady()) {
+          setOfflinePageIds(new Set(download.page_ids))
+        }
+      })
+      .catch((error) => {
+        console.error('Error reading offline download:', error)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [comic.id])
+
+  const pageImageSrc = (page: PageWithUrl) =>
+    offlinePageIds.has(page.id) ? offlinePageUrl(comic.id, page.id) : page.image_url
+
+  // Premium page images are only signed server-side for entitled readers.
+  // If access was granted after render (login, Day Pass redirect), re-fetch them.
+  const hasServerLockedPages = pages.some((page) => page.is_locked)
+  useEffect(() => {
+    if (!isCheckingAuth && hasActiveSubscription && hasServerLockedPages) {
+      router.refresh()
+    }
+  }, [isCheckingAuth, hasActiveSubscription, hasServerLockedPages, router])
 
   // Keep refs in sync with state
   useEffect(() => {
     currentPageRef.current = currentPage
   }, [currentPage])
 
-  useEffect(() => {
-    totalPagesRef.current = pages.length
-  }, [pages.length])
-
   // Check initial page access on mount
   useEffect(() => {
     if (!isCheckingAuth && !canAccessPage(initialPageIndex)) {
@@ -264,16 +423,98 @@ export function ComicReader({ comic, pages, currentPageIndex: initialPageIndex }
   }, [isCheckingAuth, initialPageIndex, canAccessPage, comic.id, router, searchParams])
 
   const totalPages = pages.length
+  const isHorizontalMode = readingMode !== 'vertical'
+  const pageGroups = useMemo(
+    () => groupPages(pages, readingMode === 'spread' && isWideScreen),
+    [pages, readingMode, isWideScreen]
+  )
+  // Group index of every page
+  const groupOfPage = useMemo(() => {
+    const result: number[] = []
+    pageGroups.forEach((group, groupIndex) => group.forEach((index) => { result[index] = groupIndex }))
+    return result
+  }, [pageGroups])
+  const currentGroup = pageGroups[groupOfPage[currentPage]] ?? [currentPage]
+
+  /** First page of the group step groups away from page's, or null past either end */
+  const stepPage = useCallback((page: number, step: number) => {
+    const group = pageGroups[groupOfPage[page] + step]
+    return group ? group[0] : null
+  }, [pageGroups, groupOfPage])
+
+  const pagePanels = useMemo(() => pages.map((page) => parsePagePanels(page.panels)), [pages])
+  const isGuidedMode = readingMode === 'guided'
+  const currentPanels = pagePanels[currentPage] ?? []
+  const currentPanelIndex = guidedPanel.page === currentPage ? guidedPanel.index : 0
+
+  /**
+   * In guided mode, move step panels within page; false when that leaves the
+   * page (or outside guided mode), so the caller turns the page instead
+   */
+  const stepPanel = useCallback((page: number, step: number) => {
+    if (readingMode !== 'guided') return false
+    const index = (guidedPanel.page === page ? guidedPanel.index : 0) + step
+    if (index < 0 || index >= pagePanels[page].length) return false
+    setGuidedPanel({ page, index })
+    return true
+  }, [readingMode, guidedPanel, pagePanels])
+
+  /** Going back in guided mode lands on the previous page's last panel */
+  const enterPrevPage = useCallback((page: number) => {
+    setCurrentPage(page)
+    setImageError(false)
+    if (readingMode === 'guided') {
+      setGuidedPanel({ page, index: Math.max(0, pagePanels[page].length - 1) })
+    }
+  }, [readingMode, pagePanels])
   const currentPageData = pages[currentPage]
 
+  // Chapters that have pages, in reading order
+  const readableChapters = chapters.filter(chapter => chapter.first_page_number !== null)
+  const currentChapterIndex = readableChapters.findIndex(
+    chapter => chapter.id === currentPageData?.chapter_id
+  )
+  const currentChapter = currentChapterIndex !== -1 ? readableChapters[currentChapterIndex] : null
+  const prevChapter = currentChapterIndex > 0 ? readableChapters[currentChapterIndex - 1] : null
+  const nextChapter = currentChapterIndex !== -1 ? readableChapters[currentChapterIndex + 1] ?? null : null
+  const isLastPageOfChapter = !!currentChapter &&
+    pages[currentPage + 1]?.chapter_id !== currentChapter.id
+
   // Update URL when page changes
   useEffect(() => {
     const newPage = currentPage + 1
     const params = new URLSearchParams(searchParams.toString())
     params.set('page', newPage.toString())
+    // Deep-link params are read once on mount
+    params.delete('page_id')
+    params.delete('comment')
     router.replace(`/comics/read/${comic.id}?${params.toString()}`, { scroll: false })
   }, [currentPage, comic.id, router, searchParams])
 
+  // Record a view when the reader opens; the server dedupes per viewer per window
+  useEffect(() => {
+    if (viewRecordedRef.current === comic.id) return
+    viewRecordedRef.current = comic.id
+
+    fetch(`/api/comics/${comic.id}/views`, { method: 'POST' }).catch((error) => {
+      console.error('Error recording view:', error)
+    })
+  }, [comic.id])
+
+  // Save reading progress for signed-in users (debounced so fast page flips only write once)
+  useEffect(() => {
+    if (isCheckingAuth || !isAuthenticated || !currentPageData) return
+    if (!canAccessPage(currentPage)) return
+
+    const timeoutId = setTimeout(() => {
+      saveReadingProgress(comic.id, currentPageData.id).catch((error) => {
+        console.error('Error saving reading progress:', error)
+      })
+    }, PROGRESS_SAVE_DELAY_MS)
+
+    return () => clearTimeout(timeoutId)
+  }, [currentPage, currentPageData, isAuthenticated, isCheckingAuth, canAccessPage, comic.id])
+
   // Check if current page is restricted and show dialog if needed (for navigation methods)
   useEffect(() => {
     if (!isCheckingAuth && !canAccessPage(currentPage) && currentPage >= FREE_PAGE_LIMIT) {
@@ -285,8 +526,9 @@ export function ComicReader({ comic, pages, currentPageIndex: initialPageIndex }
 
   // Scroll to current page based on reading mode
   useEffect(() => {
-    if (readingMode === 'horizontal' && horizontalContainerRef.current) {
-      const pageElement = horizontalContainerRef.current.children[currentPage] as HTMLElement
+    if (readingMode !== 'vertical' && horizontalContainerRef.current) {
+      // Horizontal modes lay out one child per page group (a spread or a single page)
+      const pageElement = horizontalContainerRef.current.children[groupOfPage[currentPage]] as HTMLElement
       if (pageElement) {
         pageElement.scrollIntoView({ behavior: 'smooth', block: 'nearest', inline: 'center' })
       }
@@ -296,7 +538,7 @@ export function ComicReader({ comic, pages, currentPageIndex: initialPageIndex }
         pageElement.scrollIntoView({ behavior: 'smooth', block: 'center', inline: 'nearest' })
       }
     }
-  }, [currentPage, readingMode])
+  }, [currentPage, readingMode, groupOfPage])
 
   // Use IntersectionObserver to detect when page 5 (5th picture) enters viewport
   useEffect(() => {
@@ -364,11 +606,12 @@ export function ComicReader({ comic, pages, currentPageIndex: initialPageIndex }
     const resetTimeout = () => {
       setShowControls(true)
       clearTimeout(timeout)
+      if (preferences.auto_hide_delay_ms === 0) return
       timeout = setTimeout(() => {
         if (isFullscreen) {
           setShowControls(false)
         }
-      }, 3000)
+      }, preferences.auto_hide_delay_ms)
     }
 
     window.addEventListener('mousemove', resetTimeout)
@@ -379,7 +622,7 @@ export function ComicReader({ comic, pages, currentPageIndex: initialPageIndex }
       window.removeEventListener('touchstart', resetTimeout)
       clearTimeout(timeout)
     }
-  }, [isFullscreen])
+  }, [isFullscreen, preferences.auto_hide_delay_ms])
 
   const toggleFullscreen = async () => {
     if (!document.fullscreenElement) {
@@ -404,20 +647,104 @@ export function ComicReader({ comic, pages, currentPageIndex: initialPageIndex }
     }
   }, [])
 
+  const updatePreferences = useCallback((patch: (prev: ReaderPreferences) => Partial<ReaderPreferences>) => {
+    preferencesChangedRef.current = true
+    setPreferences((prev) => ({ ...prev, ...patch(prev) }))
+  }, [])
+
   const toggleReadingMode = () => {
-    setReadingMode((prev) => (prev === 'vertical' ? 'horizontal' : 'vertical'))
+    updatePreferences((prev) => ({ reading_mode: nextReadingMode(prev.reading_mode) }))
+  }
+
+  useEffect(() => {
+    const query = window.matchMedia(WIDE_SCREEN_QUERY)
+    const update = () => setIsWideScreen(query.matches)
+    update()
+    query.addEventListener('change', update)
+    return () => query.removeEventListener('change', update)
+  }, [])
+
+  // Signed-in readers' preferences come from their profile (and are kept on
+  // this device too); anonymous readers only have this device's copy
+  useEffect(() => {
+    if (initialPreferences) {
+      writeLocalReaderPreferences(initialPreferences)
+      return
+    }
+
+    const local = readLocalReaderPreferences()
+    if (local) {
+      setPreferences(local)
+      return
+    }
+    // Data saver defaults to the browser's Save-Data setting
+    const connection = (navigator as Navigator & { connection?: { saveData?: boolean } }).connection
+    if (connection?.saveData) {
+      setPreferences((prev) => ({ ...prev, data_saver: true }))
+    }
+  }, [initialPreferences])
+
+  // Save preference changes on this device, and to the profile when signed in
+  useEffect(() => {
+    if (!preferencesChangedRef.current) return
+    writeLocalReaderPreferences(preferences)
+    if (!isAuthenticated) return
+
+    const timeoutId = setTimeout(() => {
+      saveReaderPreferences(preferences).catch((error) => {
+        console.error('Error saving reader preferences:', error)
+      })
+    }, PREFERENCES_SAVE_DELAY_MS)
+
+    return () => clearTimeout(timeoutId)
+  }, [preferences, isAuthenticated])
+
+  const toggleDataSaver = () => {
+    updatePreferences((prev) => ({ data_saver: !prev.data_saver }))
+  }
+
+  const handleNaturalSize = useCallback((pageId: string, width: number, height: number) => {
+    setNaturalSizes((prev) => (prev[pageId] ? prev : { ...prev, [pageId]: { width, height } }))
+  }, [])
+
+  /** Page frame size for the fit preference; a 2:3 frame (4:3 for spreads) until the size is known */
+  const pageFrameStyle = (page: PageWithUrl, isPaired: boolean): React.CSSProperties => {
+    const aspectRatio = page.is_spread ? '4/3' : '2/3'
+    const natural = naturalSizes[page.id]
+    if (preferences.fit === 'original' && natural) {
+      return { width: natural.width, maxWidth: 'none', aspectRatio: `${natural.width}/${natural.height}` }
+    }
+    if (readingMode === 'vertical') {
+      return preferences.fit === 'height'
+        ? { height: 'calc(100vh - 8rem)', maxWidth: '100%', aspectRatio }
+        : { width: '100%', maxWidth: '56rem', aspectRatio }
+    }
+    return preferences.fit === 'width'
+      ? { width: isPaired ? 'calc(50vw - 1rem)' : 'calc(100vw - 2rem)', aspectRatio }
+      : { height: '90vh', aspectRatio }
+  }
+
+  /** Whether a page's full-resolution image should load now */
+  const isInPrefetchWindow = (index: number) => {
+    const ahead = dataSaver ? PREFETCH_AHEAD_DATA_SAVER : PREFETCH_AHEAD
+    const offset = groupOfPage[index] - groupOfPage[currentPage]
+    return readingDirection === 'forward'
+      ? offset >= -PREFETCH_BEHIND && offset <= ahead
+      : offset <= PREFETCH_BEHIND && offset >= -ahead
   }
 
   const goToPrevPage = () => {
-    if (currentPage > 0) {
-      setCurrentPage(currentPage - 1)
-      setImageError(false)
+    if (stepPanel(currentPage, -1)) return
+    const prevPage = stepPage(currentPage, -1)
+    if (prevPage !== null) {
+      enterPrevPage(prevPage)
     }
   }
 
   const goToNextPage = () => {
-    const nextPage = currentPage + 1
-    if (nextPage < totalPages) {
+    if (stepPanel(currentPage, 1)) return
+    const nextPage = stepPage(currentPage, 1)
+    if (nextPage !== null) {
       if (canAccessPage(nextPage)) {
         setCurrentPage(nextPage)
         setImageError(false)
@@ -429,7 +756,9 @@ export function ComicReader({ comic, pages, currentPageIndex: initialPageIndex }
   }
 
   const goToPage = (pageNumber: number) => {
-    const pageIndex = Math.max(0, Math.min(pageNumber - 1, totalPages - 1))
+    const clampedIndex = Math.max(0, Math.min(pageNumber - 1, totalPages - 1))
+    // Land on the start of the spread containing the page
+    const pageIndex = pageGroups[groupOfPage[clampedIndex]]?.[0] ?? clampedIndex
     if (canAccessPage(pageIndex)) {
       setCurrentPage(pageIndex)
       setImageError(false)
@@ -439,6 +768,12 @@ export function ComicReader({ comic, pages, currentPageIndex: initialPageIndex }
     }
   }
 
+  const goToChapter = (chapter: ChapterSummary) => {
+    if (chapter.first_page_number !== null) {
+      goToPage(chapter.first_page_number)
+    }
+  }
+
   const navigateToPageById = useCallback((pageId: string) => {
     const pageIndex = pages.findIndex(page => page.id === pageId)
     if (pageIndex !== -1) {
@@ -451,49 +786,218 @@ export function ComicReader({ comic, pages, currentPageIndex: initialPageIndex }
     }
   }, [pages, canAccessPage])
 
+  // Load markers for comments anchored to a spot on the pages being read,
+  // once per page
+  useEffect(() => {
+    const pageIds = (pageGroups[groupOfPage[currentPage]] ?? [])
+      .map((index) => pages[index]?.id)
+      .filter((pageId): pageId is string => !!pageId && !anchorPagesLoadedRef.current.has(pageId))
+
+    pageIds.forEach((pageId) => {
+      anchorPagesLoadedRef.current.add(pageId)
+      fetch(`/api/comics/${comic.id}/comments/anchors?page_id=${pageId}`)
+        .then((response) => response.json())
+        .then((data) => {
+          if (data.error) {
+            console.error('Error fetching anchored comments:', data.error)
+            anchorPagesLoadedRef.current.delete(pageId)
+            return
+          }
+          const loaded: CommentWithUser[] = data.data || []
+          setAnchoredComments((prev) => [
+            ...prev.filter((comment) => !loaded.some((c) => c.id === comment.id)),
+            ...loaded,
+          ])
+        })
+        .catch((error) => {
+          console.error('Error fetching anchored comments:', error)
+          anchorPagesLoadedRef.current.delete(pageId)
+        })
+    })
+  }, [comic.id, pages, pageGroups, groupOfPage, currentPage])
+
+  const handleAnchoredComment = useCallback((comment: CommentWithUser) => {
+    setAnchoredComments((prev) => (prev.some((c) => c.id === comment.id) ? prev : [...prev, comment]))
+  }, [])
+
+  const startPickingAnchor = useCallback((pageId: string) => {
+    setAnchorDraft((prev) => ({ pageId, anchor: prev?.pageId === pageId ? prev.anchor : null, isPicking: true }))
+  }, [])
+
+  const cancelPickingAnchor = useCallback((pageId: string) => {
+    setAnchorDraft((prev) => {
+      if (prev?.pageId !== pageId) return prev
+      return prev.anchor ? { ...prev, isPicking: false } : null
+    })
+  }, [])
+
+  const changePendingAnchor = useCallback((pageId: string, anchor: CommentAnchor | null) => {
+    setAnchorDraft((prev) => {
+      if (anchor) return { pageId, anchor, isPicking: false }
+      return prev?.pageId === pageId ? null : prev
+    })
+  }, [])
+
+  // Markers open the comment's thread in the sidebar
+  const openCommentThread = useCallback((comment: CommentWithUser) => {
+    setHighlightCommentId(comment.id)
+    setShowCommentSidebar(true)
+  }, [])
+
+  // Open a notification's comment once access is known
+  useEffect(() => {
+    const deepLink = deepLinkRef.current
+    if (isCheckingAuth || deepLink.handled || !deepLink.commentId) return
+    deepLink.handled = true
+
+    if (deepLink.pageId) {
+      navigateToPageById(deepLink.pageId)
+    }
+    setHighlightCommentId(deepLink.commentId)
+    setShowCommentSidebar(true)
+  }, [isCheckingAuth, navigateToPageById])
+
+  const cancelPendingTap = useCallback(() => {
+    if (pendingTapRef.current) {
+      clearTimeout(pendingTapRef.current)
+      pendingTapRef.current = null
+    }
+  }, [])
+
+  useEffect(() => cancelPendingTap, [cancelPendingTap])
+
   const handlePageClick = (pageIndex: number, e?: React.MouseEvent) => {
     // Stop event propagation to prevent parent onClick from firing
     if (e) {
       e.stopPropagation()
     }
     
-    if (canAccessPage(pageIndex)) {
-      setCurrentPage(pageIndex)
-      setImageError(false)
-    } else {
+    if (!canAccessPage(pageIndex)) {
       // Show subscription dialog
       setShowSubscriptionDialog(true)
+      return
+    }
+
+    // In horizontal modes, tapping the page(s) on screen turns the page by tap
+    // zone: the left zone goes left, which is forward when reading right-to-left
+    const isOnScreen = groupOfPage[pageIndex] === groupOfPage[currentPage]
+    if (isHorizontalMode && e && isOnScreen && preferences.tap_zones !== 'off') {
+      const group = e.currentTarget.closest('[data-page-group]') ?? e.currentTarget
+      const rect = group.getBoundingClientRect()
+      const position = (e.clientX - rect.left) / rect.width
+      const zoneWidth = preferences.tap_zones === 'thirds' ? 1 / 3 : 1 / 2
+      const action = position >= zoneWidth && position < 1 - zoneWidth
+        ? () => setShowControls((prev) => !prev)
+        : (position < zoneWidth) === (readingMode === 'rtl') ? goToNextPage : goToPrevPage
+
+      cancelPendingTap()
+      pendingTapRef.current = setTimeout(() => {
+        pendingTapRef.current = null
+        action()
+      }, DOUBLE_TAP_MS)
+      return
     }
+
+    setCurrentPage(pageIndex)
+    setImageError(false)
   }
 
-  // Keyboard navigation
+  // Keyboard shortcuts from the reader's keymap. Turning left and right
+  // follows the screen, so it's swapped right-to-left.
   const handleKeyDown = useCallback((e: KeyboardEvent) => {
-    if (e.key === 'ArrowLeft' || e.key === 'a') {
-      const page = currentPageRef.current
-      if (page > 0) {
-        setCurrentPage(page - 1)
-        setImageError(false)
+    // Typing in a field, or keys meant for an open dialog, aren't shortcuts
+    const target = e.target as HTMLElement | null
+    if (target?.closest('input, textarea, select, [contenteditable="true"], [role="dialog"]')) return
+
+    const key = keyFromEvent(e)
+    const action = key ? actionForKey(preferences.key_bindings, key) : null
+    if (!action) return
+    e.preventDefault()
+
+    const page = currentPageRef.current
+    switch (action) {
+      case 'page_left':
+      case 'page_right': {
+        const isForward = (action === 'page_right') !== (readingMode === 'rtl')
+        if (stepPanel(page, isForward ? 1 : -1)) return
+        if (!isForward) {
+          const prevPage = stepPage(page, -1)
+          if (prevPage !== null) {
+            enterPrevPage(prevPage)
+          }
+          return
+        }
+        const nextPage = stepPage(page, 1)
+        if (nextPage !== null) {
+          if (canAccessPage(nextPage)) {
+            setCurrentPage(nextPage)
+            setImageError(false)
+          } else {
+            setShowSubscriptionDialog(true)
+          }
+        }
+        return
       }
-    } else if (e.key === 'ArrowRight' || e.key === 'd') {
-      const page = currentPageRef.current
-      const total = totalPagesRef.current
-      const nextPage = page + 1
-      if (nextPage < total) {
-        if (canAccessPage(nextPage)) {
-          setCurrentPage(nextPage)
+      case 'first_page':
+        setCurrentPage(0)
+        setImageError(false)
+        return
+      case 'last_page': {
+        const lastPage = pageGroups[pageGroups.length - 1]?.[0]
+        if (lastPage === undefined) return
+        if (canAccessPage(lastPage)) {
+          setCurrentPage(lastPage)
           setImageError(false)
         } else {
           setShowSubscriptionDialog(true)
         }
+        return
       }
-    } else if (e.key === 'f') {
-      toggleFullscreen()
-    } else if (e.key === 'Escape') {
-      setShowControls(true)
-    } else if (e.key === 'r' || e.key === 'R') {
-      setReadingMode((prev) => (prev === 'vertical' ? 'horizontal' : 'vertical'))
+      case 'jump_to_page':
+        setShowControls(true)
+        setIsJumpingToPage(true)
+        return
+      case 'toggle_comments':
+        setShowCommentSidebar((prev) => !prev)
+        return
+      case 'share':
+        setSharePageNumber(page + 1)
+        setSharePageImageUrl(pages[page]?.image_url ?? null)
+        setShowShareDialog(true)
+        return
+      case 'zoom_in':
+        zoomControlsRef.current?.zoomIn()
+        return
+      case 'zoom_out':
+        zoomControlsRef.current?.zoomOut()
+        return
+      case 'reset_zoom':
+        zoomControlsRef.current?.reset()
+        return
+      case 'toggle_fullscreen':
+        toggleFullscreen()
+        return
+      case 'cycle_reading_mode':
+        updatePreferences((prev) => ({ reading_mode: nextReadingMode(prev.reading_mode) }))
+        return
+      case 'show_controls':
+        setShowControls(true)
+        return
+      case 'show_shortcuts':
+        setShowShortcuts(true)
+        return
     }
-  }, [canAccessPage])
+  }, [
+    canAccessPage,
+    readingMode,
+    pages,
+    pageGroups,
+    preferences.key_bindings,
+    stepPage,
+    stepPanel,
+    enterPrevPage,
+    updatePreferences,
+  ])
 
   useEffect(() => {
     window.addEventListener('keydown', handleKeyDown)
@@ -501,6 +1005,18 @@ export function ComicReader({ comic, pages, currentPageIndex: initialPageIndex }
   }, [handleKeyDown])
 
   const progressPercentage = totalPages > 0 ? ((currentPage + 1) / totalPages) * 100 : 0
+  const currentPageLabel = currentGroup.length > 1
+    ? `${currentGroup[0] + 1}–${currentGroup[currentGroup.length - 1] + 1}`
+    : `${currentPage + 1}`
+  const NextReadingModeIcon = READING_MODE_ICONS[nextReadingMode(readingMode)]
+  /** First key bound to action, for hints */
+  const keyHint = (action: ReaderAction) => {
+    const key = preferences.key_bindings[action][0]
+    return key ? formatKey(key) : null
+  }
+  const isRtl = readingMode === 'rtl'
+  const hasPrev = (isGuidedMode && currentPanelIndex > 0) || stepPage(currentPage, -1) !== null
+  const hasNext = (isGuidedMode && currentPanelIndex < currentPanels.length - 1) || stepPage(currentPage, 1) !== null
 
   if (!currentPageData) {
     return (
@@ -511,7 +1027,7 @@ export function ComicReader({ comic, pages, currentPageIndex: initialPageIndex }
   }
 
   return (
-    <div className="relative min-h-screen bg-black">
+    <div className={`relative min-h-screen ${READER_BACKGROUND_CLASSES[preferences.background]}`}>
       {/* Top Controls */}
       <div
         className={`fixed left-0 right-0 top-0 z-50 bg-gradient-to-b from-black/90 to-transparent transition-opacity duration-300 ${
@@ -536,7 +1052,13 @@ export function ComicReader({ comic, pages, currentPageIndex: initialPageIndex }
                 {comic.title}
               </h1>
               <p className="text-xs text-white/70">
-                Page {currentPage + 1} of {totalPages}
+                {currentChapter && (
+                  <span>Ch. {currentChapter.chapter_number} · </span>
+                )}
+                Page {currentPageLabel} of {totalPages}
+                {isGuidedMode && currentPanels.length > 0 && (
+                  <span> · Panel {currentPanelIndex + 1}/{currentPanels.length}</span>
+                )}
               </p>
             </div>
           </div>
@@ -568,22 +1090,39 @@ export function ComicReader({ comic, pages, currentPageIndex: initialPageIndex }
                   }
                 }}
                 className="text-white hover:bg-white/10"
-                title={`Switch to ${readingMode === 'vertical' ? 'horizontal' : 'vertical'} reading mode (R)`}
+                title={`Switch to ${READING_MODE_LABELS[nextReadingMode(readingMode)]} reading mode${
+                  keyHint('cycle_reading_mode') ? ` (${keyHint('cycle_reading_mode')})` : ''
+                }`}
               >
-                {readingMode === 'vertical' ? (
-                  <LayoutGrid className="h-5 w-5" />
-                ) : (
-                  <LayoutList className="h-5 w-5" />
-                )}
+                <NextReadingModeIcon className="h-5 w-5" />
               </Button>
               {/* Mobile hints - shown below reading mode toggle button */}
-              {showMobileHints && (
+              {showMobileHints && preferences.show_hints && (
                 <div className="md:hidden absolute top-full left-1/2 -translate-x-1/2 mt-2 rounded-lg bg-black/90 px-4 py-2 text-xs text-white/70 whitespace-nowrap z-50 mr-4">
                   <span className="mr-2">Toggle reading mode</span>
                   <span>{readingMode === 'vertical' }</span>
                 </div>
               )}
             </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={toggleDataSaver}
+              className={`hover:bg-white/10 ${dataSaver ? 'text-amber' : 'text-white'}`}
+              title={dataSaver ? 'Data saver on: loading smaller pages' : 'Data saver off'}
+              aria-pressed={dataSaver}
+            >
+              <Gauge className="h-5 w-5" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setShowShortcuts(true)}
+              className="hidden text-white hover:bg-white/10 md:inline-flex"
+              title="Keyboard shortcuts"
+            >
+              <Keyboard className="h-5 w-5" />
+            </Button>
             <Button
               variant="ghost"
               size="icon"
@@ -632,6 +1171,7 @@ export function ComicReader({ comic, pages, currentPageIndex: initialPageIndex }
           >
             {pages.map((page, index) => {
               const isLocked = !canAccessPage(index)
+              const imageSrc = pageImageSrc(page)
               // Initialize pageRefs array if needed
               if (!pageRefs.current[index]) {
                 pageRefs.current[index] = null
@@ -642,13 +1182,27 @@ export function ComicReader({ comic, pages, currentPageIndex: initialPageIndex }
                   ref={(el) => {
                     pageRefs.current[index] = el
                   }}
-                  className={`relative w-full max-w-4xl transition-opacity ${
+                  className={`relative transition-opacity ${
                     index === currentPage ? 'opacity-100' : 'opacity-60'
                   } ${isLocked ? 'blur-sm' : ''}`}
-                  style={{ aspectRatio: '2/3' }}
+                  style={pageFrameStyle(page, false)}
                 >
-                  {!page.image_url ? (
-                    <div className="flex aspect-[2/3] w-full items-center justify-center bg-card rounded-lg">
+                  {!imageSrc && page.is_locked ? (
+                    <div
+                      className="flex h-full w-full items-center justify-center bg-card rounded-lg cursor-pointer"
+                      onClick={(e) => handlePageClick(index, e)}
+                    >
+                      <div className="text-center">
+                        <p className="text-lg font-semibold text-muted-foreground">
+                          Page {index + 1} is locked
+                        </p>
+                        <p className="text-sm text-muted-foreground">
+                          Subscribe to unlock
+                        </p>
+                      </div>
+                    </div>
+                  ) : !imageSrc ? (
+                    <div className="flex h-full w-full items-center justify-center bg-card rounded-lg">
                       <div className="text-center">
                         <p className="text-lg font-semibold text-muted-foreground">
                           Page {index + 1}
@@ -659,20 +1213,43 @@ export function ComicReader({ comic, pages, currentPageIndex: initialPageIndex }
                       </div>
                     </div>
                   ) : (
-                    <div className="relative aspect-[2/3] w-full">
-                      <Image
-                        src={page.image_url}
-                        alt={`Page ${index + 1}`}
-                        fill
-                        className={`object-contain ${isLocked ? 'cursor-not-allowed' : 'cursor-pointer'}`}
-                        priority={index === initialPageIndex}
-                        onClick={(e) => handlePageClick(index, e)}
-                        onError={() => {
-                          if (index === currentPage) {
-                            setImageError(true)
-                          }
-                        }}
-                      />
+                    <div className="relative h-full w-full">
+                      <ZoomablePage
+                        active
+                        resetKey={currentPage}
+                        onDoubleTap={cancelPendingTap}
+                        controlsRef={index === currentPage ? zoomControlsRef : undefined}
+                      >
+                        <ReaderPageImage
+                          src={imageSrc}
+                          alt={`Page ${index + 1}`}
+                          layout="vertical"
+                          shouldLoad={isInPrefetchWindow(index)}
+                          dataSaver={dataSaver}
+                          unoptimized={offlinePageIds.has(page.id)}
+                          className={isLocked ? 'cursor-not-allowed' : 'cursor-pointer'}
+                          priority={index === initialPageIndex}
+                          onNaturalSize={(width, height) => handleNaturalSize(page.id, width, height)}
+                          onClick={(e) => handlePageClick(index, e)}
+                          onError={() => {
+                            if (index === currentPage) {
+                              setImageError(true)
+                            }
+                          }}
+                        />
+                        {/* Anchored comment markers and the pin being placed */}
+                        {!isLocked && (
+                          <CommentAnchorLayer
+                            aspectRatio={naturalSizes[page.id] ? naturalSizes[page.id].width / naturalSizes[page.id].height : null}
+                            comments={anchoredComments.filter((comment) => comment.page_id === page.id)}
+                            onSelect={openCommentThread}
+                            pendingAnchor={anchorDraft?.pageId === page.id ? anchorDraft.anchor : null}
+                            isPicking={anchorDraft?.pageId === page.id && anchorDraft.isPicking}
+                            onPick={(anchor) => changePendingAnchor(page.id, anchor)}
+                            onCancelPick={() => cancelPickingAnchor(page.id)}
+                          />
+                        )}
+                      </ZoomablePage>
                       {/* Page Comments Overlay */}
                       {!isFullscreen && !isLocked && (
 <PageComments
@@ -684,6 +1261,11 @@ export function ComicReader({ comic, pages, currentPageIndex: initialPageIndex }
                             setSharePageImageUrl(page?.image_url ?? null)
                             setShowShareDialog(true)
                           }}
+                          onAnchoredComment={handleAnchoredComment}
+                          pendingAnchor={anchorDraft?.pageId === page.id ? anchorDraft.anchor : null}
+                          onPendingAnchorChange={(anchor) => changePendingAnchor(page.id, anchor)}
+                          isPickingAnchor={anchorDraft?.pageId === page.id && anchorDraft.isPicking}
+                          onPickAnchor={() => startPickingAnchor(page.id)}
                         />
                       )}
                       {isLocked && (
@@ -719,87 +1301,243 @@ export function ComicReader({ comic, pages, currentPageIndex: initialPageIndex }
             </a>
           </div>
         </div>
-      ) : (
+      ) : readingMode === 'guided' ? (
         <div
-          className="min-h-screen overflow-x-auto overflow-y-hidden"
+          className="relative h-screen overflow-hidden"
           onClick={() => setShowControls(!showControls)}
         >
-          <div 
-            className="flex h-screen items-center gap-2 px-2 py-16"
-            ref={horizontalContainerRef}
-          >
-            {pages.map((page, index) => {
-              const isLocked = !canAccessPage(index)
-              // Initialize pageRefs array if needed
-              if (!pageRefs.current[index]) {
-                pageRefs.current[index] = null
-              }
-              return (
-                <div
-                  key={page.id}
-                  ref={(el) => {
-                    pageRefs.current[index] = el
-                  }}
-                  className={`relative flex-shrink-0 transition-opacity ${
-                    index === currentPage ? 'opacity-100' : 'opacity-60'
-                  } ${isLocked ? 'blur-sm' : ''}`}
-                  style={{ height: '90vh', aspectRatio: '2/3' }}
-                >
-                  {!page.image_url ? (
-                    <div className="flex h-full w-full items-center justify-center bg-card rounded-lg">
-                      <div className="text-center">
-                        <p className="text-lg font-semibold text-muted-foreground">
-                          Page {index + 1}
-                        </p>
-                        <p className="text-sm text-muted-foreground">
-                          Image not available
-                        </p>
-                      </div>
+          {pages.map((page, index) => {
+            // Only the current page shows; pages in the prefetch window load behind it
+            const isCurrent = index === currentPage
+            if (!isCurrent && !isInPrefetchWindow(index)) return null
+            const isLocked = !canAccessPage(index)
+            const imageSrc = pageImageSrc(page)
+            const natural = naturalSizes[page.id]
+            return (
+              <div
+                key={page.id}
+                ref={isCurrent ? (el) => { pageRefs.current[index] = el } : undefined}
+                data-page-group
+                className={`absolute inset-0 ${isCurrent ? '' : 'invisible'} ${isLocked ? 'blur-sm' : ''}`}
+              >
+                {!imageSrc ? (
+                  <div
+                    className="flex h-full w-full items-center justify-center cursor-pointer"
+                    onClick={(e) => handlePageClick(index, e)}
+                  >
+                    <div className="text-center">
+                      <p className="text-lg font-semibold text-muted-foreground">
+                        {page.is_locked ? `Page ${index + 1} is locked` : `Page ${index + 1}`}
+                      </p>
+                      <p className="text-sm text-muted-foreground">
+                        {page.is_locked ? 'Subscribe to unlock' : 'Image not available'}
+                      </p>
                     </div>
-                  ) : (
-                    <div className="relative h-full w-full">
-                      <Image
-                        src={page.image_url}
+                  </div>
+                ) : (
+                  <>
+                    <GuidedPageView
+                      panels={pagePanels[index]}
+                      panelIndex={isCurrent ? currentPanelIndex : 0}
+                      aspectRatio={natural ? natural.width / natural.height : page.is_spread ? 4 / 3 : 2 / 3}
+                    >
+                      <ReaderPageImage
+                        src={imageSrc}
                         alt={`Page ${index + 1}`}
-                        fill
-                        className={`object-contain ${isLocked ? 'cursor-not-allowed' : 'cursor-pointer'}`}
+                        layout="guided"
+                        shouldLoad={isInPrefetchWindow(index)}
+                        dataSaver={dataSaver}
+                        unoptimized={offlinePageIds.has(page.id)}
+                        className={isLocked ? 'cursor-not-allowed' : 'cursor-pointer'}
                         priority={index === initialPageIndex}
+                        onNaturalSize={(width, height) => handleNaturalSize(page.id, width, height)}
                         onClick={(e) => handlePageClick(index, e)}
                         onError={() => {
-                          if (index === currentPage) {
+                          if (isCurrent) {
                             setImageError(true)
                           }
                         }}
                       />
-                      {/* Page Comments Overlay */}
-                      {!isFullscreen && !isLocked && (
-<PageComments
-                          comicId={comic.id}
-                          pageId={page.id}
-                          pageNumber={index + 1}
-                          onSharePage={(pageNum) => {
-                            setSharePageNumber(pageNum)
-                            setSharePageImageUrl(page?.image_url ?? null)
-                            setShowShareDialog(true)
-                          }}
+                      {/* Anchored comment markers and the pin being placed */}
+                      {!isLocked && (
+                        <CommentAnchorLayer
+                          aspectRatio={naturalSizes[page.id] ? naturalSizes[page.id].width / naturalSizes[page.id].height : null}
+                          comments={anchoredComments.filter((comment) => comment.page_id === page.id)}
+                          onSelect={openCommentThread}
+                          pendingAnchor={anchorDraft?.pageId === page.id ? anchorDraft.anchor : null}
+                          isPicking={anchorDraft?.pageId === page.id && anchorDraft.isPicking}
+                          onPick={(anchor) => changePendingAnchor(page.id, anchor)}
+                          onCancelPick={() => cancelPickingAnchor(page.id)}
                         />
                       )}
-                      {isLocked && (
+                    </GuidedPageView>
+                    {/* Page Comments Overlay */}
+                    {isCurrent && !isFullscreen && !isLocked && (
+                      <PageComments
+                        comicId={comic.id}
+                        pageId={page.id}
+                        pageNumber={index + 1}
+                        onSharePage={(pageNum) => {
+                          setSharePageNumber(pageNum)
+                          setSharePageImageUrl(page?.image_url ?? null)
+                          setShowShareDialog(true)
+                        }}
+                        onAnchoredComment={handleAnchoredComment}
+                        pendingAnchor={anchorDraft?.pageId === page.id ? anchorDraft.anchor : null}
+                        onPendingAnchorChange={(anchor) => changePendingAnchor(page.id, anchor)}
+                        isPickingAnchor={anchorDraft?.pageId === page.id && anchorDraft.isPicking}
+                        onPickAnchor={() => startPickingAnchor(page.id)}
+                      />
+                    )}
+                    {isLocked && (
+                      <div
+                        className="absolute inset-0 flex items-center justify-center bg-black/50 cursor-pointer z-10"
+                        onClick={(e) => handlePageClick(index, e)}
+                      >
+                        <div className="text-center text-white">
+                          <p className="text-lg font-semibold">Locked</p>
+                          <p className="text-sm">Subscribe to unlock</p>
+                        </div>
+                      </div>
+                    )}
+                  </>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      ) : (
+        <div
+          // Right-to-left lays pages out and starts scrolling from the right
+          dir={readingMode === 'rtl' ? 'rtl' : 'ltr'}
+          className={`min-h-screen overflow-x-auto ${preferences.fit === 'height' ? 'overflow-y-hidden' : 'overflow-y-auto'}`}
+          onClick={() => setShowControls(!showControls)}
+        >
+          <div 
+            className={`flex items-center gap-2 px-2 py-16 ${preferences.fit === 'height' ? 'h-screen' : 'min-h-screen'}`}
+            ref={horizontalContainerRef}
+          >
+            {pageGroups.map((group, groupIndex) => (
+              <div key={pages[group[0]].id} data-page-group className="flex h-full flex-shrink-0 items-center">
+                {group.map((index) => {
+                  const page = pages[index]
+                  const isLocked = !canAccessPage(index)
+                  const imageSrc = pageImageSrc(page)
+                  // Initialize pageRefs array if needed
+                  if (!pageRefs.current[index]) {
+                    pageRefs.current[index] = null
+                  }
+                  return (
+                    <div
+                      key={page.id}
+                      ref={(el) => {
+                        pageRefs.current[index] = el
+                      }}
+                      dir="ltr"
+                      className={`relative flex-shrink-0 transition-opacity ${
+                        groupIndex === groupOfPage[currentPage] ? 'opacity-100' : 'opacity-60'
+                      } ${isLocked ? 'blur-sm' : ''}`}
+                      style={pageFrameStyle(page, group.length > 1)}
+                    >
+                      {!imageSrc && page.is_locked ? (
                         <div
-                          className="absolute inset-0 flex items-center justify-center bg-black/50 rounded-lg cursor-pointer z-10"
+                          className="flex h-full w-full items-center justify-center bg-card rounded-lg cursor-pointer"
                           onClick={(e) => handlePageClick(index, e)}
                         >
-                          <div className="text-center text-white">
-                            <p className="text-lg font-semibold">Locked</p>
-                            <p className="text-sm">Subscribe to unlock</p>
+                          <div className="text-center">
+                            <p className="text-lg font-semibold text-muted-foreground">
+                              Page {index + 1} is locked
+                            </p>
+                            <p className="text-sm text-muted-foreground">
+                              Subscribe to unlock
+                            </p>
                           </div>
                         </div>
+                      ) : !imageSrc ? (
+                        <div className="flex h-full w-full items-center justify-center bg-card rounded-lg">
+                          <div className="text-center">
+                            <p className="text-lg font-semibold text-muted-foreground">
+                              Page {index + 1}
+                            </p>
+                            <p className="text-sm text-muted-foreground">
+                              Image not available
+                            </p>
+                          </div>
+                        </div>
+                      ) : (
+                        <div className="relative h-full w-full">
+                          <ZoomablePage
+                            active={groupOfPage[index] === groupOfPage[currentPage]}
+                            resetKey={currentPage}
+                            onDoubleTap={cancelPendingTap}
+                            controlsRef={index === currentPage ? zoomControlsRef : undefined}
+                          >
+                            <ReaderPageImage
+                              src={imageSrc}
+                              alt={`Page ${index + 1}`}
+                              layout={page.is_spread ? 'wide' : 'horizontal'}
+                              shouldLoad={isInPrefetchWindow(index)}
+                              dataSaver={dataSaver}
+                              unoptimized={offlinePageIds.has(page.id)}
+                              className={isLocked ? 'cursor-not-allowed' : 'cursor-pointer'}
+                              priority={index === initialPageIndex}
+                              onNaturalSize={(width, height) => handleNaturalSize(page.id, width, height)}
+                              onClick={(e) => handlePageClick(index, e)}
+                              onError={() => {
+                                if (index === currentPage) {
+                                  setImageError(true)
+                                }
+                              }}
+                            />
+                            {/* Anchored comment markers and the pin being placed */}
+                            {!isLocked && (
+                              <CommentAnchorLayer
+                                aspectRatio={naturalSizes[page.id] ? naturalSizes[page.id].width / naturalSizes[page.id].height : null}
+                                comments={anchoredComments.filter((comment) => comment.page_id === page.id)}
+                                onSelect={openCommentThread}
+                                pendingAnchor={anchorDraft?.pageId === page.id ? anchorDraft.anchor : null}
+                                isPicking={anchorDraft?.pageId === page.id && anchorDraft.isPicking}
+                                onPick={(anchor) => changePendingAnchor(page.id, anchor)}
+                                onCancelPick={() => cancelPickingAnchor(page.id)}
+                              />
+                            )}
+                          </ZoomablePage>
+                          {/* Page Comments Overlay */}
+                          {!isFullscreen && !isLocked && (
+    <PageComments
+                              comicId={comic.id}
+                              pageId={page.id}
+                              pageNumber={index + 1}
+                              onSharePage={(pageNum) => {
+                                setSharePageNumber(pageNum)
+                                setSharePageImageUrl(page?.image_url ?? null)
+                                setShowShareDialog(true)
+                              }}
+                              onAnchoredComment={handleAnchoredComment}
+                              pendingAnchor={anchorDraft?.pageId === page.id ? anchorDraft.anchor : null}
+                              onPendingAnchorChange={(anchor) => changePendingAnchor(page.id, anchor)}
+                              isPickingAnchor={anchorDraft?.pageId === page.id && anchorDraft.isPicking}
+                              onPickAnchor={() => startPickingAnchor(page.id)}
+                            />
+                          )}
+                          {isLocked && (
+                            <div
+                              className="absolute inset-0 flex items-center justify-center bg-black/50 rounded-lg cursor-pointer z-10"
+                              onClick={(e) => handlePageClick(index, e)}
+                            >
+                              <div className="text-center text-white">
+                                <p className="text-lg font-semibold">Locked</p>
+                                <p className="text-sm">Subscribe to unlock</p>
+                              </div>
+                            </div>
+                          )}
+                        </div>
                       )}
                     </div>
-                  )}
-                </div>
-              )
-            })}
+                  )
+                })}
+              </div>
+            ))}
             {/* Call to Action - end of comic */}
             <a
               href="https://www.kickstarter.com/projects/shattahs/the-shatsverse-first-mugen-art-sci-fi-series?ref=nav_search&result=project&term=Shattahs&total_hits=44"
@@ -844,14 +1582,27 @@ export function ComicReader({ comic, pages, currentPageIndex: initialPageIndex }
         sharePageImageUrl={sharePageImageUrl ?? undefined}
       />
 
+      {/* Keyboard Shortcuts */}
+      <KeyboardShortcutsDialog
+        open={showShortcuts}
+        onOpenChange={setShowShortcuts}
+        bindings={preferences.key_bindings}
+        isRtl={isRtl}
+        canCustomize={isAuthenticated}
+      />
+
       {/* Comment Sidebar */}
       <CommentSidebar
         comicId={comic.id}
         currentPageId={currentPageData?.id || null}
         currentPageNumber={currentPage + 1}
         isVisible={showCommentSidebar}
-        onClose={() => setShowCommentSidebar(false)}
+        onClose={() => {
+          setShowCommentSidebar(false)
+          setHighlightCommentId(null)
+        }}
         onNavigateToPage={navigateToPageById}
+        highlightCommentId={highlightCommentId}
       />
 
       {/* Vertical Progress bar */}
@@ -872,29 +1623,95 @@ export function ComicReader({ comic, pages, currentPageIndex: initialPageIndex }
           showControls ? 'opacity-100' : 'opacity-0 pointer-events-none'
         }`}
       >
+        {/* Chapter navigation - shown on the last page of a chapter */}
+        {isLastPageOfChapter && currentChapter && (
+          <div className="flex flex-wrap items-center justify-center gap-2 px-4 pt-3">
+            <span className="text-xs text-white/70">
+              End of Chapter {currentChapter.chapter_number}
+              {currentChapter.title ? `: ${currentChapter.title}` : ''}
+            </span>
+            {prevChapter && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => goToChapter(prevChapter)}
+                className="border-white/20 bg-transparent text-white hover:bg-white/10"
+              >
+                <ChevronLeft className="mr-1 h-4 w-4" />
+                Chapter {prevChapter.chapter_number}
+              </Button>
+            )}
+            {nextChapter && (
+              <Button
+                size="sm"
+                onClick={() => goToChapter(nextChapter)}
+                className="bg-amber text-amber-foreground hover:bg-amber/90"
+              >
+                Next: Chapter {nextChapter.chapter_number}
+                <ChevronRight className="ml-1 h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        )}
 
         <div className="flex items-center justify-between px-4 py-3">
           {/* Page navigation */}
           <div className="flex items-center gap-2">
+            {/* Right-to-left puts "next" on the left */}
             <Button
               variant="ghost"
               size="icon"
-              onClick={goToPrevPage}
-              disabled={currentPage === 0}
+              onClick={isRtl ? goToNextPage : goToPrevPage}
+              disabled={!(isRtl ? hasNext : hasPrev)}
               className="text-white hover:bg-white/10 disabled:opacity-30"
             >
               <ChevronLeft className="h-6 w-6" />
             </Button>
             
-            <span className="min-w-[80px] text-center text-sm text-white">
-              {currentPage + 1} / {totalPages}
-            </span>
+            {isJumpingToPage ? (
+              <form
+                className="min-w-[80px] text-center"
+                onSubmit={(e) => {
+                  e.preventDefault()
+                  const pageNumber = parseInt(String(new FormData(e.currentTarget).get('page')), 10)
+                  if (!Number.isNaN(pageNumber)) {
+                    goToPage(pageNumber)
+                  }
+                  setIsJumpingToPage(false)
+                }}
+              >
+                <input
+                  name="page"
+                  type="number"
+                  min={1}
+                  max={totalPages}
+                  defaultValue={currentPage + 1}
+                  autoFocus
+                  onFocus={(e) => e.currentTarget.select()}
+                  onBlur={() => setIsJumpingToPage(false)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Escape') setIsJumpingToPage(false)
+                  }}
+                  aria-label="Jump to page"
+                  className="w-16 rounded bg-white/10 px-2 py-0.5 text-center text-sm text-white"
+                />
+              </form>
+            ) : (
+              <button
+                type="button"
+                onClick={() => setIsJumpingToPage(true)}
+                className="min-w-[80px] text-center text-sm text-white"
+                title="Jump to page"
+              >
+                {currentPageLabel} / {totalPages}
+              </button>
+            )}
             
             <Button
               variant="ghost"
               size="icon"
-              onClick={goToNextPage}
-              disabled={currentPage === totalPages - 1}
+              onClick={isRtl ? goToPrevPage : goToNextPage}
+              disabled={!(isRtl ? hasPrev : hasNext)}
               className="text-white hover:bg-white/10 disabled:opacity-30"
             >
               <ChevronRight className="h-6 w-6" />
@@ -909,6 +1726,7 @@ export function ComicReader({ comic, pages, currentPageIndex: initialPageIndex }
               max={totalPages}
               value={currentPage + 1}
               onChange={(e) => goToPage(parseInt(e.target.value))}
+              dir={isRtl ? 'rtl' : 'ltr'}
               className="w-32 accent-amber"
             />
           </div>
@@ -916,12 +1734,25 @@ export function ComicReader({ comic, pages, currentPageIndex: initialPageIndex }
       </div>
 
       {/* Keyboard shortcut hints - visible on desktop only */}
-      <div className="hidden md:block fixed bottom-20 left-1/2 -translate-x-1/2 rounded-lg bg-black/80 px-4 py-2 text-xs text-white/70">
-        <span className="mr-4">← → Navigate</span>
-        <span className="mr-4">F Fullscreen</span>
-        <span className="mr-4">R Toggle reading mode</span>
-        <span>{readingMode === 'vertical' ? 'Click sides to turn pages' : 'Click pages to navigate'}</span>
-      </div>
+      {preferences.show_hints && (
+        <div className="hidden md:block fixed bottom-20 left-1/2 -translate-x-1/2 rounded-lg bg-black/80 px-4 py-2 text-xs text-white/70">
+          <span className="mr-4">
+            {isRtl
+              ? `${keyHint('page_left') ?? ''} Next ${keyHint('page_right') ?? ''} Previous`
+              : `${keyHint('page_left') ?? ''} ${keyHint('page_right') ?? ''} Navigate`}
+          </span>
+          {keyHint('toggle_fullscreen') && (
+            <span className="mr-4">{keyHint('toggle_fullscreen')} Fullscreen</span>
+          )}
+          {keyHint('cycle_reading_mode') && (
+            <span className="mr-4">{keyHint('cycle_reading_mode')} Change reading mode</span>
+          )}
+          {keyHint('show_shortcuts') && (
+            <span className="mr-4">{keyHint('show_shortcuts')} All shortcuts</span>
+          )}
+          <span>{readingMode === 'vertical' ? 'Click sides to turn pages' : 'Click page sides to turn pages'}</span>
+        </div>
+      )}
 
     </div>
   )
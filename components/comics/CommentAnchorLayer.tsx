@@ -0,0 +1,77 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import type { CommentAnchor, CommentWithUser } from '@/types/database'
+import { CommentAnchorMarkers } from './CommentAnchorMarkers'
+import { CommentAnchorPicker } from './CommentAnchorPicker'
+
+interface CommentAnchorLayerProps {
+  /** Width / height of the page image; the layer fills the frame until it's known */
+  aspectRatio: number | null
+  /** Anchored comments on this page */
+  comments: CommentWithUser[]
+  onSelect: (comment: CommentWithUser) => void
+  /** Spot picked for the comment being written on this page */
+  pendingAnchor: CommentAnchor | null
+  isPicking: boolean
+  onPick: (anchor: CommentAnchor) => void
+  onCancelPick: () => void
+}
+
+/**
+ * Comment anchors over a page: markers, the pin being placed and the picker.
+ * Pages are drawn object-contain, so this covers just the image inside the
+ * frame, and anchors are fractions of the image whatever the frame's shape.
+ * Render it inside the page's zoom transform so anchors follow the zoom.
+ */
+export function CommentAnchorLayer({
+  aspectRatio,
+  comments,
+  onSelect,
+  pendingAnchor,
+  isPicking,
+  onPick,
+  onCancelPick,
+}: CommentAnchorLayerProps) {
+  const frameRef = useRef<HTMLDivElement>(null)
+  const [frame, setFrame] = useState({ width: 0, height: 0 })
+
+  useEffect(() => {
+    const element = frameRef.current
+    if (!element) return
+
+    const observer = new ResizeObserver(([entry]) => {
+      setFrame({ width: entry.contentRect.width, height: entry.contentRect.height })
+    })
+    observer.observe(element)
+    return () => observer.disconnect()
+  }, [])
+
+  // The box object-contain draws the image in
+  const imageWidth = aspectRatio ? Math.min(frame.width, frame.height * aspectRatio) : frame.width
+  const imageHeight = aspectRatio ? imageWidth / aspectRatio : frame.height
+
+  return (
+    <div ref={frameRef} className="pointer-events-none absolute inset-0 flex items-center justify-center">
+      <div className="relative flex-shrink-0" style={{ width: imageWidth, height: imageHeight }}>
+        <CommentAnchorMarkers comments={comments} onSelect={onSelect} />
+        {pendingAnchor && (
+          <div
+            className={`pointer-events-none absolute z-[6] border-2 border-dashed border-amber ${
+              pendingAnchor.width !== null ? 'rounded bg-amber/10' : 'h-4 w-4 -translate-x-1/2 -translate-y-1/2 rounded-full bg-amber/60'
+            }`}
+            style={{
+              left: `${pendingAnchor.x * 100}%`,
+              top: `${pendingAnchor.y * 100}%`,
+              ...(pendingAnchor.width !== null && pendingAnchor.height !== null && {
+                width: `${pendingAnchor.width * 100}%`,
+                height: `${pendingAnchor.height * 100}%`,
+              }),
+            }}
+          />
+        )}
+        {isPicking && <CommentAnchorPicker onPick={onPick} onCancel={onCancelPick} />}
+      </div>
+    </div>
+  )
+}
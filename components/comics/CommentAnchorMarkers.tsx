@@ -0,0 +1,72 @@
+'use client'
+
+import type { CommentWithUser } from '@/types/database'
+
+interface CommentAnchorMarkersProps {
+  /** Anchored comments on this page */
+  comments: CommentWithUser[]
+  onSelect: (comment: CommentWithUser) => void
+}
+
+function markerLabel(comment: CommentWithUser): string {
+  const author = comment.user.full_name || 'Anonymous'
+  const excerpt = comment.content.length > 80 ? `${comment.content.slice(0, 80)}…` : comment.content
+  return `${author}: ${excerpt}`
+}
+
+/**
+ * Numbered markers over a page for comments anchored to a point or region.
+ * Clicking one opens its thread.
+ */
+export function CommentAnchorMarkers({ comments, onSelect }: CommentAnchorMarkersProps) {
+  if (comments.length === 0) return null
+
+  return (
+    <div className="pointer-events-none absolute inset-0 z-[5]">
+      {comments.map((comment, index) => {
+        const anchor = comment.anchor
+        if (!anchor) return null
+
+        const isRegion = anchor.width !== null && anchor.height !== null
+        const select = (e: React.MouseEvent) => {
+          // Don't let the page treat this as a page click or toggle controls
+          e.stopPropagation()
+          onSelect(comment)
+        }
+
+        return isRegion ? (
+          <button
+            key={comment.id}
+            type="button"
+            onClick={select}
+            className="pointer-events-auto absolute rounded border-2 border-amber/70 bg-amber/5 transition-colors hover:bg-amber/20"
+            style={{
+              left: `${anchor.x * 100}%`,
+              top: `${anchor.y * 100}%`,
+              width: `${anchor.width! * 100}%`,
+              height: `${anchor.height! * 100}%`,
+            }}
+            title={markerLabel(comment)}
+            aria-label={`Comment ${index + 1}: ${markerLabel(comment)}`}
+          >
+            <span className="absolute -left-2.5 -top-2.5 flex h-5 w-5 items-center justify-center rounded-full bg-amber text-[10px] font-bold text-black shadow-md">
+              {index + 1}
+            </span>
+          </button>
+        ) : (
+          <button
+            key={comment.id}
+            type="button"
+            onClick={select}
+            className="pointer-events-auto absolute flex h-6 w-6 -translate-x-1/2 -translate-y-1/2 items-center justify-center rounded-full border-2 border-white bg-amber text-[10px] font-bold text-black shadow-lg transition-transform hover:scale-110"
+            style={{ left: `${anchor.x * 100}%`, top: `${anchor.y * 100}%` }}
+            title={markerLabel(comment)}
+            aria-label={`Comment ${index + 1}: ${markerLabel(comment)}`}
+          >
+            {index + 1}
+          </button>
+        )
+      })}
+    </div>
+  )
+}
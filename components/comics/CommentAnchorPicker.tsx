@@ -0,0 +1,107 @@
+'use client'
+
+import { useState } from 'react'
+import { X } from 'lucide-react'
+import type { CommentAnchor } from '@/types/database'
+
+interface CommentAnchorPickerProps {
+  onPick: (anchor: CommentAnchor) => void
+  onCancel: () => void
+}
+
+/** Drags smaller than this (fraction of the page) count as a tap on a point */
+const MIN_REGION_SIZE = 0.02
+
+type Point = { x: number; y: number }
+
+function clamp(value: number): number {
+  return Math.min(1, Math.max(0, value))
+}
+
+function toAnchor(start: Point, end: Point): CommentAnchor {
+  const width = Math.abs(end.x - start.x)
+  const height = Math.abs(end.y - start.y)
+  if (width < MIN_REGION_SIZE && height < MIN_REGION_SIZE) {
+    return { x: end.x, y: end.y, width: null, height: null }
+  }
+  return {
+    x: Math.min(start.x, end.x),
+    y: Math.min(start.y, end.y),
+    width: Math.max(width, MIN_REGION_SIZE),
+    height: Math.max(height, MIN_REGION_SIZE),
+  }
+}
+
+/**
+ * Full-page overlay for pinning a new comment: tap a spot for a point or drag
+ * a box for a region. Coordinates are normalized to the box it's rendered in,
+ * the page image inside CommentAnchorLayer.
+ */
+export function CommentAnchorPicker({ onPick, onCancel }: CommentAnchorPickerProps) {
+  const [start, setStart] = useState<Point | null>(null)
+  const [current, setCurrent] = useState<Point | null>(null)
+
+  const toPoint = (e: React.PointerEvent<HTMLDivElement>): Point => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    return {
+      x: clamp((e.clientX - rect.left) / rect.width),
+      y: clamp((e.clientY - rect.top) / rect.height),
+    }
+  }
+
+  const preview = start && current ? toAnchor(start, current) : null
+
+  return (
+    <div
+      // Keeps ZoomablePage from reading picks as pans or double-tap zooms
+      data-zoom-ignore
+      className="pointer-events-auto absolute inset-0 z-20 cursor-crosshair touch-none bg-black/30"
+      onClick={(e) => e.stopPropagation()}
+      onMouseDown={(e) => e.stopPropagation()}
+      onPointerDown={(e) => {
+        e.stopPropagation()
+        e.currentTarget.setPointerCapture(e.pointerId)
+        const point = toPoint(e)
+        setStart(point)
+        setCurrent(point)
+      }}
+      onPointerMove={(e) => {
+        if (start) setCurrent(toPoint(e))
+      }}
+      onPointerUp={(e) => {
+        if (!start) return
+        const anchor = toAnchor(start, toPoint(e))
+        setStart(null)
+        setCurrent(null)
+        onPick(anchor)
+      }}
+    >
+      {preview && preview.width !== null && preview.height !== null && (
+        <div
+          className="pointer-events-none absolute rounded border-2 border-amber bg-amber/20"
+          style={{
+            left: `${preview.x * 100}%`,
+            top: `${preview.y * 100}%`,
+            width: `${preview.width * 100}%`,
+            height: `${preview.height * 100}%`,
+          }}
+        />
+      )}
+      <div className="absolute left-1/2 top-3 flex -translate-x-1/2 items-center gap-2 rounded-full bg-black/80 px-3 py-1.5 text-xs font-semibold text-white shadow-lg">
+        Tap a spot or drag a box
+        <button
+          type="button"
+          onPointerDown={(e) => e.stopPropagation()}
+          onClick={(e) => {
+            e.stopPropagation()
+            onCancel()
+          }}
+          className="text-white/70 hover:text-white"
+          aria-label="Cancel pinning"
+        >
+          <X className="h-3.5 w-3.5" />
+        </button>
+      </div>
+    </div>
+  )
+}
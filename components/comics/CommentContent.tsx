@@ -0,0 +1,79 @@
+'use client'
+
+import { useState } from 'react'
+import type { CommentNode } from '@/types/database'
+
+interface CommentContentProps {
+  nodes: CommentNode[]
+}
+
+function Spoiler({ children }: { children: React.ReactNode }) {
+  const [isRevealed, setIsRevealed] = useState(false)
+
+  if (isRevealed) {
+    return <span className="rounded bg-white/10 px-0.5">{children}</span>
+  }
+
+  const reveal = (e: React.SyntheticEvent) => {
+    // Comments are clickable (e.g. jump to page); revealing shouldn't trigger that
+    e.stopPropagation()
+    setIsRevealed(true)
+  }
+
+  return (
+    <span
+      role="button"
+      tabIndex={0}
+      onClick={reveal}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter' || e.key === ' ') {
+          e.preventDefault()
+          reveal(e)
+        }
+      }}
+      className="cursor-pointer rounded bg-white/20 px-0.5"
+      title="Spoiler - click to reveal"
+      aria-label="Spoiler, click to reveal"
+    >
+      <span className="pointer-events-none select-none blur-[5px]" aria-hidden="true">
+        {children}
+      </span>
+    </span>
+  )
+}
+
+function renderNodes(nodes: CommentNode[]): React.ReactNode[] {
+  return nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return node.text
+      case 'bold':
+        return <strong key={index} className="font-bold">{renderNodes(node.children)}</strong>
+      case 'italic':
+        return <em key={index}>{renderNodes(node.children)}</em>
+      case 'link':
+        return (
+          <a
+            key={index}
+            href={node.href}
+            target="_blank"
+            rel="nofollow ugc noopener noreferrer"
+            onClick={(e) => e.stopPropagation()}
+            className="text-amber underline underline-offset-2 break-all hover:text-amber/80"
+          >
+            {renderNodes(node.children)}
+          </a>
+        )
+      case 'spoiler':
+        return <Spoiler key={index}>{renderNodes(node.children)}</Spoiler>
+    }
+  })
+}
+
+/**
+ * Render parsed comment markup. Everything is a React text node or element,
+ * so comment content can't inject HTML.
+ */
+export function CommentContent({ nodes }: CommentContentProps) {
+  return <>{renderNodes(nodes)}</>
+}
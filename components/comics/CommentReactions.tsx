@@ -0,0 +1,135 @@
+'use client'
+
+import { useState } from 'react'
+import { SmilePlus } from 'lucide-react'
+import { COMMENT_REACTIONS, toggleReaction } from '@/lib/comment-utils'
+import type { CommentReactionType, CommentWithUser } from '@/types/database'
+
+export type CommentReactionState = Pick<CommentWithUser, 'reactions' | 'reaction_total' | 'my_reactions'>
+
+interface CommentReactionsProps {
+  comicId: string
+  comment: CommentWithUser
+  /** Signed-in readers can react; everyone sees counts */
+  canReact: boolean
+  onChange: (commentId: string, state: CommentReactionState) => void
+  /** Overlay style for the reader's live comments */
+  variant?: 'panel' | 'overlay'
+}
+
+function pickState(comment: CommentWithUser): CommentReactionState {
+  return {
+    reactions: comment.reactions,
+    reaction_total: comment.reaction_total,
+    my_reactions: comment.my_reactions,
+  }
+}
+
+export function CommentReactions({
+  comicId,
+  comment,
+  canReact,
+  onChange,
+  variant = 'panel',
+}: CommentReactionsProps) {
+  const [isPickerOpen, setIsPickerOpen] = useState(false)
+  const [pending, setPending] = useState<CommentReactionType | null>(null)
+
+  const isSaved = !comment.id.startsWith('temp-')
+  const shown = COMMENT_REACTIONS.filter((option) => (comment.reactions[option.value] ?? 0) > 0)
+
+  if (shown.length === 0 && !(canReact && isSaved)) return null
+
+  const handleToggle = async (reaction: CommentReactionType) => {
+    if (!canReact || !isSaved || pending) return
+    setIsPickerOpen(false)
+
+    const previous = pickState(comment)
+    const active = !comment.my_reactions.includes(reaction)
+    onChange(comment.id, pickState(toggleReaction(comment, reaction, active)))
+    setPending(reaction)
+
+    try {
+      const response = await fetch(`/api/comics/${comicId}/comments/${comment.id}/reactions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reaction }),
+      })
+      const data = await response.json()
+
+      if (data.error) {
+        console.error('Error toggling reaction:', data.error)
+        onChange(comment.id, previous)
+        return
+      }
+
+      onChange(comment.id, data.data)
+    } catch (error) {
+      console.error('Error toggling reaction:', error)
+      onChange(comment.id, previous)
+    } finally {
+      setPending(null)
+    }
+  }
+
+  const isOverlay = variant === 'overlay'
+  const pillClass = (mine: boolean) =>
+    isOverlay
+      ? `rounded-full px-1.5 py-0.5 text-xs font-semibold transition-colors ${
+          mine ? 'bg-amber/80 text-black' : 'bg-black/40 text-white hover:bg-black/60'
+        }`
+      : `rounded-full border px-2 py-0.5 text-xs transition-colors ${
+          mine
+            ? 'border-amber/60 bg-amber/20 text-amber'
+            : 'border-white/10 bg-white/5 text-white/70 hover:bg-white/10'
+        }`
+
+  return (
+    <div className="relative flex flex-wrap items-center gap-1 mt-1.5" onClick={(e) => e.stopPropagation()}>
+      {shown.map((option) => {
+        const mine = comment.my_reactions.includes(option.value)
+        return (
+          <button
+            key={option.value}
+            type="button"
+            onClick={() => handleToggle(option.value)}
+            disabled={!canReact || !isSaved}
+            className={`${pillClass(mine)} disabled:cursor-default`}
+            title={option.label}
+            aria-pressed={mine}
+          >
+            {option.emoji} {comment.reactions[option.value]}
+          </button>
+        )
+      })}
+      {canReact && isSaved && (
+        <button
+          type="button"
+          onClick={() => setIsPickerOpen((open) => !open)}
+          className={isOverlay ? 'text-white/70 hover:text-amber' : 'text-white/40 hover:text-amber transition-colors'}
+          aria-label="Add reaction"
+          aria-expanded={isPickerOpen}
+        >
+          <SmilePlus className="h-3.5 w-3.5" />
+        </button>
+      )}
+      {isPickerOpen && (
+        <div className="absolute bottom-full left-0 z-10 mb-1 flex gap-1 rounded-full border border-white/20 bg-black/90 px-2 py-1 shadow-lg animate-in fade-in zoom-in-95">
+          {COMMENT_REACTIONS.map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => handleToggle(option.value)}
+              className={`rounded-full px-1 text-base transition-transform hover:scale-125 ${
+                comment.my_reactions.includes(option.value) ? 'bg-amber/30' : ''
+              }`}
+              title={option.label}
+            >
+              {option.emoji}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
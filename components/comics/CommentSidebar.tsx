@@ -6,10 +6,24 @@ import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Separator } from '@/components/ui/separator'
-import { MessageSquare, Send, Edit2, Trash2, X } from 'lucide-react'
-import type { CommentWithUser } from '@/types/database'
+import { MessageSquare, Send, Edit2, Trash2, X, Reply, ChevronDown, ChevronUp, Flag } from 'lucide-react'
+import type { CommentWithUser, CommentSort } from '@/types/database'
+import {
+  groupCommentThreads,
+  getReplyCount,
+  mergeComments,
+  fetchCommentWithUser,
+  applyCommentUpdate,
+  removeComment,
+  fetchGoneCommentIds,
+  COMMENT_RESYNC_INTERVAL_MS,
+  compareTopComments,
+} from '@/lib/comment-utils'
 import Link from 'next/link'
 import { PlatformIcon, hasPlatformIcon } from '@/components/ui/platform-icon'
+import { ReportCommentDialog } from './ReportCommentDialog'
+import { CommentReactions, type CommentReactionState } from './CommentReactions'
+import { CommentContent } from './CommentContent'
 
 interface CommentSidebarProps {
   comicId: string
@@ -18,8 +32,12 @@ interface CommentSidebarProps {
   isVisible: boolean
   onClose: () => void
   onNavigateToPage?: (pageId: string) => void
+  /** Comment to scroll to and flash once loaded (notification links) */
+  highlightCommentId?: string | null
 }
 
+const HIGHLIGHT_DURATION_MS = 2000
+
 function formatRelativeTime(dateString: string): string {
   const date = new Date(dateString)
   const now = new Date()
@@ -58,9 +76,21 @@ function formatRelativeTime(dateString: string): string {
   return `${diffInYears} year${diffInYears > 1 ? 's' : ''} ago`
 }
 
-export function CommentSidebar({ comicId, currentPageId, currentPageNumber, isVisible, onClose, onNavigateToPage }: CommentSidebarProps) {
+function sortNewestFirst(comments: CommentWithUser[]): CommentWithUser[] {
+  return [...comments].sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
+}
+
+export function CommentSidebar({ comicId, currentPageId, currentPageNumber, isVisible, onClose, onNavigateToPage, highlightCommentId }: CommentSidebarProps) {
   const [comments, setComments] = useState<CommentWithUser[]>([])
   const [isLoading, setIsLoading] = useState(true)
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [isLoadingMore, setIsLoadingMore] = useState(false)
+  const [sort, setSort] = useState<CommentSort>('newest')
+  // New top-level comments from others that arrived while scrolled away from the top
+  const [newCommentCount, setNewCommentCount] = useState(0)
+  const userIdRef = useRef<string | null>(null)
+  // Latest comments for the realtime resync, which runs outside render
+  const commentsRef = useRef<CommentWithUser[]>([])
   const [isAuthenticated, setIsAuthenticated] = useState(false)
   const [user, setUser] = useState<any>(null)
   const [hasActiveSubscription, setHasActiveSubscription] = useState(false)
@@ -70,9 +100,15 @@ export function CommentSidebar({ comicId, currentPageId, currentPageNumber, isVi
   const commentMode = 'comic' // Only comic-level comments
   const [editingCommentId, setEditingCommentId] = useState<string | null>(null)
   const [editContent, setEditContent] = useState('')
+  const [replyingTo, setReplyingTo] = useState<CommentWithUser | null>(null)
+  const [expandedThreads, setExpandedThreads] = useState<Set<string>>(new Set())
+  const [reportingComment, setReportingComment] = useState<CommentWithUser | null>(null)
+  const [reportedIds, setReportedIds] = useState<Set<string>>(new Set())
   const [pageIdToNumberMap, setPageIdToNumberMap] = useState<Map<string, number>>(new Map())
-  const commentsEndRef = useRef<HTMLDivElement>(null)
   const commentsContainerRef = useRef<HTMLDivElement>(null)
+  const commentInputRef = useRef<HTMLTextAreaElement>(null)
+  const [flashCommentId, setFlashCommentId] = useState<string | null>(null)
+  const highlightHandledRef = useRef<string | null>(null)
 
   // Check authentication and subscription
   useEffect(() => {
@@ -82,6 +118,7 @@ export function CommentSidebar({ comicId, currentPageId, currentPageNumber, isVi
       const { data: { user } } = await supabase.auth.getUser()
       setIsAuthenticated(!!user)
       setUser(user)
+      userIdRef.current = user?.id ?? null
 
       if (!user) {
         // Check for anonymous day pass
@@ -157,12 +194,13 @@ export function CommentSidebar({ comicId, currentPageId, currentPageNumber, isVi
     }
   }, [comicId])
 
-  // Fetch initial comments - all comments for the comic
-  const fetchComments = useCallback(async () => {
+  // Fetch the newest page of comments for the comic. Refreshes merge into the
+  // list so older pages loaded by scrolling stay put; reset starts over.
+  const fetchComments = useCallback(async (reset = false) => {
     try {
-      setIsLoading(true)
+      if (reset) setIsLoading(true)
       // Fetch all comments for the comic (no page_id filter)
-      const url = `/api/comics/${comicId}/comments`
+      const url = `/api/comics/${comicId}/comments?sort=${sort}`
       const response = await fetch(url)
       const data = await response.json()
 
@@ -171,55 +209,174 @@ export function CommentSidebar({ comicId, currentPageId, currentPageNumber, isVi
         return
       }
 
-      // Sort by created_at descending (newest first)
-      const sortedComments = (data.data || []).sort((a: CommentWithUser, b: CommentWithUser) => {
-        return new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
-      })
-
-      setComments(sortedComments)
+      const latest: CommentWithUser[] = data.data || []
+      setComments((prev) => sortNewestFirst(reset ? latest : mergeComments(prev, latest)))
+      if (reset) {
+        setNextCursor(data.next_cursor ?? null)
+      }
     } catch (error) {
       console.error('Error fetching comments:', error)
     } finally {
-      setIsLoading(false)
+      if (reset) setIsLoading(false)
     }
-  }, [comicId])
+  }, [comicId, sort])
+
+  // Append the next page of older comments (infinite scroll)
+  const loadOlderComments = useCallback(async () => {
+    if (!nextCursor || isLoadingMore) return
+
+    setIsLoadingMore(true)
+    try {
+      const response = await fetch(
+        `/api/comics/${comicId}/comments?sort=${sort}&cursor=${encodeURIComponent(nextCursor)}`
+      )
+      const data = await response.json()
+
+      if (data.error) {
+        console.error('Error fetching older comments:', data.error)
+        return
+      }
+
+      setComments((prev) => sortNewestFirst(mergeComments(prev, data.data || [])))
+      setNextCursor(data.next_cursor ?? null)
+    } catch (error) {
+      console.error('Error fetching older comments:', error)
+    } finally {
+      setIsLoadingMore(false)
+    }
+  }, [comicId, sort, nextCursor, isLoadingMore])
 
   useEffect(() => {
     fetchPages()
-    fetchComments()
+    fetchComments(true)
   }, [fetchPages, fetchComments])
 
-  // Set up real-time subscription
+  useEffect(() => {
+    commentsRef.current = comments
+  }, [comments])
+
+  // Merge other readers' inserts, edits and deletes as they happen
   useEffect(() => {
     const supabase = createClient()
+
+    // Hide events only reach the author and admins, and any event can be missed
+    // while disconnected, so re-check that loaded comments are still visible
+    const dropGoneComments = async () => {
+      const goneIds = await fetchGoneCommentIds(supabase, commentsRef.current.map((comment) => comment.id))
+      if (goneIds.length > 0) {
+        setComments((prev) => goneIds.reduce(removeComment, prev))
+      }
+    }
+
     const channel = supabase
       .channel(`comic-comments-${comicId}`)
       .on(
         'postgres_changes',
         {
-          event: '*',
+          event: 'INSERT',
           schema: 'public',
           table: 'comic_comments',
           filter: `comic_id=eq.${comicId}`,
         },
+        async (payload) => {
+          // Payloads carry the bare row; load it with its author
+          const comment = await fetchCommentWithUser(supabase, payload.new.id)
+          if (!comment) return
+
+          setComments((prev) => sortNewestFirst(mergeComments(prev, [comment])))
+
+          const container = commentsContainerRef.current
+          const isScrolledAway = !!container && container.scrollTop > 80
+          if (!comment.parent_id && comment.user_id !== userIdRef.current && isScrolledAway) {
+            setNewCommentCount((count) => count + 1)
+          }
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'comic_comments',
+          filter: `comic_id=eq.${comicId}`,
+        },
+        (payload) => {
+          setComments((prev) => applyCommentUpdate(prev, payload.new, userIdRef.current))
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          // Delete events can't be filtered; unknown ids are a no-op
+          event: 'DELETE',
+          schema: 'public',
+          table: 'comic_comments',
+        },
         (payload) => {
-          // Refetch comments when changes occur
-          fetchComments()
+          if (payload.old?.id) {
+            setComments((prev) => removeComment(prev, payload.old.id))
+          }
         }
       )
-      .subscribe()
+      .subscribe((status) => {
+        // (Re)connected: catch up on comments hidden or deleted while away
+        if (status === 'SUBSCRIBED') dropGoneComments()
+      })
+
+    const resyncTimer = setInterval(dropGoneComments, COMMENT_RESYNC_INTERVAL_MS)
 
     return () => {
+      clearInterval(resyncTimer)
       supabase.removeChannel(channel)
     }
-  }, [comicId, fetchComments])
+  }, [comicId])
+
+  // Load the linked comment (and its thread parent) if it isn't in the first page
+  useEffect(() => {
+    if (!highlightCommentId) {
+      // Cleared when the sidebar closes, so the same comment can be opened again
+      highlightHandledRef.current = null
+      return
+    }
+    if (isLoading || highlightHandledRef.current === highlightCommentId) return
+    highlightHandledRef.current = highlightCommentId
+
+    const revealComment = async () => {
+      const supabase = createClient()
+      const comment = await fetchCommentWithUser(supabase, highlightCommentId)
+      if (!comment) return
+
+      const parent = comment.parent_id ? await fetchCommentWithUser(supabase, comment.parent_id) : null
+      setComments((prev) => sortNewestFirst(mergeComments(prev, parent ? [parent, comment] : [comment])))
+      if (comment.parent_id) {
+        setExpandedThreads((prev) => new Set(prev).add(comment.parent_id!))
+      }
+      setFlashCommentId(comment.id)
+    }
+    revealComment()
+  }, [highlightCommentId, isLoading])
 
-  // Auto-scroll to bottom when new comments arrive
+  // Scroll the linked comment into view, then fade the highlight
   useEffect(() => {
-    if (comments.length > 0 && commentsEndRef.current) {
-      commentsEndRef.current.scrollIntoView({ behavior: 'smooth' })
+    if (!flashCommentId || !isVisible) return
+
+    document.getElementById(`comment-${flashCommentId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+    const timeout = setTimeout(() => setFlashCommentId(null), HIGHLIGHT_DURATION_MS)
+    return () => clearTimeout(timeout)
+  }, [flashCommentId, isVisible])
+
+  const scrollToNewest = () => {
+    // New comments sit at the top of the newest sort only
+    if (sort === 'top') {
+      setSort('newest')
     }
-  }, [comments.length])
+    commentsContainerRef.current?.scrollTo({ top: 0, behavior: 'smooth' })
+    setNewCommentCount(0)
+  }
+
+  const handleReactionChange = (commentId: string, state: CommentReactionState) => {
+    setComments((prev) => prev.map((c) => (c.id === commentId ? { ...c, ...state } : c)))
+  }
 
   const handleSubmitComment = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -227,7 +384,7 @@ export function CommentSidebar({ comicId, currentPageId, currentPageNumber, isVi
 
     setIsSubmitting(true)
     try {
-      // Only comic-level comments (no page_id)
+      // New threads are comic-level (no page_id); replies stay on their parent's page
       const response = await fetch(`/api/comics/${comicId}/comments`, {
         method: 'POST',
         headers: {
@@ -235,7 +392,8 @@ export function CommentSidebar({ comicId, currentPageId, currentPageNumber, isVi
         },
         body: JSON.stringify({
           content: commentContent.trim(),
-          page_id: null, // Always null for comic-level comments
+          page_id: replyingTo?.page_id ?? null,
+          parent_id: replyingTo?.id ?? null,
         }),
       })
 
@@ -249,6 +407,12 @@ export function CommentSidebar({ comicId, currentPageId, currentPageNumber, isVi
       }
 
       setCommentContent('')
+      if (replyingTo) {
+        // Show the thread the reply landed in
+        const threadId = replyingTo.parent_id ?? replyingTo.id
+        setExpandedThreads((prev) => new Set(prev).add(threadId))
+        setReplyingTo(null)
+      }
       // Immediately refetch comments to show the new comment
       await fetchComments()
     } catch (error) {
@@ -291,11 +455,15 @@ export function CommentSidebar({ comicId, currentPageId, currentPageNumber, isVi
     }
   }
 
-  const handleDeleteComment = async (commentId: string) => {
-    if (!confirm('Are you sure you want to delete this comment?')) return
+  const handleDeleteComment = async (comment: CommentWithUser, replyCount: number) => {
+    // Deleting a top-level comment removes its whole thread
+    const message = replyCount > 0
+      ? `Delete this comment and its ${replyCount} ${replyCount === 1 ? 'reply' : 'replies'}?`
+      : 'Are you sure you want to delete this comment?'
+    if (!confirm(message)) return
 
     try {
-      const response = await fetch(`/api/comics/${comicId}/comments/${commentId}`, {
+      const response = await fetch(`/api/comics/${comicId}/comments/${comment.id}`, {
         method: 'DELETE',
       })
 
@@ -307,7 +475,11 @@ export function CommentSidebar({ comicId, currentPageId, currentPageNumber, isVi
         return
       }
 
-      // Immediately refetch comments to remove the deleted comment
+      if (replyingTo && (replyingTo.id === comment.id || replyingTo.parent_id === comment.id)) {
+        setReplyingTo(null)
+      }
+      // Remove the comment (and its thread) locally, then refresh counts
+      setComments((prev) => removeComment(prev, comment.id))
       await fetchComments()
     } catch (error) {
       console.error('Error deleting comment:', error)
@@ -315,8 +487,204 @@ export function CommentSidebar({ comicId, currentPageId, currentPageNumber, isVi
     }
   }
 
-  // Show all comments for the comic
-  const displayedComments = comments
+  const toggleThread = (commentId: string) => {
+    setExpandedThreads((prev) => {
+      const next = new Set(prev)
+      if (next.has(commentId)) {
+        next.delete(commentId)
+      } else {
+        next.add(commentId)
+      }
+      return next
+    })
+  }
+
+  // Show all comments for the comic, newest threads first with replies nested
+  const { topLevel, repliesByParent } = groupCommentThreads(comments)
+  const displayedComments = sort === 'top' ? [...topLevel].sort(compareTopComments) : topLevel
+  const canReply = isAuthenticated && hasActiveSubscription
+
+  const renderComment = (comment: CommentWithUser, isReply: boolean) => {
+    const isOwnComment = user && comment.user_id === user.id
+    const isEditing = editingCommentId === comment.id
+    const replyCount = isReply ? 0 : getReplyCount(comment, repliesByParent.get(comment.id)?.length ?? 0)
+    const isExpanded = expandedThreads.has(comment.id)
+    const canReport = isAuthenticated && !isOwnComment && !comment.id.startsWith('temp-')
+
+    return (
+      <div
+        key={comment.id}
+        id={`comment-${comment.id}`}
+        className={`rounded-lg border border-white/10 animate-in fade-in slide-in-from-bottom-2 transition-shadow ${
+          isReply ? 'bg-white/[0.03] p-2.5' : 'bg-white/5 p-3'
+        } ${flashCommentId === comment.id ? 'ring-2 ring-amber' : ''} ${
+          comment.page_id && onNavigateToPage ? 'cursor-pointer hover:bg-white/10 transition-colors' : ''
+        }`}
+        onClick={() => {
+          if (comment.page_id && onNavigateToPage) {
+            onNavigateToPage(comment.page_id)
+            onClose() // Close sidebar after navigation
+          }
+        }}
+      >
+        {isEditing ? (
+          <div className="space-y-2" onClick={(e) => e.stopPropagation()}>
+            <textarea
+              value={editContent}
+              onChange={(e) => setEditContent(e.target.value)}
+              className="w-full bg-white/10 border border-white/20 rounded-md px-3 py-2 text-white text-sm resize-none focus:outline-none focus:ring-2 focus:ring-amber/50"
+              rows={3}
+              placeholder="Edit your comment..."
+            />
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                onClick={() => handleEditComment(comment.id)}
+                className="bg-amber hover:bg-amber/90 text-black text-xs"
+              >
+                Save
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => {
+                  setEditingCommentId(null)
+                  setEditContent('')
+                }}
+                className="text-white/70 hover:text-white hover:bg-white/10 text-xs"
+              >
+                Cancel
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <>
+            <div className="flex items-start gap-3">
+              {(() => {
+                const showPlatformIcon = hasPlatformIcon(comment.user.platform)
+                return (
+                  <Avatar className={`h-8 w-8 ${showPlatformIcon ? 'border-0 rounded-none' : 'border border-white/20'}`}>
+                    <AvatarImage src={showPlatformIcon ? undefined : (comment.user.avatar_url || undefined)} />
+                    <AvatarFallback className={`${showPlatformIcon ? 'bg-transparent rounded-none' : 'bg-amber/20'} text-amber text-xs flex items-center justify-center`}>
+                      {showPlatformIcon ? (
+                        <PlatformIcon platform={comment.user.platform} className="h-5 w-5" />
+                      ) : (
+                        comment.user.full_name?.charAt(0)?.toUpperCase() ||
+                        comment.user.email?.charAt(0)?.toUpperCase() ||
+                        'U'
+                      )}
+                    </AvatarFallback>
+                  </Avatar>
+                )
+              })()}
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2 mb-1">
+                  <p className="text-sm font-semibold text-white">
+                    {comment.user.full_name || comment.user.email || 'Anonymous'}
+                  </p>
+                  <span className="text-xs text-white/40">
+                    {formatRelativeTime(comment.created_at)}
+                  </span>
+                </div>
+                <p className="text-sm text-white/90 whitespace-pre-wrap break-words">
+                  <CommentContent nodes={comment.formatted} />
+                </p>
+                <CommentReactions
+                  comicId={comicId}
+                  comment={comment}
+                  canReact={isAuthenticated}
+                  onChange={handleReactionChange}
+                />
+                {comment.page_id && !isReply && (
+                  <p className="text-xs text-amber/70 mt-1">
+                    Page {pageIdToNumberMap.get(comment.page_id) || '?'}
+                  </p>
+                )}
+                {(canReply || canReport || replyCount > 0) && (
+                  <div className="flex items-center gap-3 mt-2">
+                    {canReply && (
+                      <button
+                        type="button"
+                        onClick={(e) => {
+                          e.stopPropagation()
+                          setReplyingTo(comment)
+                          commentInputRef.current?.focus()
+                        }}
+                        className="flex items-center gap-1 text-xs text-white/50 hover:text-amber transition-colors"
+                      >
+                        <Reply className="h-3 w-3" />
+                        Reply
+                      </button>
+                    )}
+                    {replyCount > 0 && (
+                      <button
+                        type="button"
+                        onClick={(e) => {
+                          e.stopPropagation()
+                          toggleThread(comment.id)
+                        }}
+                        className="flex items-center gap-1 text-xs text-amber/80 hover:text-amber transition-colors"
+                      >
+                        {isExpanded ? <ChevronUp className="h-3 w-3" /> : <ChevronDown className="h-3 w-3" />}
+                        {isExpanded ? 'Hide' : 'View'} {replyCount} {replyCount === 1 ? 'reply' : 'replies'}
+                      </button>
+                    )}
+                    {canReport && (
+                      reportedIds.has(comment.id) ? (
+                        <span className="flex items-center gap-1 text-xs text-white/30">
+                          <Flag className="h-3 w-3" />
+                          Reported
+                        </span>
+                      ) : (
+                        <button
+                          type="button"
+                          onClick={(e) => {
+                            e.stopPropagation()
+                            setReportingComment(comment)
+                          }}
+                          className="flex items-center gap-1 text-xs text-white/40 hover:text-red-400 transition-colors"
+                        >
+                          <Flag className="h-3 w-3" />
+                          Report
+                        </button>
+                      )
+                    )}
+                  </div>
+                )}
+              </div>
+              {isOwnComment && (
+                <div className="flex gap-1">
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      setEditingCommentId(comment.id)
+                      setEditContent(comment.content)
+                    }}
+                    className="h-6 w-6 p-0 text-white/60 hover:text-white hover:bg-white/10"
+                  >
+                    <Edit2 className="h-3 w-3" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      handleDeleteComment(comment, replyCount)
+                    }}
+                    className="h-6 w-6 p-0 text-white/60 hover:text-red-500 hover:bg-white/10"
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    )
+  }
 
   if (!isVisible) return null
 
@@ -349,6 +717,22 @@ export function CommentSidebar({ comicId, currentPageId, currentPageNumber, isVi
             </Button>
           </div>
         </div>
+        <div className="flex gap-1" role="tablist" aria-label="Sort comments">
+          {(['newest', 'top'] as const).map((option) => (
+            <button
+              key={option}
+              type="button"
+              role="tab"
+              aria-selected={sort === option}
+              onClick={() => setSort(option)}
+              className={`rounded-full px-3 py-1 text-xs font-medium transition-colors ${
+                sort === option ? 'bg-amber text-black' : 'text-white/60 hover:text-white hover:bg-white/10'
+              }`}
+            >
+              {option === 'newest' ? 'Newest' : 'Top'}
+            </button>
+          ))}
+        </div>
         {/* Page indicator commented out - only comic comments */}
         {/* {!showAllComments && currentPageId && (
           <p className="text-xs text-white/60">Page {currentPageNumber}</p>
@@ -356,139 +740,57 @@ export function CommentSidebar({ comicId, currentPageId, currentPageNumber, isVi
       </div>
 
       {/* Comments List */}
-      <div
-        ref={commentsContainerRef}
-        className="flex-1 overflow-y-auto px-4 py-4 space-y-4"
-      >
-        {isLoading ? (
-          <div className="text-center text-white/60 py-8">Loading comments...</div>
-        ) : displayedComments.length === 0 ? (
-          <div className="text-center text-white/60 py-8">
-            <MessageSquare className="h-8 w-8 mx-auto mb-2 opacity-50" />
-            <p>No comments yet</p>
-            <p className="text-xs mt-1">Be the first to comment!</p>
-          </div>
-        ) : (
-          displayedComments.map((comment) => {
-            const isOwnComment = user && comment.user_id === user.id
-            const isEditing = editingCommentId === comment.id
-
-            return (
-              <div
-                key={comment.id}
-                className={`bg-white/5 rounded-lg p-3 border border-white/10 animate-in fade-in slide-in-from-bottom-2 ${
-                  comment.page_id && onNavigateToPage ? 'cursor-pointer hover:bg-white/10 transition-colors' : ''
-                }`}
-                onClick={() => {
-                  if (comment.page_id && onNavigateToPage) {
-                    onNavigateToPage(comment.page_id)
-                    onClose() // Close sidebar after navigation
-                  }
-                }}
-              >
-                {isEditing ? (
-                  <div className="space-y-2" onClick={(e) => e.stopPropagation()}>
-                    <textarea
-                      value={editContent}
-                      onChange={(e) => setEditContent(e.target.value)}
-                      className="w-full bg-white/10 border border-white/20 rounded-md px-3 py-2 text-white text-sm resize-none focus:outline-none focus:ring-2 focus:ring-amber/50"
-                      rows={3}
-                      placeholder="Edit your comment..."
-                    />
-                    <div className="flex gap-2">
-                      <Button
-                        size="sm"
-                        onClick={() => handleEditComment(comment.id)}
-                        className="bg-amber hover:bg-amber/90 text-black text-xs"
-                      >
-                        Save
-                      </Button>
-                      <Button
-                        size="sm"
-                        variant="ghost"
-                        onClick={() => {
-                          setEditingCommentId(null)
-                          setEditContent('')
-                        }}
-                        className="text-white/70 hover:text-white hover:bg-white/10 text-xs"
-                      >
-                        Cancel
-                      </Button>
-                    </div>
-                  </div>
-                ) : (
-                  <>
-                    <div className="flex items-start gap-3">
-                      {(() => {
-                        const showPlatformIcon = hasPlatformIcon(comment.user.platform)
-                        return (
-                          <Avatar className={`h-8 w-8 ${showPlatformIcon ? 'border-0 rounded-none' : 'border border-white/20'}`}>
-                            <AvatarImage src={showPlatformIcon ? undefined : (comment.user.avatar_url || undefined)} />
-                            <AvatarFallback className={`${showPlatformIcon ? 'bg-transparent rounded-none' : 'bg-amber/20'} text-amber text-xs flex items-center justify-center`}>
-                              {showPlatformIcon ? (
-                                <PlatformIcon platform={comment.user.platform} className="h-5 w-5" />
-                              ) : (
-                                comment.user.full_name?.charAt(0)?.toUpperCase() ||
-                                comment.user.email?.charAt(0)?.toUpperCase() ||
-                                'U'
-                              )}
-                            </AvatarFallback>
-                          </Avatar>
-                        )
-                      })()}
-                      <div className="flex-1 min-w-0">
-                        <div className="flex items-center gap-2 mb-1">
-                          <p className="text-sm font-semibold text-white">
-                            {comment.user.full_name || comment.user.email || 'Anonymous'}
-                          </p>
-                          <span className="text-xs text-white/40">
-                            {formatRelativeTime(comment.created_at)}
-                          </span>
-                        </div>
-                        <p className="text-sm text-white/90 whitespace-pre-wrap break-words">
-                          {comment.content}
-                        </p>
-                        {comment.page_id && (
-                          <p className="text-xs text-amber/70 mt-1">
-                            Page {pageIdToNumberMap.get(comment.page_id) || '?'}
-                          </p>
-                        )}
-                      </div>
-                      {isOwnComment && (
-                        <div className="flex gap-1">
-                          <Button
-                            size="sm"
-                            variant="ghost"
-                            onClick={(e) => {
-                              e.stopPropagation()
-                              setEditingCommentId(comment.id)
-                              setEditContent(comment.content)
-                            }}
-                            className="h-6 w-6 p-0 text-white/60 hover:text-white hover:bg-white/10"
-                          >
-                            <Edit2 className="h-3 w-3" />
-                          </Button>
-                          <Button
-                            size="sm"
-                            variant="ghost"
-                            onClick={(e) => {
-                              e.stopPropagation()
-                              handleDeleteComment(comment.id)
-                            }}
-                            className="h-6 w-6 p-0 text-white/60 hover:text-red-500 hover:bg-white/10"
-                          >
-                            <Trash2 className="h-3 w-3" />
-                          </Button>
-                        </div>
-                      )}
-                    </div>
-                  </>
-                )}
-              </div>
-            )
-          })
+      <div className="relative flex-1 min-h-0 flex flex-col">
+        {newCommentCount > 0 && (
+          <button
+            type="button"
+            onClick={scrollToNewest}
+            className="absolute top-3 left-1/2 -translate-x-1/2 z-10 rounded-full bg-amber px-3 py-1 text-xs font-semibold text-black shadow-lg hover:bg-amber/90 animate-in fade-in slide-in-from-top-2"
+          >
+            {newCommentCount} new comment{newCommentCount !== 1 ? 's' : ''}
+          </button>
         )}
-        <div ref={commentsEndRef} />
+        <div
+          ref={commentsContainerRef}
+          className="flex-1 overflow-y-auto px-4 py-4 space-y-4"
+          onScroll={(e) => {
+            const el = e.currentTarget
+            if (el.scrollTop <= 80) {
+              setNewCommentCount(0)
+            }
+            if (el.scrollHeight - el.scrollTop - el.clientHeight < 200) {
+              loadOlderComments()
+            }
+          }}
+        >
+          {isLoading ? (
+            <div className="text-center text-white/60 py-8">Loading comments...</div>
+          ) : displayedComments.length === 0 ? (
+            <div className="text-center text-white/60 py-8">
+              <MessageSquare className="h-8 w-8 mx-auto mb-2 opacity-50" />
+              <p>No comments yet</p>
+              <p className="text-xs mt-1">Be the first to comment!</p>
+            </div>
+          ) : (
+            displayedComments.map((comment) => {
+              const replies = repliesByParent.get(comment.id) || []
+
+              return (
+                <div key={comment.id} className="space-y-2">
+                  {renderComment(comment, false)}
+                  {expandedThreads.has(comment.id) && replies.length > 0 && (
+                    <div className="ml-6 space-y-2 border-l border-white/10 pl-3">
+                      {replies.map((reply) => renderComment(reply, true))}
+                    </div>
+                  )}
+                </div>
+              )
+            })
+          )}
+          {isLoadingMore && (
+            <div className="text-center text-xs text-white/50 py-2">Loading older comments...</div>
+          )}
+        </div>
       </div>
 
       <Separator className="bg-white/10" />
@@ -522,16 +824,38 @@ export function CommentSidebar({ comicId, currentPageId, currentPageNumber, isVi
                 Comic
               </Button>
             </div> */}
+            {replyingTo && (
+              <div className="flex items-center justify-between rounded-md bg-white/5 px-3 py-1.5 text-xs text-white/70">
+                <span className="truncate">
+                  Replying to{' '}
+                  <span className="font-semibold text-white">
+                    {replyingTo.user.full_name || replyingTo.user.email || 'Anonymous'}
+                  </span>
+                </span>
+                <button
+                  type="button"
+                  onClick={() => setReplyingTo(null)}
+                  className="text-white/50 hover:text-white"
+                  aria-label="Cancel reply"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </div>
+            )}
             <div className="flex gap-2">
               <textarea
+                ref={commentInputRef}
                 value={commentContent}
                 onChange={(e) => setCommentContent(e.target.value)}
-                placeholder="Comment on this comic..."
+                placeholder={replyingTo ? 'Write a reply...' : 'Comment on this comic...'}
                 className="flex-1 bg-white/10 border border-white/20 rounded-md px-3 py-2 text-white text-sm resize-none focus:outline-none focus:ring-2 focus:ring-amber/50 placeholder:text-white/40"
                 rows={3}
                 maxLength={2000}
               />
             </div>
+            <p className="text-[11px] text-white/40">
+              **bold** &middot; *italic* &middot; [link](https://...) &middot; ||spoiler||
+            </p>
             <Button
               type="submit"
               disabled={!commentContent.trim() || isSubmitting}
@@ -539,7 +863,7 @@ export function CommentSidebar({ comicId, currentPageId, currentPageNumber, isVi
               size="sm"
             >
               <Send className="h-4 w-4 mr-2" />
-              {isSubmitting ? 'Posting...' : 'Post Comment'}
+              {isSubmitting ? 'Posting...' : replyingTo ? 'Post Reply' : 'Post Comment'}
             </Button>
           </form>
         ) : !isAuthenticated ? (
@@ -558,6 +882,13 @@ export function CommentSidebar({ comicId, currentPageId, currentPageNumber, isVi
           </div>
         )}
       </div>
+
+      <ReportCommentDialog
+        comicId={comicId}
+        comment={reportingComment}
+        onClose={() => setReportingComment(null)}
+        onReported={(commentId) => setReportedIds((prev) => new Set(prev).add(commentId))}
+      />
     </div>
   )
 }
@@ -0,0 +1,88 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { toast } from 'sonner'
+import { Heart } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { addFavorite, removeFavorite } from '@/lib/favorite-actions'
+
+interface FavoriteButtonProps {
+  comicId: string
+  initialIsFavorite: boolean
+  /** 'icon' for overlays like ComicCard, 'button' for the detail page */
+  variant?: 'icon' | 'button'
+  className?: string
+}
+
+export function FavoriteButton({
+  comicId,
+  initialIsFavorite,
+  variant = 'button',
+  className = '',
+}: FavoriteButtonProps) {
+  const router = useRouter()
+  const [isFavorite, setIsFavorite] = useState(initialIsFavorite)
+  const [isSaving, setIsSaving] = useState(false)
+  const [prevInitialIsFavorite, setPrevInitialIsFavorite] = useState(initialIsFavorite)
+
+  // Pick up a new favorite state from the server (e.g. after router.refresh())
+  if (initialIsFavorite !== prevInitialIsFavorite) {
+    setPrevInitialIsFavorite(initialIsFavorite)
+    setIsFavorite(initialIsFavorite)
+  }
+
+  const handleToggle = async () => {
+    if (isSaving) return
+
+    const next = !isFavorite
+    setIsFavorite(next)
+    setIsSaving(true)
+
+    const { error } = next ? await addFavorite(comicId) : await removeFavorite(comicId)
+
+    if (error) {
+      setIsFavorite(!next)
+      if (error === 'Authentication required') {
+        router.push(`/login?redirectTo=${encodeURIComponent(window.location.pathname)}`)
+      } else {
+        toast.error(error)
+      }
+    } else {
+      toast.success(next ? 'Added to your library' : 'Removed from your library')
+    }
+    setIsSaving(false)
+  }
+
+  const label = isFavorite ? 'Remove from library' : 'Add to library'
+
+  if (variant === 'icon') {
+    return (
+      <button
+        type="button"
+        onClick={handleToggle}
+        disabled={isSaving}
+        aria-pressed={isFavorite}
+        aria-label={label}
+        title={label}
+        className={`flex h-8 w-8 items-center justify-center rounded-full bg-black/60 backdrop-blur-sm transition-colors hover:bg-black/80 ${className}`}
+      >
+        <Heart className={`h-4 w-4 ${isFavorite ? 'fill-amber text-amber' : 'text-white'}`} />
+      </button>
+    )
+  }
+
+  return (
+    <Button
+      type="button"
+      variant="outline"
+      onClick={handleToggle}
+      disabled={isSaving}
+      aria-pressed={isFavorite}
+      className={`border-amber/30 ${className}`}
+    >
+      <Heart className={`mr-2 h-4 w-4 ${isFavorite ? 'fill-amber text-amber' : ''}`} />
+      {isFavorite ? 'In My Library' : 'Add to Library'}
+    </Button>
+  )
+}
@@ -0,0 +1,66 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import type { ComicPanel } from '@/types/database'
+
+const MAX_PANEL_SCALE = 4
+// Leave a little of the surrounding page visible around each panel
+const PANEL_FILL = 0.92
+
+interface GuidedPageViewProps {
+  children: React.ReactNode
+  panels: ComicPanel[]
+  panelIndex: number
+  /** Width / height of the page image */
+  aspectRatio: number
+}
+
+/**
+ * Shows a page fitted to the screen, zoomed and panned onto the current
+ * panel. Moving between panels animates; pages without panels stay whole.
+ */
+export function GuidedPageView({ children, panels, panelIndex, aspectRatio }: GuidedPageViewProps) {
+  const frameRef = useRef<HTMLDivElement>(null)
+  const [frame, setFrame] = useState({ width: 0, height: 0 })
+
+  useEffect(() => {
+    const element = frameRef.current
+    if (!element) return
+
+    const observer = new ResizeObserver(([entry]) => {
+      setFrame({ width: entry.contentRect.width, height: entry.contentRect.height })
+    })
+    observer.observe(element)
+    return () => observer.disconnect()
+  }, [])
+
+  // The largest box with the image's proportions that fits the screen, so
+  // panel fractions line up with the image
+  const pageWidth = Math.min(frame.width, frame.height * aspectRatio)
+  const pageHeight = pageWidth / aspectRatio
+
+  const panel = panels[panelIndex]
+  let transform = 'none'
+  if (panel && pageWidth > 0) {
+    const fit = Math.min(
+      frame.width / (panel.width * pageWidth),
+      frame.height / (panel.height * pageHeight)
+    )
+    const scale = Math.min(MAX_PANEL_SCALE, Math.max(1, fit * PANEL_FILL))
+    // Scaling is about the page's center, then the panel's center is moved there
+    const x = (0.5 - (panel.x + panel.width / 2)) * pageWidth * scale
+    const y = (0.5 - (panel.y + panel.height / 2)) * pageHeight * scale
+    transform = `translate(${x}px, ${y}px) scale(${scale})`
+  }
+
+  return (
+    <div ref={frameRef} className="absolute inset-0 flex items-center justify-center overflow-hidden">
+      <div
+        className="relative flex-shrink-0 transition-transform duration-500 ease-in-out"
+        style={{ width: pageWidth, height: pageHeight, transform }}
+      >
+        {children}
+      </div>
+    </div>
+  )
+}
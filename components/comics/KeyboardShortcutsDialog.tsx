@@ -0,0 +1,77 @@
+'use client'
+
+import Link from 'next/link'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { READER_ACTIONS, READER_ACTION_LABELS, formatKey } from '@/lib/reader-keymap'
+import type { ReaderKeyBindings } from '@/types/database'
+
+interface KeyboardShortcutsDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  bindings: ReaderKeyBindings
+  /** Right-to-left reading turns forward with the left key */
+  isRtl: boolean
+  /** Signed-in readers can change bindings on their profile */
+  canCustomize: boolean
+}
+
+export function KeyboardShortcutsDialog({
+  open,
+  onOpenChange,
+  bindings,
+  isRtl,
+  canCustomize,
+}: KeyboardShortcutsDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Keyboard shortcuts</DialogTitle>
+          <DialogDescription>
+            {isRtl
+              ? 'Reading right-to-left: turning left goes to the next page.'
+              : 'Turning right goes to the next page.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <dl className="max-h-[60vh] space-y-2 overflow-y-auto text-sm">
+          {READER_ACTIONS.map((action) => (
+            <div key={action} className="flex items-center justify-between gap-4">
+              <dt className="text-muted-foreground">{READER_ACTION_LABELS[action]}</dt>
+              <dd className="flex gap-1">
+                {bindings[action].length === 0 ? (
+                  <span className="text-xs text-muted-foreground">Not set</span>
+                ) : (
+                  bindings[action].map((key) => (
+                    <kbd
+                      key={key}
+                      className="min-w-6 rounded border border-border bg-muted px-1.5 py-0.5 text-center font-mono text-xs"
+                    >
+                      {formatKey(key)}
+                    </kbd>
+                  ))
+                )}
+              </dd>
+            </div>
+          ))}
+        </dl>
+
+        {canCustomize && (
+          <p className="text-xs text-muted-foreground">
+            Change these under Reader Preferences on your{' '}
+            <Link href="/profile" className="text-amber hover:underline">
+              profile
+            </Link>
+            .
+          </p>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
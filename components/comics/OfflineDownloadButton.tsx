@@ -0,0 +1,126 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { toast } from 'sonner'
+import { Download, CheckCircle2, Loader2, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { getOfflineBundle } from '@/lib/offline-actions'
+import {
+  isOfflineSupported,
+  getOfflineComic,
+  downloadComicForOffline,
+  removeOfflineComic,
+  type OfflineComic,
+} from '@/lib/offline-reading'
+import { formatDate } from '@/lib/utils'
+
+interface OfflineDownloadButtonProps {
+  comicId: string
+  className?: string
+}
+
+export function OfflineDownloadButton({ comicId, className = '' }: OfflineDownloadButtonProps) {
+  const router = useRouter()
+  const [isSupported, setIsSupported] = useState(false)
+  const [download, setDownload] = useState<OfflineComic | null>(null)
+  const [progress, setProgress] = useState<{ saved: number; total: number } | null>(null)
+
+  useEffect(() => {
+    if (!isOfflineSupported()) return
+
+    let cancelled = false
+    getOfflineComic(comicId)
+      .then((comic) => {
+        if (cancelled) return
+        setIsSupported(true)
+        setDownload(comic)
+      })
+      .catch((error) => console.error('Error reading offline download:', error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [comicId])
+
+  if (!isSupported) return null
+
+  const handleDownload = async () => {
+    if (progress) return
+    setProgress({ saved: 0, total: 0 })
+
+    const { data: bundle, error } = await getOfflineBundle(comicId)
+    if (error || !bundle) {
+      setProgress(null)
+      if (error === 'Authentication required') {
+        router.push(`/login?redirectTo=${encodeURIComponent(window.location.pathname)}`)
+      } else {
+        toast.error(error || 'Failed to prepare download')
+      }
+      return
+    }
+
+    try {
+      const comic = await downloadComicForOffline(bundle, (saved, total) => setProgress({ saved, total }))
+      setDownload(comic)
+      toast.success(`Saved ${comic.page_ids.length} pages for offline reading`)
+    } catch (error: any) {
+      console.error('Error downloading comic:', error)
+      toast.error(error.message || 'Download failed. Check your connection and try again.')
+    } finally {
+      setProgress(null)
+    }
+  }
+
+  const handleRemove = async () => {
+    await removeOfflineComic(comicId)
+    setDownload(null)
+    toast.success('Removed offline download')
+  }
+
+  if (download) {
+    return (
+      <div className={`flex items-center gap-2 ${className}`}>
+        <div className="flex flex-1 items-center gap-2 rounded-md border border-green-500/30 bg-green-500/10 px-3 py-2 text-sm">
+          <CheckCircle2 className="h-4 w-4 shrink-0 text-green-500" />
+          <span>
+            Available offline until {formatDate(download.expires_at)}
+          </span>
+        </div>
+        <Button
+          type="button"
+          variant="outline"
+          size="icon"
+          onClick={handleRemove}
+          className="border-border/50 shrink-0"
+          title="Remove offline download"
+          aria-label="Remove offline download"
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <Button
+      type="button"
+      variant="outline"
+      onClick={handleDownload}
+      disabled={!!progress}
+      className={`border-amber/30 ${className}`}
+    >
+      {progress ? (
+        <>
+          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          {progress.total > 0 ? `Downloading ${progress.saved}/${progress.total}` : 'Preparing download...'}
+        </>
+      ) : (
+        <>
+          <Download className="mr-2 h-4 w-4" />
+          Download for offline
+        </>
+      )}
+    </Button>
+  )
+}
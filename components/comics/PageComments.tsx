@@ -4,10 +4,25 @@ import { useState, useEffect, useRef, useCallback } from 'react'
 import { createClient } from '@/lib/supabase/client'
 import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar'
 import { Button } from '@/components/ui/button'
-import { Send, Share2 } from 'lucide-react'
-import type { CommentWithUser } from '@/types/database'
+import { Send, Share2, X, Flag, MapPin } from 'lucide-react'
+import type { CommentAnchor, CommentWithUser } from '@/types/database'
+import {
+  groupCommentThreads,
+  getReplyCount,
+  mergeComments,
+  replaceOptimisticComment,
+  fetchCommentWithUser,
+  applyCommentUpdate,
+  removeComment,
+  fetchGoneCommentIds,
+  COMMENT_RESYNC_INTERVAL_MS,
+} from '@/lib/comment-utils'
+import { parseCommentMarkup } from '@/lib/comment-markup'
 import Link from 'next/link'
 import { PlatformIcon, hasPlatformIcon } from '@/components/ui/platform-icon'
+import { ReportCommentDialog } from './ReportCommentDialog'
+import { CommentReactions, type CommentReactionState } from './CommentReactions'
+import { CommentContent } from './CommentContent'
 
 interface PageCommentsProps {
   comicId: string
@@ -15,6 +30,17 @@ interface PageCommentsProps {
   pageNumber: number
   /** Called when user clicks share for this page; only shown when user has subscription */
   onSharePage?: (pageNumber: number) => void
+  /** Called when the reader posts a comment anchored to part of the page */
+  onAnchoredComment?: (comment: CommentWithUser) => void
+  /**
+   * Point or region the next top-level comment is pinned to. Picked and drawn
+   * over the page image by the reader (CommentAnchorLayer).
+   */
+  pendingAnchor: CommentAnchor | null
+  onPendingAnchorChange: (anchor: CommentAnchor | null) => void
+  /** The reader is picking a spot; the comments step aside meanwhile */
+  isPickingAnchor: boolean
+  onPickAnchor: () => void
 }
 
 function formatRelativeTime(dateString: string): string {
@@ -55,10 +81,37 @@ function formatRelativeTime(dateString: string): string {
   return `${diffInYears}y`
 }
 
-export function PageComments({ comicId, pageId, pageNumber, onSharePage }: PageCommentsProps) {
+function sortOldestFirst(comments: CommentWithUser[]): CommentWithUser[] {
+  return [...comments].sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
+}
+
+export function PageComments({
+  comicId,
+  pageId,
+  pageNumber,
+  onSharePage,
+  onAnchoredComment,
+  pendingAnchor,
+  onPendingAnchorChange,
+  isPickingAnchor,
+  onPickAnchor,
+}: PageCommentsProps) {
   const ENTER_INTERVAL_MS = 3000
+  const POST_ERROR_DISMISS_MS = 6000
   const [comments, setComments] = useState<CommentWithUser[]>([])
   const [isLoading, setIsLoading] = useState(true)
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [isLoadingMore, setIsLoadingMore] = useState(false)
+  // Older comments loaded by scrolling up: shown at once and never faded
+  const historyIdsRef = useRef<Set<string>>(new Set())
+  // scrollHeight before prepending older comments, to keep the reader's place
+  const restoreScrollRef = useRef<number | null>(null)
+  // Auto-scroll only while the reader is at the newest (bottom) comments
+  const isAtBottomRef = useRef(true)
+  const [newCommentCount, setNewCommentCount] = useState(0)
+  const userIdRef = useRef<string | null>(null)
+  // Latest comments for the realtime resync, which runs outside render
+  const commentsRef = useRef<CommentWithUser[]>([])
   const [isAuthenticated, setIsAuthenticated] = useState(false)
   const [user, setUser] = useState<any>(null)
   const [userPlatform, setUserPlatform] = useState<string | null>(null)
@@ -77,7 +130,26 @@ export function PageComments({ comicId, pageId, pageNumber, onSharePage }: PageC
   const enterQueuedIdsRef = useRef<Set<string>>(new Set())
   const enterLoopTimerRef = useRef<NodeJS.Timeout | null>(null)
   const [showCommentInput, setShowCommentInput] = useState(false)
-  const [isSharing, setIsSharing] = useState(false)
+  const [replyingTo, setReplyingTo] = useState<CommentWithUser | null>(null)
+  const [expandedThreads, setExpandedThreads] = useState<Set<string>>(new Set())
+  // Server rejections (rate limits, blocked content) shown above the input
+  const [postError, setPostError] = useState<string | null>(null)
+  const [reportingComment, setReportingComment] = useState<CommentWithUser | null>(null)
+  const [reportedIds, setReportedIds] = useState<Set<string>>(new Set())
+  const [prevPendingAnchor, setPrevPendingAnchor] = useState(pendingAnchor)
+  const commentInputRef = useRef<HTMLInputElement>(null)
+
+  // A newly picked spot opens the input for its comment
+  if (pendingAnchor !== prevPendingAnchor) {
+    setPrevPendingAnchor(pendingAnchor)
+    if (pendingAnchor) setShowCommentInput(true)
+  }
+
+  useEffect(() => {
+    if (pendingAnchor) {
+      requestAnimationFrame(() => commentInputRef.current?.focus())
+    }
+  }, [pendingAnchor])
 
   // Check authentication and subscription
   useEffect(() => {
@@ -87,6 +159,7 @@ export function PageComments({ comicId, pageId, pageNumber, onSharePage }: PageC
       const { data: { user } } = await supabase.auth.getUser()
       setIsAuthenticated(!!user)
       setUser(user)
+      userIdRef.current = user?.id ?? null
 
       if (!user) {
         // Check for anonymous day pass
@@ -137,7 +210,7 @@ export function PageComments({ comicId, pageId, pageNumber, onSharePage }: PageC
     checkAuthAndSubscription()
   }, [])
 
-  // Fetch initial comments for this page
+  // Fetch the newest page of comments for this page; older pages load on scroll
   const fetchComments = useCallback(async () => {
     try {
       setIsLoading(true)
@@ -151,11 +224,9 @@ export function PageComments({ comicId, pageId, pageNumber, onSharePage }: PageC
       }
 
       // Sort by created_at ascending (oldest first, newest at bottom)
-      const sortedComments = (data.data || []).sort((a: CommentWithUser, b: CommentWithUser) => {
-        return new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
-      })
-
-      setComments(sortedComments)
+      setComments(sortOldestFirst(data.data || []))
+      setNextCursor(data.next_cursor ?? null)
+      historyIdsRef.current = new Set()
       // Reset fade state for all comments when fetching new data
       // Also clear all timers so new ones can be set up
       commentTimersRef.current.forEach((timer) => clearTimeout(timer))
@@ -172,34 +243,137 @@ export function PageComments({ comicId, pageId, pageNumber, onSharePage }: PageC
     fetchComments()
   }, [fetchComments])
 
-  // Set up real-time subscription for this specific page
+  // Prepend the next page of older comments when scrolled to the top
+  const loadOlderComments = useCallback(async () => {
+    if (!nextCursor || isLoadingMore) return
+
+    setIsLoadingMore(true)
+    try {
+      const response = await fetch(
+        `/api/comics/${comicId}/comments?page_id=${pageId}&cursor=${encodeURIComponent(nextCursor)}`
+      )
+      const data = await response.json()
+
+      if (data.error) {
+        console.error('Error fetching older comments:', data.error)
+        return
+      }
+
+      const older: CommentWithUser[] = data.data || []
+      older.forEach((comment) => historyIdsRef.current.add(comment.id))
+      restoreScrollRef.current = commentsContainerRef.current?.scrollHeight ?? null
+      setComments((prev) => sortOldestFirst(mergeComments(prev, older)))
+      setEnteredComments((prev) => {
+        const next = new Set(prev)
+        older.forEach((comment) => next.add(comment.id))
+        return next
+      })
+      setNextCursor(data.next_cursor ?? null)
+    } catch (error) {
+      console.error('Error fetching older comments:', error)
+    } finally {
+      setIsLoadingMore(false)
+    }
+  }, [comicId, pageId, nextCursor, isLoadingMore])
+
+  useEffect(() => {
+    commentsRef.current = comments
+  }, [comments])
+
+  // Merge other readers' inserts, edits and deletes on this page as they happen
   useEffect(() => {
     const supabase = createClient()
+
+    // Hide events only reach the author and admins, and any event can be missed
+    // while disconnected, so re-check that loaded comments are still visible
+    const dropGoneComments = async () => {
+      const goneIds = await fetchGoneCommentIds(supabase, commentsRef.current.map((comment) => comment.id))
+      if (goneIds.length > 0) {
+        setComments((prev) => goneIds.reduce(removeComment, prev))
+      }
+    }
+
     const channel = supabase
       .channel(`page-comments-${pageId}`)
       .on(
         'postgres_changes',
         {
-          event: '*',
+          event: 'INSERT',
+          schema: 'public',
+          table: 'comic_comments',
+          filter: `page_id=eq.${pageId}`,
+        },
+        async (payload) => {
+          // Payloads carry the bare row; load it with its author
+          const comment = await fetchCommentWithUser(supabase, payload.new.id)
+          if (!comment) return
+
+          setComments((prev) => sortOldestFirst(mergeComments(prev, [comment])))
+
+          if (!comment.parent_id && comment.user_id !== userIdRef.current && !isAtBottomRef.current) {
+            setNewCommentCount((count) => count + 1)
+          }
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'comic_comments',
+          filter: `page_id=eq.${pageId}`,
+        },
+        (payload) => {
+          setComments((prev) => applyCommentUpdate(prev, payload.new, userIdRef.current))
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          // Delete events can't be filtered; unknown ids are a no-op
+          event: 'DELETE',
           schema: 'public',
           table: 'comic_comments',
-          filter: `comic_id=eq.${comicId} AND page_id=eq.${pageId}`,
         },
         (payload) => {
-          // Refetch comments when changes occur
-          fetchComments()
+          if (payload.old?.id) {
+            setComments((prev) => removeComment(prev, payload.old.id))
+          }
         }
       )
-      .subscribe()
+      .subscribe((status) => {
+        // (Re)connected: catch up on comments hidden or deleted while away
+        if (status === 'SUBSCRIBED') dropGoneComments()
+      })
+
+    const resyncTimer = setInterval(dropGoneComments, COMMENT_RESYNC_INTERVAL_MS)
 
     return () => {
+      clearInterval(resyncTimer)
       supabase.removeChannel(channel)
     }
-  }, [comicId, pageId, fetchComments])
+  }, [pageId])
+
+  const scrollToNewest = () => {
+    const container = commentsContainerRef.current
+    if (container) {
+      container.scrollTo({ top: container.scrollHeight, behavior: 'smooth' })
+    }
+    isAtBottomRef.current = true
+    setNewCommentCount(0)
+  }
 
   // Auto-scroll to bottom when visible comments change
   useEffect(() => {
-    if (comments.length > 0 && commentsContainerRef.current) {
+    const container = commentsContainerRef.current
+    // Keep the reader's place when older comments were prepended
+    if (container && restoreScrollRef.current !== null) {
+      container.scrollTop += container.scrollHeight - restoreScrollRef.current
+      restoreScrollRef.current = null
+      return
+    }
+
+    if (comments.length > 0 && commentsContainerRef.current && isAtBottomRef.current) {
       requestAnimationFrame(() => {
         if (commentsContainerRef.current) {
           commentsContainerRef.current.scrollTop = commentsContainerRef.current.scrollHeight
@@ -222,6 +396,7 @@ export function PageComments({ comicId, pageId, pageNumber, onSharePage }: PageC
     // Start fade timers only after a comment has entered (so nothing fades before it appears)
     enteredComments.forEach((commentId) => {
       if (!currentCommentIds.has(commentId)) return
+      if (historyIdsRef.current.has(commentId)) return
       if (fadingComments.has(commentId) || commentTimersRef.current.has(commentId)) return
 
       const timer = setTimeout(() => {
@@ -240,9 +415,14 @@ export function PageComments({ comicId, pageId, pageNumber, onSharePage }: PageC
     }
   }, [])
 
-  // Reset enter state when switching pages
+  // Reset enter and thread state when switching pages
   useEffect(() => {
     setEnteredComments(new Set())
+    setNewCommentCount(0)
+    isAtBottomRef.current = true
+    setReplyingTo(null)
+    setExpandedThreads(new Set())
+    setPostError(null)
     enterQueueRef.current = []
     enterQueuedIdsRef.current = new Set()
     if (enterLoopTimerRef.current) {
@@ -251,10 +431,19 @@ export function PageComments({ comicId, pageId, pageNumber, onSharePage }: PageC
     }
   }, [comicId, pageId])
 
+  // Posting errors dismiss themselves after a few seconds
+  useEffect(() => {
+    if (!postError) return
+    const timer = setTimeout(() => setPostError(null), POST_ERROR_DISMISS_MS)
+    return () => clearTimeout(timer)
+  }, [postError])
+
   // Instagram-live style: reveal one comment every 3 seconds from the bottom.
+  // Only top-level comments enter; replies show inside their thread.
   useEffect(() => {
     // Enqueue any comments that haven't entered yet (oldest -> newest)
     for (const comment of comments) {
+      if (comment.parent_id) continue
       if (enteredComments.has(comment.id)) continue
       if (enterQueuedIdsRef.current.has(comment.id)) continue
       enterQueuedIdsRef.current.add(comment.id)
@@ -302,6 +491,12 @@ export function PageComments({ comicId, pageId, pageNumber, onSharePage }: PageC
     if (!isAuthenticated || !hasActiveSubscription || !commentContent.trim() || isSubmitting) return
 
     const contentToSubmit = commentContent.trim()
+    setPostError(null)
+    // Threads are one level deep: replying to a reply joins its parent's thread
+    const replyTarget = replyingTo
+    const threadId = replyTarget ? replyTarget.parent_id ?? replyTarget.id : null
+    // Replies join their thread; only new threads can be pinned
+    const anchor = replyTarget ? null : pendingAnchor
     setIsSubmitting(true)
 
     // Platform comes from profiles table (already populated on signup)
@@ -313,9 +508,15 @@ export function PageComments({ comicId, pageId, pageNumber, onSharePage }: PageC
       user_id: user.id,
       comic_id: comicId,
       page_id: pageId,
-      parent_id: null,
+      parent_id: threadId,
       content: contentToSubmit,
+      formatted: parseCommentMarkup(contentToSubmit),
       rating: null,
+      reply_count: 0,
+      reactions: {},
+      reaction_total: 0,
+      anchor,
+      my_reactions: [],
       created_at: new Date().toISOString(),
       updated_at: new Date().toISOString(),
       user: {
@@ -329,14 +530,15 @@ export function PageComments({ comicId, pageId, pageNumber, onSharePage }: PageC
     
     setComments((prev) => [...prev, optimisticComment])
       setCommentContent('')
+      setReplyingTo(null)
+      if (anchor) onPendingAnchorChange(null)
+      if (threadId) {
+        setExpandedThreads((prev) => new Set(prev).add(threadId))
+      }
       setShowCommentInput(false) // Hide input after submitting
       
       // Scroll to bottom to show new comment
-      setTimeout(() => {
-        if (commentsContainerRef.current) {
-          commentsContainerRef.current.scrollTop = 0
-        }
-      }, 100)
+      setTimeout(scrollToNewest, 100)
 
     try {
       const response = await fetch(`/api/comics/${comicId}/comments`, {
@@ -347,6 +549,8 @@ export function PageComments({ comicId, pageId, pageNumber, onSharePage }: PageC
         body: JSON.stringify({
           content: contentToSubmit,
           page_id: pageId, // Always include page_id for page-specific comments
+          parent_id: threadId,
+          anchor,
         }),
       })
 
@@ -357,14 +561,19 @@ export function PageComments({ comicId, pageId, pageNumber, onSharePage }: PageC
         // Remove optimistic comment on error
         setComments((prev) => prev.filter((c) => c.id !== optimisticComment.id))
         setCommentContent(contentToSubmit) // Restore content
+        setReplyingTo(replyTarget)
+        if (anchor) onPendingAnchorChange(anchor)
+        setPostError(data.error)
+        setShowCommentInput(true)
         return
       }
 
       // Replace optimistic comment with real one from server
       if (data.data) {
-        setComments((prev) => 
-          prev.map((c) => c.id === optimisticComment.id ? data.data : c)
-        )
+        setComments((prev) => replaceOptimisticComment(prev, optimisticComment.id, data.data))
+        if (data.data.anchor) {
+          onAnchoredComment?.(data.data)
+        }
       }
       
       // Comments will also be updated via real-time subscription as backup
@@ -373,71 +582,25 @@ export function PageComments({ comicId, pageId, pageNumber, onSharePage }: PageC
       // Remove optimistic comment on error
       setComments((prev) => prev.filter((c) => c.id !== optimisticComment.id))
       setCommentContent(contentToSubmit) // Restore content
+      setReplyingTo(replyTarget)
+      if (anchor) onPendingAnchorChange(anchor)
+      setPostError('Failed to post comment')
+      setShowCommentInput(true)
     } finally {
       setIsSubmitting(false)
     }
   }
 
-  const handleSharePage = async () => {
-    if (!onSharePage || !user || !isAuthenticated || !hasActiveSubscription || isSharing) return
-    const userName = user.user_metadata?.full_name || user.email || 'Someone'
-    const shareContent = `${userName} just shared this page ${pageNumber}`
-    setIsSharing(true)
-
-    const platform = userPlatform
-    const optimisticComment: CommentWithUser = {
-      id: `temp-share-${Date.now()}`,
-      user_id: user.id,
-      comic_id: comicId,
-      page_id: pageId,
-      parent_id: null,
-      content: shareContent,
-      rating: null,
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString(),
-      user: {
-        id: user.id,
-        full_name: user.user_metadata?.full_name || null,
-        avatar_url: user.user_metadata?.avatar_url || null,
-        email: user.email || null,
-        platform,
-      },
-    }
-    setComments((prev) => [...prev, optimisticComment])
-    setTimeout(() => {
-      if (commentsContainerRef.current) {
-        commentsContainerRef.current.scrollTop = 0
-      }
-    }, 100)
-
-    try {
-      const response = await fetch(`/api/comics/${comicId}/comments`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          content: shareContent,
-          page_id: pageId,
-        }),
-      })
-      const data = await response.json()
-      if (data.error) {
-        setComments((prev) => prev.filter((c) => c.id !== optimisticComment.id))
-      } else if (data.data) {
-        setComments((prev) =>
-          prev.map((c) => (c.id === optimisticComment.id ? data.data : c))
-        )
-      }
-    } catch (error) {
-      console.error('Error creating share comment:', error)
-      setComments((prev) => prev.filter((c) => c.id !== optimisticComment.id))
-    } finally {
-      setIsSharing(false)
-      onSharePage(pageNumber)
-    }
+  const handleReactionChange = (commentId: string, state: CommentReactionState) => {
+    setComments((prev) => prev.map((c) => (c.id === commentId ? { ...c, ...state } : c)))
   }
 
-  const handleDeleteComment = async (commentId: string) => {
-    if (!confirm('Are you sure you want to delete this comment?')) return
+  const handleDeleteComment = async (commentId: string, replyCount: number) => {
+    // Deleting a top-level comment removes its whole thread
+    const message = replyCount > 0
+      ? `Delete this comment and its ${replyCount} ${replyCount === 1 ? 'reply' : 'replies'}?`
+      : 'Are you sure you want to delete this comment?'
+    if (!confirm(message)) return
 
     try {
       const response = await fetch(`/api/comics/${comicId}/comments/${commentId}`, {
@@ -451,93 +614,222 @@ export function PageComments({ comicId, pageId, pageNumber, onSharePage }: PageC
         return
       }
 
-      // Comments will be updated via real-time subscription
+      // Remove the comment (and its thread) locally; the real-time subscription updates reply counts
+      setComments((prev) => removeComment(prev, commentId))
     } catch (error) {
       console.error('Error deleting comment:', error)
     }
   }
 
+  const handleReply = (comment: CommentWithUser) => {
+    setReplyingTo(comment)
+    setShowCommentInput(true)
+    requestAnimationFrame(() => commentInputRef.current?.focus())
+  }
+
+  const toggleThread = (commentId: string) => {
+    setExpandedThreads((prev) => {
+      const next = new Set(prev)
+      if (next.has(commentId)) {
+        next.delete(commentId)
+      } else {
+        next.add(commentId)
+      }
+      return next
+    })
+  }
+
+  const { topLevel, repliesByParent } = groupCommentThreads(comments)
+  const canReply = isAuthenticated && hasActiveSubscription
+  const canReport = (comment: CommentWithUser) =>
+    isAuthenticated && comment.user_id !== user?.id && !comment.id.startsWith('temp-')
+
   return (
-    <div className="absolute left-0 right-0 bottom-0 h-1/2 flex flex-col pointer-events-none z-10">
+    <>
+    <div className={`absolute left-0 right-0 bottom-0 h-1/2 flex flex-col pointer-events-none z-10 ${isPickingAnchor ? 'invisible' : ''}`}>
       <div className="flex-1 overflow-hidden flex flex-col pointer-events-auto">
         {/* Comments List - Instagram-live style (stack from bottom) */}
-        <div
-          ref={commentsContainerRef}
-          className="flex-1 overflow-y-auto overflow-x-hidden px-3 py-3 flex flex-col justify-end gap-2 [&::-webkit-scrollbar]:hidden [-ms-overflow-style:none] [scrollbar-width:none]"
-          onClick={() => setShowCommentInput(true)}
-        >
-          {isLoading ? (
-            <div className="text-center text-white/80 py-4 text-sm font-medium flex-shrink-0">Loading...</div>
-          ) : comments.length === 0 ? (
-            <div className="text-center text-white/70 py-4 text-sm font-medium flex-shrink-0">
+        <div className="relative flex-1 min-h-0 flex flex-col">
+          <div
+            ref={commentsContainerRef}
+            className="flex-1 overflow-y-auto overflow-x-hidden px-3 py-3 flex flex-col gap-2 [&::-webkit-scrollbar]:hidden [-ms-overflow-style:none] [scrollbar-width:none]"
+            onClick={() => setShowCommentInput(true)}
+            onScroll={(e) => {
+              const el = e.currentTarget
+              isAtBottomRef.current = el.scrollHeight - el.scrollTop - el.clientHeight < 60
+              if (isAtBottomRef.current) {
+                setNewCommentCount(0)
+              }
+              if (el.scrollTop < 40) {
+                loadOlderComments()
+              }
+            }}
+          >
+            {/* Spacer stacks comments from the bottom while keeping the top scrollable */}
+            <div className="mt-auto" />
+            {isLoadingMore && (
+              <div className="text-center text-white/70 py-1 text-xs font-medium flex-shrink-0">Loading older comments...</div>
+            )}
+            {isLoading ? (
+              <div className="text-center text-white/80 py-4 text-sm font-medium flex-shrink-0">Loading...</div>
+            ) : topLevel.length === 0 ? (
+              <div className="text-center text-white/70 py-4 text-sm font-medium flex-shrink-0">
              
-            </div>
-          ) : (
-            comments
-              .filter((comment) => enteredComments.has(comment.id))
-              .map((comment) => {
-              const isOwnComment = user && comment.user_id === user.id
-              const isFading = fadingComments.has(comment.id)
-
-              return (
-                <div
-                  key={comment.id}
-                  className={`px-3 py-2.5 w-1/2 rounded-lg will-change-transform animate-in fade-in slide-in-from-bottom-2 transition-all ease-out ${
-                    isFading ? 'opacity-0 -translate-y-20' : 'opacity-100 translate-y-0'
-                  }`}
-                  style={{
-                    background: 'transparent',
-                    transitionDuration: isFading ? '10000ms' : '500ms',
-                  }}
-                  onClick={(e) => e.stopPropagation()}
-                >
-                  <div className="flex items-start gap-2 h-full">
-                    {(() => {
-                      const showPlatformIcon = hasPlatformIcon(comment.user.platform)
-                      return (
-                        <Avatar className={`h-8 w-8 flex-shrink-0 ${showPlatformIcon ? 'border-0 shadow-none rounded-none' : 'border-2 border-amber/50 shadow-md'}`}>
-                          <AvatarImage src={showPlatformIcon ? undefined : (comment.user.avatar_url || undefined)} />
-                          <AvatarFallback className={`${showPlatformIcon ? 'bg-transparent rounded-none' : 'bg-amber/50'} text-amber font-bold text-sm flex items-center justify-center`}>
-                            {showPlatformIcon ? (
-                              <PlatformIcon platform={comment.user.platform} className="h-5 w-5" />
-                            ) : (
-                              comment.user.full_name?.charAt(0)?.toUpperCase() ||
-                              comment.user.email?.charAt(0)?.toUpperCase() ||
-                              'U'
-                            )}
-                          </AvatarFallback>
-                        </Avatar>
-                      )
-                    })()}
-                    <div className="flex-1 min-w-0 flex flex-col">
-                      <div className="flex items-center gap-2 mb-1">
-                        <p className="text-sm font-bold text-white leading-tight drop-shadow-lg" style={{ textShadow: '0 2px 4px rgba(0,0,0,0.8), 0 0 8px rgba(0,0,0,0.6)' }}>
-                          {comment.user.full_name || comment.user.email || 'Anonymous'}
+              </div>
+            ) : (
+              topLevel
+                .filter((comment) => enteredComments.has(comment.id))
+                .map((comment) => {
+                const isOwnComment = user && comment.user_id === user.id
+                const replies = repliesByParent.get(comment.id) || []
+                const replyCount = getReplyCount(comment, replies.length)
+                const isExpanded = expandedThreads.has(comment.id)
+                // Keep open threads on screen
+                const isFading = fadingComments.has(comment.id) && !isExpanded
+
+                return (
+                  <div
+                    key={comment.id}
+                    className={`px-3 py-2.5 w-1/2 rounded-lg will-change-transform animate-in fade-in slide-in-from-bottom-2 transition-all ease-out ${
+                      isFading ? 'opacity-0 -translate-y-20' : 'opacity-100 translate-y-0'
+                    }`}
+                    style={{
+                      background: 'transparent',
+                      transitionDuration: isFading ? '10000ms' : '500ms',
+                    }}
+                    onClick={(e) => e.stopPropagation()}
+                  >
+                    <div className="flex items-start gap-2 h-full">
+                      {(() => {
+                        const showPlatformIcon = hasPlatformIcon(comment.user.platform)
+                        return (
+                          <Avatar className={`h-8 w-8 flex-shrink-0 ${showPlatformIcon ? 'border-0 shadow-none rounded-none' : 'border-2 border-amber/50 shadow-md'}`}>
+                            <AvatarImage src={showPlatformIcon ? undefined : (comment.user.avatar_url || undefined)} />
+                            <AvatarFallback className={`${showPlatformIcon ? 'bg-transparent rounded-none' : 'bg-amber/50'} text-amber font-bold text-sm flex items-center justify-center`}>
+                              {showPlatformIcon ? (
+                                <PlatformIcon platform={comment.user.platform} className="h-5 w-5" />
+                              ) : (
+                                comment.user.full_name?.charAt(0)?.toUpperCase() ||
+                                comment.user.email?.charAt(0)?.toUpperCase() ||
+                                'U'
+                              )}
+                            </AvatarFallback>
+                          </Avatar>
+                        )
+                      })()}
+                      <div className="flex-1 min-w-0 flex flex-col">
+                        <div className="flex items-center gap-2 mb-1">
+                          <p className="text-sm font-bold text-white leading-tight drop-shadow-lg" style={{ textShadow: '0 2px 4px rgba(0,0,0,0.8), 0 0 8px rgba(0,0,0,0.6)' }}>
+                            {comment.user.full_name || comment.user.email || 'Anonymous'}
+                          </p>
+                          <span className="text-xs text-white font-medium drop-shadow-md" style={{ textShadow: '0 1px 2px rgba(0,0,0,0.8)' }}>
+                            {formatRelativeTime(comment.created_at)}
+                          </span>
+                        </div>
+                        <p className="text-sm text-white leading-relaxed break-words drop-shadow-lg line-clamp-3 font-medium" style={{ textShadow: '0 2px 4px rgba(0,0,0,0.8), 0 0 8px rgba(0,0,0,0.6)' }}>
+                          <CommentContent nodes={comment.formatted} />
                         </p>
-                        <span className="text-xs text-white font-medium drop-shadow-md" style={{ textShadow: '0 1px 2px rgba(0,0,0,0.8)' }}>
-                          {formatRelativeTime(comment.created_at)}
-                        </span>
+                        <CommentReactions
+                          comicId={comicId}
+                          comment={comment}
+                          canReact={isAuthenticated}
+                          onChange={handleReactionChange}
+                          variant="overlay"
+                        />
+                        {(canReply || canReport(comment) || replyCount > 0) && (
+                          <div className="flex items-center gap-3 mt-1 text-xs font-semibold text-white/80" style={{ textShadow: '0 1px 2px rgba(0,0,0,0.8)' }}>
+                            {canReply && (
+                              <button type="button" onClick={() => handleReply(comment)} className="hover:text-amber transition-colors">
+                                Reply
+                              </button>
+                            )}
+                            {replyCount > 0 && (
+                              <button type="button" onClick={() => toggleThread(comment.id)} className="hover:text-amber transition-colors">
+                                {isExpanded ? 'Hide replies' : `${replyCount} ${replyCount === 1 ? 'reply' : 'replies'}`}
+                              </button>
+                            )}
+                            {canReport(comment) && (
+                              reportedIds.has(comment.id) ? (
+                                <span className="text-white/50">Reported</span>
+                              ) : (
+                                <button type="button" onClick={() => setReportingComment(comment)} className="hover:text-red-400 transition-colors">
+                                  Report
+                                </button>
+                              )
+                            )}
+                          </div>
+                        )}
+                        {isExpanded && replies.length > 0 && (
+                          <div className="mt-2 space-y-1.5 border-l-2 border-white/30 pl-2">
+                            {replies.map((reply) => (
+                              <div key={reply.id} className="flex items-start gap-1.5">
+                                <p className="flex-1 min-w-0 text-xs text-white leading-snug break-words font-medium" style={{ textShadow: '0 2px 4px rgba(0,0,0,0.8), 0 0 8px rgba(0,0,0,0.6)' }}>
+                                  <span className="font-bold">{reply.user.full_name || reply.user.email || 'Anonymous'}</span>{' '}
+                                  <CommentContent nodes={reply.formatted} />
+                                </p>
+                                {user && reply.user_id === user.id && (
+                                  <button
+                                    onClick={() => handleDeleteComment(reply.id, 0)}
+                                    className="text-white/70 hover:text-red-400 text-sm font-bold flex-shrink-0 w-4 h-4 flex items-center justify-center rounded hover:bg-red-500/20 transition-colors"
+                                    title="Delete"
+                                  >
+                                    ×
+                                  </button>
+                                )}
+                                {canReport(reply) && !reportedIds.has(reply.id) && (
+                                  <button
+                                    onClick={() => setReportingComment(reply)}
+                                    className="text-white/50 hover:text-red-400 flex-shrink-0 w-4 h-4 flex items-center justify-center rounded hover:bg-red-500/20 transition-colors"
+                                    title="Report"
+                                  >
+                                    <Flag className="h-2.5 w-2.5" />
+                                  </button>
+                                )}
+                              </div>
+                            ))}
+                          </div>
+                        )}
                       </div>
-                      <p className="text-sm text-white leading-relaxed break-words drop-shadow-lg line-clamp-3 font-medium" style={{ textShadow: '0 2px 4px rgba(0,0,0,0.8), 0 0 8px rgba(0,0,0,0.6)' }}>
-                        {comment.content}
-                      </p>
+                      {isOwnComment && (
+                        <button
+                          onClick={() => handleDeleteComment(comment.id, replyCount)}
+                          className="text-white/70 hover:text-red-400 text-base font-bold flex-shrink-0 w-5 h-5 flex items-center justify-center rounded hover:bg-red-500/20 transition-colors"
+                          title="Delete"
+                        >
+                          ×
+                        </button>
+                      )}
                     </div>
-                    {isOwnComment && (
-                      <button
-                        onClick={() => handleDeleteComment(comment.id)}
-                        className="text-white/70 hover:text-red-400 text-base font-bold flex-shrink-0 w-5 h-5 flex items-center justify-center rounded hover:bg-red-500/20 transition-colors"
-                        title="Delete"
-                      >
-                        ×
-                      </button>
-                    )}
                   </div>
-                </div>
-              )
-            })
+                )
+              })
+            )}
+          </div>
+          {newCommentCount > 0 && (
+            <button
+              type="button"
+              onClick={scrollToNewest}
+              className="absolute bottom-2 left-3 rounded-full bg-amber px-3 py-1 text-xs font-bold text-black shadow-lg hover:bg-amber/90 animate-in fade-in slide-in-from-bottom-2"
+            >
+              {newCommentCount} new comment{newCommentCount !== 1 ? 's' : ''}
+            </button>
           )}
         </div>
 
+        {postError && (
+          <div className="mx-3 mb-2 flex items-start gap-2 rounded-lg bg-red-500/90 px-3 py-2 text-xs font-semibold text-white shadow-lg animate-in fade-in slide-in-from-bottom-2 flex-shrink-0">
+            <p className="flex-1">{postError}</p>
+            <button
+              type="button"
+              onClick={() => setPostError(null)}
+              className="text-white/80 hover:text-white"
+              aria-label="Dismiss"
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </div>
+        )}
+
         {/* Comment Input */}
         {showCommentInput && (
         <div className="border-t border-white/30 bg-black/95 backdrop-blur-md flex-shrink-0">
@@ -545,16 +837,68 @@ export function PageComments({ comicId, pageId, pageNumber, onSharePage }: PageC
             <div className="px-3 pb-3 pt-3 text-center text-white/60 text-sm">Checking subscription...</div>
           ) : isAuthenticated && hasActiveSubscription ? (
             <form onSubmit={handleSubmitComment} className="px-3 pb-3 pt-3">
+              {replyingTo && (
+                <div className="flex items-center justify-between mb-2 text-xs text-white/70">
+                  <span className="truncate">
+                    Replying to{' '}
+                    <span className="font-semibold text-white">
+                      {replyingTo.user.full_name || replyingTo.user.email || 'Anonymous'}
+                    </span>
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => setReplyingTo(null)}
+                    className="text-white/60 hover:text-white"
+                    aria-label="Cancel reply"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </div>
+              )}
+              {pendingAnchor && !replyingTo && (
+                <div className="flex items-center justify-between mb-2 text-xs text-white/70">
+                  <span className="flex items-center gap-1 truncate">
+                    <MapPin className="h-3 w-3 text-amber" />
+                    Pinned to {pendingAnchor.width !== null ? 'a region' : 'a spot'} on this page
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => onPendingAnchorChange(null)}
+                    className="text-white/60 hover:text-white"
+                    aria-label="Remove pin"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </div>
+              )}
               <div className="flex gap-2 items-center">
                 <input
+                  ref={commentInputRef}
                   type="text"
                   value={commentContent}
                   onChange={(e) => setCommentContent(e.target.value)}
-                  placeholder="Add a comment..."
+                  placeholder={replyingTo ? 'Write a reply...' : 'Add a comment...'}
                   className="flex-1 bg-white/30 border-2 border-white/40 rounded-lg px-3 py-2 text-white text-sm font-medium placeholder:text-white/60 focus:outline-none focus:ring-2 focus:ring-amber focus:border-amber transition-all shadow-lg"
                   maxLength={2000}
                   disabled={isSubmitting}
                 />
+                {!replyingTo && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      onPickAnchor()
+                    }}
+                    className={`border-2 h-9 px-3 flex-shrink-0 shadow-lg hover:bg-white/20 hover:text-white ${
+                      pendingAnchor ? 'border-amber text-amber' : 'border-white/40 text-white'
+                    }`}
+                    title="Pin to a spot on the page"
+                  >
+                    <MapPin className="h-4 w-4" />
+                  </Button>
+                )}
                 
                 <Button
                   type="submit"
@@ -572,13 +916,12 @@ export function PageComments({ comicId, pageId, pageNumber, onSharePage }: PageC
                     onClick={(e) => {
                       e.preventDefault()
                       e.stopPropagation()
-                      handleSharePage()
+                      onSharePage(pageNumber)
                     }}
-                    disabled={isSharing}
                     className="border-2 border-white/40 text-white hover:bg-white/20 hover:text-white h-9 px-3 flex-shrink-0 shadow-lg"
                     title="Share this page"
                   >
-                    <Share2 className={`h-4 w-4 ${isSharing ? 'animate-pulse' : ''}`} />
+                    <Share2 className="h-4 w-4" />
                   </Button>
                 )}
               </div>
@@ -611,6 +954,14 @@ export function PageComments({ comicId, pageId, pageNumber, onSharePage }: PageC
         </div>
         )}
       </div>
+
+      <ReportCommentDialog
+        comicId={comicId}
+        comment={reportingComment}
+        onClose={() => setReportingComment(null)}
+        onReported={(commentId) => setReportedIds((prev) => new Set(prev).add(commentId))}
+      />
     </div>
+    </>
   )
 }
@@ -0,0 +1,108 @@
+'use client'
+
+import { useState } from 'react'
+import Image from 'next/image'
+
+/** Quality of the blurred stand-in shown while the full page loads */
+const PLACEHOLDER_QUALITY = 20
+const FULL_QUALITY = 75
+const DATA_SAVER_QUALITY = 50
+
+/**
+ * Rendered width of a page in each reading mode. Data saver asks for half
+ * the width, so high-density screens get a 1x rendition instead of 2x.
+ */
+const PAGE_SIZES = {
+  vertical: { full: '(max-width: 896px) 100vw, 896px', dataSaver: '(max-width: 896px) 50vw, 448px' },
+  horizontal: { full: '60vh', dataSaver: '30vh' },
+  /** Full two-page spreads in horizontal modes */
+  wide: { full: '120vh', dataSaver: '60vh' },
+  /** Guided view zooms into panels, so it asks for a screen-wide rendition */
+  guided: { full: '100vw', dataSaver: '50vw' },
+}
+
+interface ReaderPageImageProps {
+  src: string
+  alt: string
+  layout: keyof typeof PAGE_SIZES
+  /** Load the full page now: it's the current page or within the prefetch window */
+  shouldLoad: boolean
+  dataSaver: boolean
+  priority?: boolean
+  /** Images served by the offline service worker skip optimization and placeholders */
+  unoptimized?: boolean
+  className?: string
+  onClick?: (e: React.MouseEvent) => void
+  onError?: () => void
+  /** Intrinsic size of the full image once it loads */
+  onNaturalSize?: (width: number, height: number) => void
+}
+
+/**
+ * A reader page that shows a small blurred rendition until the full
+ * resolution image is requested and loaded, then fades it in. Pages outside
+ * the prefetch window only fetch the placeholder.
+ */
+export function ReaderPageImage({
+  src,
+  alt,
+  layout,
+  shouldLoad,
+  dataSaver,
+  priority = false,
+  unoptimized = false,
+  className = '',
+  onClick,
+  onError,
+  onNaturalSize,
+}: ReaderPageImageProps) {
+  const [loadedSrc, setLoadedSrc] = useState<string | null>(null)
+  const [requestedSrc, setRequestedSrc] = useState<string | null>(null)
+
+  // Once requested, keep the full page so scrolling back doesn't refetch it
+  if ((shouldLoad || priority) && requestedSrc !== src) {
+    setRequestedSrc(src)
+  }
+
+  const isRequested = requestedSrc === src || shouldLoad || priority
+  const isLoaded = loadedSrc === src
+  const sizes = dataSaver ? PAGE_SIZES[layout].dataSaver : PAGE_SIZES[layout].full
+
+  return (
+    <>
+      {!unoptimized && !isLoaded && (
+        <Image
+          src={src}
+          alt=""
+          aria-hidden
+          fill
+          sizes="64px"
+          quality={PLACEHOLDER_QUALITY}
+          className={`object-contain blur-md ${className}`}
+          onClick={onClick}
+        />
+      )}
+      {isRequested && (
+        <Image
+          src={src}
+          alt={alt}
+          fill
+          sizes={sizes}
+          quality={dataSaver ? DATA_SAVER_QUALITY : FULL_QUALITY}
+          unoptimized={unoptimized}
+          priority={priority}
+          loading={priority ? undefined : 'eager'}
+          className={`object-contain transition-opacity duration-300 ${
+            isLoaded || unoptimized ? 'opacity-100' : 'opacity-0'
+          } ${className}`}
+          onClick={onClick}
+          onLoad={(e) => {
+            setLoadedSrc(src)
+            onNaturalSize?.(e.currentTarget.naturalWidth, e.currentTarget.naturalHeight)
+          }}
+          onError={onError}
+        />
+      )}
+    </>
+  )
+}
@@ -0,0 +1,129 @@
+'use client'
+
+import { useState } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { COMMENT_REPORT_REASONS } from '@/lib/comment-utils'
+import type { CommentReportReason, CommentWithUser } from '@/types/database'
+
+interface ReportCommentDialogProps {
+  comicId: string
+  /** Comment being reported; the dialog is open while this is set */
+  comment: CommentWithUser | null
+  onClose: () => void
+  /** Called once the comment is reported (or was already reported by this user) */
+  onReported: (commentId: string) => void
+}
+
+export function ReportCommentDialog({ comicId, comment, onClose, onReported }: ReportCommentDialogProps) {
+  const [reason, setReason] = useState<CommentReportReason | null>(null)
+  const [details, setDetails] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleOpenChange = (open: boolean) => {
+    if (open) return
+    setReason(null)
+    setDetails('')
+    setError(null)
+    onClose()
+  }
+
+  const handleSubmit = async () => {
+    if (!comment || !reason) return
+
+    setIsSubmitting(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/comics/${comicId}/comments/${comment.id}/report`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reason, details: details.trim() || null }),
+      })
+      const data = await response.json()
+
+      // 409: already reported by this user, which is the outcome they wanted
+      if (!response.ok && response.status !== 409) {
+        setError(data.error || 'Failed to report comment')
+        return
+      }
+
+      onReported(comment.id)
+      handleOpenChange(false)
+    } catch (err) {
+      console.error('Error reporting comment:', err)
+      setError('Failed to report comment')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={!!comment} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-md bg-zinc-900 border-zinc-700 text-white z-[70]">
+        <DialogHeader>
+          <DialogTitle>Report comment</DialogTitle>
+          <DialogDescription className="text-zinc-400">
+            Tell us what&apos;s wrong. Reports are anonymous to the commenter.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2" role="radiogroup" aria-label="Report reason">
+          {COMMENT_REPORT_REASONS.map((option) => (
+            <label
+              key={option.value}
+              className={`flex items-center gap-3 rounded-md border px-3 py-2 text-sm cursor-pointer transition-colors ${
+                reason === option.value
+                  ? 'border-amber bg-amber/10 text-white'
+                  : 'border-zinc-700 text-white/80 hover:bg-white/5'
+              }`}
+            >
+              <input
+                type="radio"
+                name="report-reason"
+                value={option.value}
+                checked={reason === option.value}
+                onChange={() => setReason(option.value)}
+                className="accent-amber"
+              />
+              {option.label}
+            </label>
+          ))}
+        </div>
+        <textarea
+          value={details}
+          onChange={(e) => setDetails(e.target.value)}
+          maxLength={500}
+          rows={3}
+          placeholder="Add details (optional)"
+          className="w-full bg-white/10 border border-white/20 rounded-md px-3 py-2 text-white text-sm resize-none focus:outline-none focus:ring-2 focus:ring-amber/50"
+        />
+        {error && <p className="text-xs text-red-400">{error}</p>}
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="ghost"
+            onClick={() => handleOpenChange(false)}
+            className="text-white/70 hover:text-white hover:bg-white/10"
+          >
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            onClick={handleSubmit}
+            disabled={!reason || isSubmitting}
+            className="bg-amber hover:bg-amber/90 text-black"
+          >
+            {isSubmitting ? 'Reporting…' : 'Report'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
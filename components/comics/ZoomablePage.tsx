@@ -0,0 +1,279 @@
+'use client'
+
+import { useCallback, useEffect, useImperativeHandle, useRef, useState } from 'react'
+
+/** Two taps or clicks within this window are a double tap */
+export const DOUBLE_TAP_MS = 300
+
+const MIN_SCALE = 1
+const MAX_SCALE = 4
+const DOUBLE_TAP_SCALE = 2.5
+// Each zoom in/out keypress
+const KEYBOARD_ZOOM_STEP = 1.25
+// Movement before a press counts as a drag rather than a tap
+const DRAG_THRESHOLD_PX = 4
+
+interface Transform {
+  scale: number
+  x: number
+  y: number
+}
+
+const IDENTITY: Transform = { scale: 1, x: 0, y: 0 }
+
+/** Zoom about the page's center, for the reader's keyboard shortcuts */
+export interface ZoomControls {
+  zoomIn: () => void
+  zoomOut: () => void
+  reset: () => void
+}
+
+interface ZoomablePageProps {
+  children: React.ReactNode
+  /** Only the page(s) on screen respond to zoom gestures */
+  active: boolean
+  /** Zoom resets whenever this changes (the current page) */
+  resetKey: number
+  /** Called when a double tap zooms, so the reader can drop the first tap's page turn */
+  onDoubleTap?: () => void
+  /** Set on the current page so keyboard shortcuts can zoom it */
+  controlsRef?: React.Ref<ZoomControls>
+}
+
+/**
+ * Pinch, ctrl/cmd + wheel and double-tap zoom for a reader page, with drag to
+ * pan while zoomed. At 1x it stays out of the way: single-finger swipes scroll
+ * the reader and taps reach the page as usual. While zoomed, taps don't turn
+ * pages; double-tap to zoom back out.
+ */
+export function ZoomablePage({ children, active, resetKey, onDoubleTap, controlsRef }: ZoomablePageProps) {
+  const frameRef = useRef<HTMLDivElement>(null)
+  const [transform, setTransform] = useState<Transform>(IDENTITY)
+  const transformRef = useRef<Transform>(IDENTITY)
+  const gestureRef = useRef<{
+    pinch: { distance: number; scale: number; midX: number; midY: number } | null
+    pan: { clientX: number; clientY: number } | null
+    moved: boolean
+  }>({ pinch: null, pan: null, moved: false })
+  const lastTapRef = useRef<{ time: number; clientX: number; clientY: number } | null>(null)
+
+  const [lastResetKey, setLastResetKey] = useState(resetKey)
+  if (resetKey !== lastResetKey) {
+    setLastResetKey(resetKey)
+    setTransform(IDENTITY)
+  }
+  if (!active && transform !== IDENTITY) {
+    setTransform(IDENTITY)
+  }
+
+  const applyTransform = useCallback((next: Transform) => {
+    const frame = frameRef.current
+    if (!frame) return
+
+    // Keep the zoomed page covering its frame
+    const scale = Math.min(MAX_SCALE, Math.max(MIN_SCALE, next.scale))
+    const clamped = scale === 1 ? IDENTITY : {
+      scale,
+      x: Math.min(0, Math.max(frame.clientWidth * (1 - scale), next.x)),
+      y: Math.min(0, Math.max(frame.clientHeight * (1 - scale), next.y)),
+    }
+    transformRef.current = clamped
+    setTransform(clamped)
+  }, [])
+
+  /** Zoom to scale, keeping the point under (clientX, clientY) in place */
+  const zoomAt = useCallback((scale: number, clientX: number, clientY: number) => {
+    const frame = frameRef.current
+    if (!frame) return
+    const rect = frame.getBoundingClientRect()
+    const current = transformRef.current
+    const pointX = clientX - rect.left
+    const pointY = clientY - rect.top
+    const ratio = Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale)) / current.scale
+    applyTransform({
+      scale: current.scale * ratio,
+      x: pointX - (pointX - current.x) * ratio,
+      y: pointY - (pointY - current.y) * ratio,
+    })
+  }, [applyTransform])
+
+  const panBy = useCallback((dx: number, dy: number) => {
+    const current = transformRef.current
+    applyTransform({ ...current, x: current.x + dx, y: current.y + dy })
+  }, [applyTransform])
+
+  useImperativeHandle(controlsRef, () => {
+    const zoomAtCenter = (scale: number) => {
+      const rect = frameRef.current?.getBoundingClientRect()
+      if (rect) zoomAt(scale, rect.left + rect.width / 2, rect.top + rect.height / 2)
+    }
+    return {
+      zoomIn: () => zoomAtCenter(transformRef.current.scale * KEYBOARD_ZOOM_STEP),
+      zoomOut: () => zoomAtCenter(transformRef.current.scale / KEYBOARD_ZOOM_STEP),
+      reset: () => applyTransform(IDENTITY),
+    }
+  }, [zoomAt, applyTransform])
+
+  // Reset the ref alongside state resets made during render
+  useEffect(() => {
+    transformRef.current = transform
+  }, [transform])
+
+  // Wheel and touch listeners need passive: false to stop the browser's own scroll and zoom
+  useEffect(() => {
+    const frame = frameRef.current
+    if (!frame || !active) return
+
+    const handleWheel = (e: WheelEvent) => {
+      // Plain wheel scrolls the reader; trackpad pinches arrive as ctrl + wheel
+      if (!e.ctrlKey && !e.metaKey) return
+      e.preventDefault()
+      zoomAt(transformRef.current.scale * Math.exp(-e.deltaY * 0.01), e.clientX, e.clientY)
+    }
+
+    const handleTouchStart = (e: TouchEvent) => {
+      if ((e.target as HTMLElement).closest('[data-zoom-ignore]')) return
+      const gesture = gestureRef.current
+      if (e.touches.length === 2) {
+        const [a, b] = [e.touches[0], e.touches[1]]
+        gesture.pinch = {
+          distance: Math.hypot(a.clientX - b.clientX, a.clientY - b.clientY),
+          scale: transformRef.current.scale,
+          midX: (a.clientX + b.clientX) / 2,
+          midY: (a.clientY + b.clientY) / 2,
+        }
+        gesture.pan = null
+      } else if (e.touches.length === 1 && transformRef.current.scale > 1) {
+        gesture.pan = { clientX: e.touches[0].clientX, clientY: e.touches[0].clientY }
+        gesture.moved = false
+      }
+    }
+
+    const handleTouchMove = (e: TouchEvent) => {
+      const gesture = gestureRef.current
+      if (gesture.pinch && e.touches.length === 2) {
+        e.preventDefault()
+        const [a, b] = [e.touches[0], e.touches[1]]
+        const distance = Math.hypot(a.clientX - b.clientX, a.clientY - b.clientY)
+        const midX = (a.clientX + b.clientX) / 2
+        const midY = (a.clientY + b.clientY) / 2
+        zoomAt(gesture.pinch.scale * (distance / gesture.pinch.distance), midX, midY)
+        panBy(midX - gesture.pinch.midX, midY - gesture.pinch.midY)
+        gesture.pinch = { ...gesture.pinch, midX, midY }
+        gesture.moved = true
+      } else if (gesture.pan && e.touches.length === 1) {
+        // Only a zoomed page captures one-finger drags; at 1x they scroll the reader
+        e.preventDefault()
+        const touch = e.touches[0]
+        const dx = touch.clientX - gesture.pan.clientX
+        const dy = touch.clientY - gesture.pan.clientY
+        if (Math.hypot(dx, dy) > DRAG_THRESHOLD_PX) gesture.moved = true
+        panBy(dx, dy)
+        gesture.pan = { clientX: touch.clientX, clientY: touch.clientY }
+      }
+    }
+
+    const handleTouchEnd = (e: TouchEvent) => {
+      const gesture = gestureRef.current
+      if (e.touches.length < 2) gesture.pinch = null
+      if (e.touches.length === 0) gesture.pan = null
+    }
+
+    frame.addEventListener('wheel', handleWheel, { passive: false })
+    frame.addEventListener('touchstart', handleTouchStart, { passive: true })
+    frame.addEventListener('touchmove', handleTouchMove, { passive: false })
+    frame.addEventListener('touchend', handleTouchEnd)
+    frame.addEventListener('touchcancel', handleTouchEnd)
+    return () => {
+      frame.removeEventListener('wheel', handleWheel)
+      frame.removeEventListener('touchstart', handleTouchStart)
+      frame.removeEventListener('touchmove', handleTouchMove)
+      frame.removeEventListener('touchend', handleTouchEnd)
+      frame.removeEventListener('touchcancel', handleTouchEnd)
+    }
+  }, [active, zoomAt, panBy])
+
+  // Mouse drag to pan while zoomed
+  const handleMouseDown = (e: React.MouseEvent) => {
+    if (!active || e.button !== 0 || transformRef.current.scale === 1) return
+    e.preventDefault()
+    const gesture = gestureRef.current
+    gesture.pan = { clientX: e.clientX, clientY: e.clientY }
+    gesture.moved = false
+
+    const handleMouseMove = (moveEvent: MouseEvent) => {
+      if (!gesture.pan) return
+      const dx = moveEvent.clientX - gesture.pan.clientX
+      const dy = moveEvent.clientY - gesture.pan.clientY
+      if (Math.hypot(dx, dy) > DRAG_THRESHOLD_PX) gesture.moved = true
+      panBy(dx, dy)
+      gesture.pan = { clientX: moveEvent.clientX, clientY: moveEvent.clientY }
+    }
+    const handleMouseUp = () => {
+      gesture.pan = null
+      window.removeEventListener('mousemove', handleMouseMove)
+      window.removeEventListener('mouseup', handleMouseUp)
+    }
+    window.addEventListener('mousemove', handleMouseMove)
+    window.addEventListener('mouseup', handleMouseUp)
+  }
+
+  // Runs before the page's own click handler (tap zones, page select)
+  const handleClickCapture = (e: React.MouseEvent) => {
+    if (!active) return
+    const gesture = gestureRef.current
+
+    // The end of a pan or pinch isn't a tap
+    if (gesture.moved) {
+      gesture.moved = false
+      e.stopPropagation()
+      return
+    }
+
+    // Comment markers and other controls on the page keep working while zoomed
+    if ((e.target as HTMLElement).closest('button, [data-zoom-ignore]')) return
+
+    const now = Date.now()
+    const lastTap = lastTapRef.current
+    const isDoubleTap = lastTap
+      && now - lastTap.time < DOUBLE_TAP_MS
+      && Math.hypot(e.clientX - lastTap.clientX, e.clientY - lastTap.clientY) < 30
+    lastTapRef.current = isDoubleTap ? null : { time: now, clientX: e.clientX, clientY: e.clientY }
+
+    if (isDoubleTap) {
+      e.stopPropagation()
+      onDoubleTap?.()
+      if (transformRef.current.scale > 1) {
+        applyTransform(IDENTITY)
+      } else {
+        zoomAt(DOUBLE_TAP_SCALE, e.clientX, e.clientY)
+      }
+      return
+    }
+
+    // Zoomed taps don't turn pages or toggle the controls
+    if (transformRef.current.scale > 1) {
+      e.stopPropagation()
+    }
+  }
+
+  const isZoomed = transform.scale > 1
+
+  return (
+    <div
+      ref={frameRef}
+      className="absolute inset-0 overflow-hidden"
+      // At 1x the browser keeps native scrolling; zoomed, every gesture pans the page
+      style={{ touchAction: isZoomed ? 'none' : 'manipulation' }}
+      onMouseDown={handleMouseDown}
+      onClickCapture={handleClickCapture}
+    >
+      <div
+        className={`relative h-full w-full origin-top-left ${isZoomed ? 'cursor-grab active:cursor-grabbing' : ''}`}
+        style={{ transform: `translate(${transform.x}px, ${transform.y}px) scale(${transform.scale})` }}
+      >
+        {children}
+      </div>
+    </div>
+  )
+}
@@ -5,9 +5,10 @@ import type { Comic } from '@/types/database'
 
 interface PopularSectionProps {
   comics: (Comic & { cover_image_url: string | null })[]
+  favoriteIds?: string[]
 }
 
-export function PopularSection({ comics }: PopularSectionProps) {
+export function PopularSection({ comics, favoriteIds = [] }: PopularSectionProps) {
   return (
     <section className="relative py-16">
       <div className="mx-auto max-w-7xl px-4 sm:px-6 lg:px-8">
@@ -44,7 +45,7 @@ export function PopularSection({ comics }: PopularSectionProps) {
           ) : (
             <div className="grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-4">
               {comics.map((comic) => (
-                <ComicCard key={comic.id} comic={comic} />
+                <ComicCard key={comic.id} comic={comic} isFavorite={favoriteIds.includes(comic.id)} />
               ))}
             </div>
           )}
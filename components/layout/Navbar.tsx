@@ -15,6 +15,8 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu'
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar'
+import { SearchBox } from '@/components/layout/SearchBox'
+import { NotificationBell } from '@/components/layout/NotificationBell'
 import { Menu, X, User as UserIcon, LogOut, Crown, Facebook, Instagram, BookOpen } from 'lucide-react'
 
 export function Navbar() {
@@ -135,6 +137,9 @@ export function Navbar() {
 
           {/* Social Links & User */}
           <div className="flex items-center gap-3">
+            {/* Search */}
+            <SearchBox className="hidden md:block w-44 lg:w-56 xl:w-64" />
+
             {/* Social Icons */}
             <div className="hidden sm:flex items-center gap-1.5">
               <a
@@ -175,6 +180,9 @@ export function Navbar() {
               </a>
             </div>
 
+            {/* Notifications */}
+            {!isLoading && user && <NotificationBell userId={user.id} />}
+
             {/* User Menu */}
             {isLoading ? (
               <div className="h-9 w-9 rounded-full bg-white/10 animate-pulse" />
@@ -267,6 +275,7 @@ export function Navbar() {
         {isMenuOpen && (
           <div className="md:hidden border-t border-white/10 py-4 bg-black/60 backdrop-blur-md -mx-4 px-4">
             <div className="flex flex-col gap-1">
+              <SearchBox className="mb-2" onNavigate={() => setIsMenuOpen(false)} />
               {navLinks.map((link) => (
                 <Link
                   key={link.href}
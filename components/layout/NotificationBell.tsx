@@ -0,0 +1,203 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useRouter } from 'next/navigation'
+import { createClient } from '@/lib/supabase/client'
+import { getNotifications, markNotificationsRead } from '@/lib/notification-actions'
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar'
+import { Bell } from 'lucide-react'
+import type { NotificationWithDetails } from '@/types/database'
+
+interface NotificationBellProps {
+  userId: string
+}
+
+function formatRelativeTime(dateString: string): string {
+  const diffInMinutes = Math.floor((Date.now() - new Date(dateString).getTime()) / 60000)
+
+  if (diffInMinutes < 1) return 'just now'
+  if (diffInMinutes < 60) return `${diffInMinutes}m ago`
+
+  const diffInHours = Math.floor(diffInMinutes / 60)
+  if (diffInHours < 24) return `${diffInHours}h ago`
+
+  const diffInDays = Math.floor(diffInHours / 24)
+  if (diffInDays < 7) return `${diffInDays}d ago`
+
+  return new Date(dateString).toLocaleDateString()
+}
+
+/** Link to the comic page (when known) with the comment to highlight */
+function notificationHref(notification: NotificationWithDetails): string {
+  const params = new URLSearchParams()
+  if (notification.page_id) params.set('page_id', notification.page_id)
+  params.set('comment', notification.comment_id)
+  return `/comics/read/${notification.comic_id}?${params.toString()}`
+}
+
+export function NotificationBell({ userId }: NotificationBellProps) {
+  const router = useRouter()
+  const [notifications, setNotifications] = useState<NotificationWithDetails[]>([])
+  const [unreadCount, setUnreadCount] = useState(0)
+
+  const fetchNotifications = useCallback(async () => {
+    const { data, error } = await getNotifications()
+    if (error || !data) {
+      console.error('Error loading notifications:', error)
+      return null
+    }
+    return data
+  }, [])
+
+  const showNotifications = useCallback((data: Awaited<ReturnType<typeof fetchNotifications>>) => {
+    if (!data) return
+    setNotifications(data.notifications)
+    setUnreadCount(data.unread_count)
+  }, [])
+
+  const loadNotifications = useCallback(async () => {
+    showNotifications(await fetchNotifications())
+  }, [fetchNotifications, showNotifications])
+
+  useEffect(() => {
+    // State is only set once the first load resolves
+    let cancelled = false
+    fetchNotifications().then((data) => {
+      if (!cancelled) showNotifications(data)
+    })
+
+    // New mentions and replies arrive without a refresh
+    const supabase = createClient()
+    const channel = supabase
+      .channel(`notifications-${userId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'notifications',
+          filter: `user_id=eq.${userId}`,
+        },
+        () => {
+          loadNotifications()
+        }
+      )
+      .subscribe()
+
+    return () => {
+      cancelled = true
+      supabase.removeChannel(channel)
+    }
+  }, [userId, fetchNotifications, showNotifications, loadNotifications])
+
+  const handleMarkAllRead = async () => {
+    const now = new Date().toISOString()
+    setNotifications((prev) => prev.map((n) => (n.read_at ? n : { ...n, read_at: now })))
+    setUnreadCount(0)
+
+    const { error } = await markNotificationsRead()
+    if (error) {
+      console.error('Error marking notifications read:', error)
+      loadNotifications()
+    }
+  }
+
+  const handleOpen = async (notification: NotificationWithDetails) => {
+    if (!notification.read_at) {
+      setNotifications((prev) =>
+        prev.map((n) => (n.id === notification.id ? { ...n, read_at: new Date().toISOString() } : n))
+      )
+      setUnreadCount((count) => Math.max(0, count - 1))
+      markNotificationsRead([notification.id])
+    }
+    router.push(notificationHref(notification))
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="relative text-white/90 hover:text-amber hover:bg-white/10"
+          aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : 'Notifications'}
+        >
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-amber px-1 text-[10px] font-bold text-background">
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <div className="flex items-center justify-between">
+          <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+          {unreadCount > 0 && (
+            <button
+              type="button"
+              onClick={handleMarkAllRead}
+              className="px-2 text-xs text-amber hover:underline"
+            >
+              Mark all read
+            </button>
+          )}
+        </div>
+        <DropdownMenuSeparator />
+        {notifications.length === 0 ? (
+          <p className="px-2 py-6 text-center text-sm text-muted-foreground">
+            No notifications yet
+          </p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.map((notification) => {
+              const actorName = notification.actor?.full_name || 'Someone'
+              return (
+                <DropdownMenuItem
+                  key={notification.id}
+                  onClick={() => handleOpen(notification)}
+                  className={`cursor-pointer items-start gap-3 p-2 ${notification.read_at ? 'opacity-70' : ''}`}
+                >
+                  <Avatar className="h-8 w-8 shrink-0">
+                    <AvatarImage src={notification.actor?.avatar_url || undefined} />
+                    <AvatarFallback className="bg-amber/10 text-amber text-xs">
+                      {actorName.charAt(0).toUpperCase()}
+                    </AvatarFallback>
+                  </Avatar>
+                  <div className="min-w-0 flex-1">
+                    <p className="text-sm">
+                      <span className="font-semibold">{actorName}</span>{' '}
+                      {notification.type === 'reply' ? 'replied to your comment' : 'mentioned you'} on{' '}
+                      <span className="font-semibold">{notification.comic_title}</span>
+                      {notification.page_number !== null && ` (page ${notification.page_number})`}
+                    </p>
+                    {notification.comment_excerpt && (
+                      <p className="mt-0.5 truncate text-xs text-muted-foreground">
+                        {notification.comment_excerpt}
+                      </p>
+                    )}
+                    <p className="mt-0.5 text-xs text-muted-foreground">
+                      {formatRelativeTime(notification.created_at)}
+                    </p>
+                  </div>
+                  {!notification.read_at && (
+                    <span className="mt-1.5 h-2 w-2 shrink-0 rounded-full bg-amber" aria-label="Unread" />
+                  )}
+                </DropdownMenuItem>
+              )
+            })}
+          </div>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
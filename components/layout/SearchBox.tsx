@@ -0,0 +1,195 @@
+'use client'
+
+import { useState, useEffect, useRef } from 'react'
+import Link from 'next/link'
+import { useRouter, usePathname } from 'next/navigation'
+import { Search, Loader2, BookOpen, Palette, UserCircle, X } from 'lucide-react'
+import type { SearchResultItem, SearchResults } from '@/types/database'
+
+const SEARCH_DEBOUNCE_MS = 250
+const MIN_QUERY_LENGTH = 2
+
+const GROUPS: { key: keyof SearchResults; label: string; icon: typeof BookOpen }[] = [
+  { key: 'comics', label: 'Comics', icon: BookOpen },
+  { key: 'artists', label: 'Artists', icon: Palette },
+  { key: 'characters', label: 'Characters', icon: UserCircle },
+]
+
+interface SearchBoxProps {
+  className?: string
+  /** Called after a result is chosen, e.g. to close the mobile menu */
+  onNavigate?: () => void
+}
+
+export function SearchBox({ className = '', onNavigate }: SearchBoxProps) {
+  const router = useRouter()
+  const pathname = usePathname()
+  const [query, setQuery] = useState('')
+  const [results, setResults] = useState<SearchResults | null>(null)
+  const [isSearching, setIsSearching] = useState(false)
+  const [isOpen, setIsOpen] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  // Debounced search; stale responses are dropped via the abort controller
+  useEffect(() => {
+    const trimmed = query.trim()
+    if (trimmed.length < MIN_QUERY_LENGTH) {
+      setResults(null)
+      setIsSearching(false)
+      setError(null)
+      return
+    }
+
+    const controller = new AbortController()
+    setIsSearching(true)
+    const timeoutId = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/search?q=${encodeURIComponent(trimmed)}`, {
+          signal: controller.signal,
+        })
+        const data = await response.json()
+        if (!response.ok) {
+          throw new Error(data.error || 'Search failed')
+        }
+        setResults(data.results)
+        setError(null)
+      } catch (err: unknown) {
+        if (controller.signal.aborted) return
+        console.error('Error searching:', err)
+        setError(err instanceof Error ? err.message : 'Search failed')
+      } finally {
+        if (!controller.signal.aborted) {
+          setIsSearching(false)
+        }
+      }
+    }, SEARCH_DEBOUNCE_MS)
+
+    return () => {
+      clearTimeout(timeoutId)
+      controller.abort()
+    }
+  }, [query])
+
+  // Close on outside click
+  useEffect(() => {
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false)
+      }
+    }
+    document.addEventListener('mousedown', handleClick)
+    return () => document.removeEventListener('mousedown', handleClick)
+  }, [])
+
+  // Close when navigating elsewhere
+  useEffect(() => {
+    setIsOpen(false)
+  }, [pathname])
+
+  const allResults: SearchResultItem[] = results
+    ? [...results.comics, ...results.artists, ...results.characters]
+    : []
+  const showDropdown = isOpen && query.trim().length >= MIN_QUERY_LENGTH
+
+  const handleSelect = () => {
+    setIsOpen(false)
+    setQuery('')
+    onNavigate?.()
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Escape') {
+      setIsOpen(false)
+      e.currentTarget.blur()
+    } else if (e.key === 'Enter' && allResults.length > 0) {
+      e.preventDefault()
+      router.push(allResults[0].href)
+      handleSelect()
+    }
+  }
+
+  return (
+    <div ref={containerRef} className={`relative ${className}`}>
+      <div className="relative">
+        <Search className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-white/50" />
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value)
+            setIsOpen(true)
+          }}
+          onFocus={() => setIsOpen(true)}
+          onKeyDown={handleKeyDown}
+          placeholder="Search comics, artists, characters"
+          aria-label="Search"
+          className="h-9 w-full rounded-md border border-white/10 bg-white/10 pl-9 pr-8 text-sm text-white placeholder:text-white/50 focus:border-amber focus:outline-none focus:ring-1 focus:ring-amber [&::-webkit-search-cancel-button]:hidden"
+        />
+        {query && (
+          <button
+            type="button"
+            onClick={() => {
+              setQuery('')
+              setResults(null)
+            }}
+            className="absolute right-2 top-1/2 -translate-y-1/2 text-white/50 hover:text-white"
+            aria-label="Clear search"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        )}
+      </div>
+
+      {showDropdown && (
+        <div className="absolute left-0 right-0 top-full z-50 mt-2 max-h-[70vh] min-w-[18rem] overflow-y-auto rounded-lg border border-border bg-background/95 p-2 shadow-xl backdrop-blur-md">
+          {isSearching && !results ? (
+            <div className="flex items-center justify-center py-6">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : error ? (
+            <p className="px-3 py-4 text-center text-sm text-destructive">{error}</p>
+          ) : allResults.length === 0 ? (
+            <p className="px-3 py-4 text-center text-sm text-muted-foreground">
+              No results for &quot;{query.trim()}&quot;
+            </p>
+          ) : (
+            GROUPS.map(({ key, label, icon: Icon }) => {
+              const items = results?.[key] || []
+              if (items.length === 0) return null
+              return (
+                <div key={key} className="py-1">
+                  <p className="px-3 py-1 text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+                    {label}
+                  </p>
+                  {items.map((item) => (
+                    <Link
+                      key={`${item.type}-${item.id}`}
+                      href={item.href}
+                      onClick={handleSelect}
+                      className="flex items-center gap-3 rounded-md px-3 py-2 transition-colors hover:bg-amber/10"
+                    >
+                      <div className="flex h-9 w-9 flex-shrink-0 items-center justify-center overflow-hidden rounded-md bg-muted">
+                        {item.image_url ? (
+                          <img src={item.image_url} alt="" className="h-full w-full object-cover" />
+                        ) : (
+                          <Icon className="h-4 w-4 text-muted-foreground" />
+                        )}
+                      </div>
+                      <div className="min-w-0">
+                        <p className="truncate text-sm font-medium">{item.title}</p>
+                        {item.subtitle && (
+                          <p className="truncate text-xs text-muted-foreground">{item.subtitle}</p>
+                        )}
+                      </div>
+                    </Link>
+                  ))}
+                </div>
+              )
+            })
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
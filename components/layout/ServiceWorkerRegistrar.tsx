@@ -0,0 +1,19 @@
+'use client'
+
+import { useEffect } from 'react'
+
+/**
+ * Registers public/sw.js, which serves comics downloaded for offline reading.
+ * Skipped in development so it never serves stale dev bundles.
+ */
+export function ServiceWorkerRegistrar() {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return
+
+    navigator.serviceWorker.register('/sw.js').catch((error) => {
+      console.error('Error registering service worker:', error)
+    })
+  }, [])
+
+  return null
+}
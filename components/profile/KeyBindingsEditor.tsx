@@ -0,0 +1,98 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import {
+  DEFAULT_KEY_BINDINGS,
+  READER_ACTIONS,
+  READER_ACTION_LABELS,
+  bindKey,
+  formatKey,
+  keyFromEvent,
+} from '@/lib/reader-keymap'
+import { X } from 'lucide-react'
+import type { ReaderAction, ReaderKeyBindings } from '@/types/database'
+
+interface KeyBindingsEditorProps {
+  bindings: ReaderKeyBindings
+  onChange: (bindings: ReaderKeyBindings) => void
+}
+
+/**
+ * Rebind the reader's keyboard shortcuts. "Add key" listens for the next
+ * key press; a key already used elsewhere moves to the new action.
+ */
+export function KeyBindingsEditor({ bindings, onChange }: KeyBindingsEditorProps) {
+  const [recordingAction, setRecordingAction] = useState<ReaderAction | null>(null)
+
+  const handleRecordKey = (action: ReaderAction, e: React.KeyboardEvent) => {
+    // Tab still moves focus; Escape cancels
+    if (e.key === 'Tab') return
+    e.preventDefault()
+    if (e.key === 'Escape') {
+      setRecordingAction(null)
+      return
+    }
+    const key = keyFromEvent(e)
+    if (!key) return
+    onChange(bindKey(bindings, action, key))
+    setRecordingAction(null)
+  }
+
+  const removeKey = (action: ReaderAction, key: string) => {
+    onChange({ ...bindings, [action]: bindings[action].filter((bound) => bound !== key) })
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>Keyboard shortcuts</Label>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={() => onChange(DEFAULT_KEY_BINDINGS)}
+        >
+          Reset to defaults
+        </Button>
+      </div>
+      <div className="divide-y divide-border/50 rounded-md border border-border/50">
+        {READER_ACTIONS.map((action) => (
+          <div key={action} className="flex flex-wrap items-center justify-between gap-2 px-3 py-2 text-sm">
+            <span>{READER_ACTION_LABELS[action]}</span>
+            <div className="flex flex-wrap items-center gap-1">
+              {bindings[action].map((key) => (
+                <span
+                  key={key}
+                  className="flex items-center gap-1 rounded border border-border bg-muted px-1.5 py-0.5 font-mono text-xs"
+                >
+                  {formatKey(key)}
+                  <button
+                    type="button"
+                    onClick={() => removeKey(action, key)}
+                    className="text-muted-foreground hover:text-foreground"
+                    aria-label={`Remove ${formatKey(key)} from ${READER_ACTION_LABELS[action]}`}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </span>
+              ))}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                className="h-7 text-xs"
+                onClick={() => setRecordingAction(action)}
+                onKeyDown={recordingAction === action ? (e) => handleRecordKey(action, e) : undefined}
+                onBlur={() => setRecordingAction((prev) => (prev === action ? null : prev))}
+              >
+                {recordingAction === action ? 'Press a key…' : 'Add key'}
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,125 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import Image from 'next/image'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Heart } from 'lucide-react'
+import { formatDate } from '@/lib/utils'
+import type { LibraryEntry } from '@/lib/favorite-actions'
+
+type LibrarySort = 'last_read' | 'date_added'
+
+interface MyLibraryProps {
+  entries: LibraryEntry[]
+}
+
+export function MyLibrary({ entries }: MyLibraryProps) {
+  const [sort, setSort] = useState<LibrarySort>('last_read')
+
+  const sortedEntries = [...entries].sort((a, b) => {
+    if (sort === 'date_added') {
+      return b.favorited_at.localeCompare(a.favorited_at)
+    }
+    // Never-read comics go last, then by date added
+    if (a.last_read_at && b.last_read_at) return b.last_read_at.localeCompare(a.last_read_at)
+    if (a.last_read_at) return -1
+    if (b.last_read_at) return 1
+    return b.favorited_at.localeCompare(a.favorited_at)
+  })
+
+  return (
+    <Card className="border-border/50 bg-card/50">
+      <CardHeader>
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <Heart className="h-5 w-5 text-amber" />
+              My Library
+            </CardTitle>
+            <CardDescription>
+              {entries.length} comic{entries.length !== 1 ? 's' : ''} saved
+            </CardDescription>
+          </div>
+          {entries.length > 1 && (
+            <div className="flex items-center gap-2">
+              <label htmlFor="library-sort" className="text-sm text-muted-foreground">Sort by:</label>
+              <select
+                id="library-sort"
+                value={sort}
+                onChange={(e) => setSort(e.target.value as LibrarySort)}
+                className="rounded-md border border-border bg-card px-3 py-1.5 text-sm focus:border-amber focus:outline-none focus:ring-1 focus:ring-amber"
+              >
+                <option value="last_read">Last read</option>
+                <option value="date_added">Date added</option>
+              </select>
+            </div>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {entries.length === 0 ? (
+          <div className="py-6 text-center">
+            <Heart className="mx-auto h-10 w-10 text-muted-foreground/50" />
+            <p className="mt-2 text-sm text-muted-foreground">
+              Your library is empty. Tap the heart on any comic to save it here.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {sortedEntries.map((entry) => (
+              <div
+                key={entry.comic_id}
+                className="flex items-center gap-4 rounded-lg border border-border/50 bg-background/40 p-3"
+              >
+                <Link
+                  href={`/comics/${entry.comic_id}`}
+                  className="relative h-20 w-14 flex-shrink-0 overflow-hidden rounded-md bg-muted"
+                >
+                  {entry.cover_image_url ? (
+                    <Image
+                      src={entry.cover_image_url}
+                      alt={entry.comic_title}
+                      fill
+                      sizes="56px"
+                      className="object-cover"
+                    />
+                  ) : (
+                    <div className="flex h-full w-full items-center justify-center text-lg font-bold text-amber/50">
+                      {entry.comic_title.charAt(0)}
+                    </div>
+                  )}
+                </Link>
+                <div className="min-w-0 flex-1">
+                  <Link
+                    href={`/comics/${entry.comic_id}`}
+                    className="block truncate font-medium transition-colors hover:text-amber"
+                  >
+                    {entry.comic_title}
+                  </Link>
+                  <p className="text-xs text-muted-foreground">
+                    {entry.last_read_at && entry.page_number
+                      ? `Page ${entry.page_number} of ${entry.total_pages} · read ${formatDate(entry.last_read_at)}`
+                      : `Not started · added ${formatDate(entry.favorited_at)}`}
+                  </p>
+                  <div className="mt-2 h-1.5 w-full overflow-hidden rounded-full bg-muted">
+                    <div
+                      className="h-full bg-amber"
+                      style={{ width: `${entry.percent_complete}%` }}
+                    />
+                  </div>
+                </div>
+                <Link
+                  href={`/comics/read/${entry.comic_id}?page=${entry.page_number ?? 1}`}
+                  className="flex-shrink-0 text-sm font-medium text-amber hover:underline"
+                >
+                  {entry.page_number ? 'Continue' : 'Start'}
+                </Link>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
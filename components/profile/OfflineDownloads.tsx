@@ -0,0 +1,129 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Image from 'next/image'
+import { toast } from 'sonner'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Download, Trash2 } from 'lucide-react'
+import { formatDate } from '@/lib/utils'
+import {
+  isOfflineSupported,
+  isOfflineServingReady,
+  listOfflineComics,
+  removeOfflineComic,
+  offlineCoverUrl,
+  type OfflineComic,
+} from '@/lib/offline-reading'
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+export function OfflineDownloads() {
+  const [isSupported, setIsSupported] = useState(false)
+  const [downloads, setDownloads] = useState<OfflineComic[]>([])
+  const [canShowCovers, setCanShowCovers] = useState(false)
+
+  useEffect(() => {
+    if (!isOfflineSupported()) return
+
+    let cancelled = false
+    listOfflineComics()
+      .then((comics) => {
+        if (cancelled) return
+        setIsSupported(true)
+        setCanShowCovers(isOfflineServingReady())
+        setDownloads(comics)
+      })
+      .catch((error) => console.error('Error listing offline downloads:', error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  if (!isSupported) return null
+
+  const handleRemove = async (comicId: string) => {
+    await removeOfflineComic(comicId)
+    setDownloads((prev) => prev.filter((comic) => comic.comic_id !== comicId))
+    toast.success('Removed offline download')
+  }
+
+  const totalBytes = downloads.reduce((sum, comic) => sum + comic.size_bytes, 0)
+
+  return (
+    <Card className="border-border/50 bg-card/50">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Download className="h-5 w-5 text-amber" />
+          Offline Downloads
+        </CardTitle>
+        <CardDescription>
+          {downloads.length === 0
+            ? 'Comics saved on this device for reading without a connection'
+            : `${downloads.length} comic${downloads.length !== 1 ? 's' : ''} · ${formatSize(totalBytes)} on this device`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {downloads.length === 0 ? (
+          <p className="py-4 text-center text-sm text-muted-foreground">
+            Use &quot;Download for offline&quot; on a comic&apos;s page to read it without a connection.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {downloads.map((comic) => (
+              <div
+                key={comic.comic_id}
+                className="flex items-center gap-4 rounded-lg border border-border/50 bg-background/40 p-3"
+              >
+                <div className="relative h-16 w-11 flex-shrink-0 overflow-hidden rounded-md bg-muted">
+                  {comic.has_cover && canShowCovers ? (
+                    <Image
+                      src={offlineCoverUrl(comic.comic_id)}
+                      alt={comic.title}
+                      fill
+                      sizes="44px"
+                      unoptimized
+                      className="object-cover"
+                    />
+                  ) : (
+                    <div className="flex h-full w-full items-center justify-center text-lg font-bold text-amber/50">
+                      {comic.title.charAt(0)}
+                    </div>
+                  )}
+                </div>
+                <div className="min-w-0 flex-1">
+                  <p className="truncate font-medium">{comic.title}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {comic.page_ids.length} pages · {formatSize(comic.size_bytes)} · until {formatDate(comic.expires_at)}
+                  </p>
+                </div>
+                {/* Full page load so the service worker can serve the saved reader offline */}
+                <a
+                  href={`/comics/read/${comic.comic_id}`}
+                  className="flex-shrink-0 text-sm font-medium text-amber hover:underline"
+                >
+                  Read
+                </a>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleRemove(comic.comic_id)}
+                  className="flex-shrink-0 text-muted-foreground hover:text-destructive"
+                  title="Remove download"
+                  aria-label={`Remove ${comic.title} download`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -10,22 +10,46 @@ import { Label } from '@/components/ui/label'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar'
 import { Separator } from '@/components/ui/separator'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { KeyBindingsEditor } from '@/components/profile/KeyBindingsEditor'
 import { toast } from 'sonner'
-import { User as UserIcon, Mail, Lock, Camera, Loader2, Save } from 'lucide-react'
+import { HANDLE_PATTERN } from '@/lib/comment-utils'
+import { saveReaderPreferences } from '@/lib/reader-preferences-actions'
+import {
+  AUTO_HIDE_DELAYS_MS,
+  READER_BACKGROUND_LABELS,
+  READER_FIT_LABELS,
+  READER_TAP_ZONE_LABELS,
+  READING_MODES,
+  READING_MODE_LABELS,
+  writeLocalReaderPreferences,
+} from '@/lib/reader-preferences'
+import type { ReaderPreferences } from '@/types/database'
+import { User as UserIcon, Mail, Lock, Camera, Loader2, Save, AtSign, BookOpen } from 'lucide-react'
 
 interface ProfileFormProps {
   user: User
+  /** Current @handle used for comment mentions */
+  handle: string | null
+  readerPreferences: ReaderPreferences
 }
 
-export function ProfileForm({ user }: ProfileFormProps) {
+const autoHideLabel = (delayMs: number) => (delayMs === 0 ? 'Never' : `After ${delayMs / 1000} seconds`)
+
+export function ProfileForm({ user, handle: initialHandle, readerPreferences: initialReaderPreferences }: ProfileFormProps) {
   const router = useRouter()
   const [isLoading, setIsLoading] = useState(false)
   const [isPasswordLoading, setIsPasswordLoading] = useState(false)
+  const [isPreferencesLoading, setIsPreferencesLoading] = useState(false)
   
   // Profile form state
   const [fullName, setFullName] = useState(user.user_metadata?.full_name || '')
   const [avatarUrl, setAvatarUrl] = useState(user.user_metadata?.avatar_url || '')
+  const [handle, setHandle] = useState(initialHandle || '')
   
+  // Reader preferences form state
+  const [readerPreferences, setReaderPreferences] = useState(initialReaderPreferences)
+
   // Password form state
   const [currentPassword, setCurrentPassword] = useState('')
   const [newPassword, setNewPassword] = useState('')
@@ -33,6 +57,13 @@ export function ProfileForm({ user }: ProfileFormProps) {
 
   const handleUpdateProfile = async (e: React.FormEvent) => {
     e.preventDefault()
+
+    const normalizedHandle = handle.trim().toLowerCase()
+    if (normalizedHandle && !HANDLE_PATTERN.test(normalizedHandle)) {
+      toast.error('Handles are 3-30 characters: lowercase letters, numbers and underscores')
+      return
+    }
+
     setIsLoading(true)
 
     try {
@@ -47,6 +78,17 @@ export function ProfileForm({ user }: ProfileFormProps) {
 
       if (error) throw error
 
+      if (normalizedHandle !== (initialHandle || '')) {
+        const { error: handleError } = await supabase
+          .from('profiles')
+          .update({ handle: normalizedHandle || null })
+          .eq('id', user.id)
+
+        if (handleError) {
+          throw new Error(handleError.code === '23505' ? 'That handle is already taken' : handleError.message)
+        }
+      }
+
       toast.success('Profile updated successfully!')
       router.refresh()
     } catch (error: any) {
@@ -56,6 +98,28 @@ export function ProfileForm({ user }: ProfileFormProps) {
     }
   }
 
+  const updateReaderPreference = <K extends keyof ReaderPreferences>(key: K, value: ReaderPreferences[K]) => {
+    setReaderPreferences((prev) => ({ ...prev, [key]: value }))
+  }
+
+  const handleUpdateReaderPreferences = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsPreferencesLoading(true)
+
+    try {
+      const { error } = await saveReaderPreferences(readerPreferences)
+      if (error) throw new Error(error)
+
+      // Keep this device's copy in step so the reader picks it up offline too
+      writeLocalReaderPreferences(readerPreferences)
+      toast.success('Reader preferences saved!')
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save reader preferences')
+    } finally {
+      setIsPreferencesLoading(false)
+    }
+  }
+
   const handleUpdatePassword = async (e: React.FormEvent) => {
     e.preventDefault()
     
@@ -167,6 +231,26 @@ export function ProfileForm({ user }: ProfileFormProps) {
               />
             </div>
 
+            {/* Handle Field */}
+            <div className="space-y-2">
+              <Label htmlFor="handle">Handle</Label>
+              <div className="relative">
+                <AtSign className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                <Input
+                  id="handle"
+                  type="text"
+                  placeholder="your_handle"
+                  value={handle}
+                  onChange={(e) => setHandle(e.target.value.toLowerCase())}
+                  className="bg-background/50 pl-10"
+                  maxLength={30}
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Other readers can mention you in comments with @{handle || 'your_handle'}
+              </p>
+            </div>
+
             {/* Email Field (Read-only) */}
             <div className="space-y-2">
               <Label htmlFor="email">Email</Label>
@@ -206,6 +290,167 @@ export function ProfileForm({ user }: ProfileFormProps) {
         </CardContent>
       </Card>
 
+      {/* Reader Preferences Card */}
+      <Card className="border-border/50 bg-card/50">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <BookOpen className="h-5 w-5 text-amber" />
+            Reader Preferences
+          </CardTitle>
+          <CardDescription>How comics open in the reader, on every device you sign in on</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleUpdateReaderPreferences} className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="readingMode">Default reading mode</Label>
+                <Select
+                  value={readerPreferences.reading_mode}
+                  onValueChange={(value) => updateReaderPreference('reading_mode', value as ReaderPreferences['reading_mode'])}
+                >
+                  <SelectTrigger id="readingMode" className="w-full bg-background/50">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {READING_MODES.map((mode) => (
+                      <SelectItem key={mode} value={mode} className="capitalize">
+                        {READING_MODE_LABELS[mode]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="readerFit">Page fit</Label>
+                <Select
+                  value={readerPreferences.fit}
+                  onValueChange={(value) => updateReaderPreference('fit', value as ReaderPreferences['fit'])}
+                >
+                  <SelectTrigger id="readerFit" className="w-full bg-background/50">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(READER_FIT_LABELS).map(([fit, label]) => (
+                      <SelectItem key={fit} value={fit}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="readerBackground">Background</Label>
+                <Select
+                  value={readerPreferences.background}
+                  onValueChange={(value) => updateReaderPreference('background', value as ReaderPreferences['background'])}
+                >
+                  <SelectTrigger id="readerBackground" className="w-full bg-background/50">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(READER_BACKGROUND_LABELS).map(([background, label]) => (
+                      <SelectItem key={background} value={background}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="autoHide">Hide controls in fullscreen</Label>
+                <Select
+                  value={String(readerPreferences.auto_hide_delay_ms)}
+                  onValueChange={(value) => updateReaderPreference('auto_hide_delay_ms', Number(value))}
+                >
+                  <SelectTrigger id="autoHide" className="w-full bg-background/50">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {AUTO_HIDE_DELAYS_MS.map((delayMs) => (
+                      <SelectItem key={delayMs} value={String(delayMs)}>
+                        {autoHideLabel(delayMs)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="tapZones">Tapping pages (horizontal modes)</Label>
+              <Select
+                value={readerPreferences.tap_zones}
+                onValueChange={(value) => updateReaderPreference('tap_zones', value as ReaderPreferences['tap_zones'])}
+              >
+                <SelectTrigger id="tapZones" className="w-full bg-background/50">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(READER_TAP_ZONE_LABELS).map(([zones, label]) => (
+                    <SelectItem key={zones} value={zones}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  id="showHints"
+                  checked={readerPreferences.show_hints}
+                  onChange={(e) => updateReaderPreference('show_hints', e.target.checked)}
+                  className="h-4 w-4 rounded border-gray-300"
+                />
+                <Label htmlFor="showHints" className="font-normal">
+                  Show navigation hints
+                </Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  id="dataSaver"
+                  checked={readerPreferences.data_saver}
+                  onChange={(e) => updateReaderPreference('data_saver', e.target.checked)}
+                  className="h-4 w-4 rounded border-gray-300"
+                />
+                <Label htmlFor="dataSaver" className="font-normal">
+                  Data saver: load smaller pages and preload less
+                </Label>
+              </div>
+            </div>
+
+            <KeyBindingsEditor
+              bindings={readerPreferences.key_bindings}
+              onChange={(bindings) => updateReaderPreference('key_bindings', bindings)}
+            />
+
+            <Button
+              type="submit"
+              disabled={isPreferencesLoading}
+              className="bg-amber hover:bg-amber-dark text-background"
+            >
+              {isPreferencesLoading ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                <>
+                  <Save className="mr-2 h-4 w-4" />
+                  Save Preferences
+                </>
+              )}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
       {/* Password Change Card */}
       <Card className="border-border/50 bg-card/50">
         <CardHeader>
@@ -4,7 +4,10 @@ import { revalidatePath } from 'next/cache'
 import { redirect } from 'next/navigation'
 import { createClient } from '@/lib/supabase/server'
 import { uploadComicCover, uploadArtistPicture, uploadCharacterPicture, deleteComicFile } from '@/lib/storage-actions'
-import type { ComicStatus } from '@/types/database'
+import { createSignedUrlMap, createSignedUrl, ASSET_URL_TTL_SECONDS, PAGE_URL_TTL_SECONDS } from '@/lib/storage-urls'
+import { toCommentWithUser, decodeCommentCursor, encodeCommentCursor } from '@/lib/comment-utils'
+import { validatePagePanels } from '@/lib/page-panels'
+import type { ComicPanel, ComicStatus, CommentReportReason, ModerationComment, ReportedComment } from '@/types/database'
 
 /**
  * Check if current user is an admin
@@ -126,7 +129,18 @@ export async function getAllComics() {
       return { error: error.message, data: null }
     }
 
-    return { error: null, data }
+    const coverUrls = await createSignedUrlMap(
+      (data || []).map((comic) => comic.cover_image_path),
+      ASSET_URL_TTL_SECONDS
+    )
+
+    return {
+      error: null,
+      data: (data || []).map((comic) => ({
+        ...comic,
+        cover_image_url: coverUrls.get(comic.cover_image_path) ?? null,
+      })),
+    }
   } catch (error: any) {
     return { error: error.message || 'Failed to fetch comics', data: null }
   }
@@ -153,7 +167,13 @@ export async function getComicById(comicId: string) {
       return { error: error.message, data: null }
     }
 
-    return { error: null, data }
+    return {
+      error: null,
+      data: {
+        ...data,
+        cover_image_url: await createSignedUrl(data.cover_image_path, ASSET_URL_TTL_SECONDS),
+      },
+    }
   } catch (error: any) {
     return { error: error.message || 'Failed to fetch comic', data: null }
   }
@@ -180,7 +200,18 @@ export async function getComicPages(comicId: string) {
       return { error: error.message, data: null }
     }
 
-    return { error: null, data }
+    const pageUrls = await createSignedUrlMap(
+      (data || []).map((page) => page.image_path),
+      PAGE_URL_TTL_SECONDS
+    )
+
+    return {
+      error: null,
+      data: (data || []).map((page) => ({
+        ...page,
+        image_url: pageUrls.get(page.image_path) ?? null,
+      })),
+    }
   } catch (error: any) {
     return { error: error.message || 'Failed to fetch pages', data: null }
   }
@@ -476,6 +507,334 @@ export async function deleteComic(comicId: string) {
   }
 }
 
+// ---------------------------------------------------------------------------
+// View stats
+// ---------------------------------------------------------------------------
+
+/**
+ * Get daily view counts for the last `days` UTC days, oldest first.
+ * Pass a comicId for one comic, or null for all comics combined.
+ * Days without views are filled with 0 so the series can be charted directly.
+ */
+export async function getDailyViewStats(comicId: string | null, days: number = 30) {
+  try {
+    const isAdmin = await checkAdminStatus()
+    if (!isAdmin) {
+      return { error: 'Unauthorized', data: null }
+    }
+
+    const supabase = await createClient()
+
+    const today = new Date()
+    const start = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate() - (days - 1)))
+    const startDate = start.toISOString().slice(0, 10)
+
+    let query = supabase
+      .from('comic_view_daily')
+      .select('view_date, views')
+      .gte('view_date', startDate)
+
+    if (comicId) {
+      query = query.eq('comic_id', comicId)
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      return { error: error.message, data: null }
+    }
+
+    const viewsByDate = new Map<string, number>()
+    for (const row of (data || []) as { view_date: string; views: number }[]) {
+      viewsByDate.set(row.view_date, (viewsByDate.get(row.view_date) || 0) + row.views)
+    }
+
+    const series = Array.from({ length: days }, (_, i) => {
+      const date = new Date(start)
+      date.setUTCDate(start.getUTCDate() + i)
+      const key = date.toISOString().slice(0, 10)
+      return { date: key, views: viewsByDate.get(key) || 0 }
+    })
+
+    return { error: null, data: series }
+  } catch (error: any) {
+    return { error: error.message || 'Failed to fetch view stats', data: null }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Chapters (admin CRUD)
+// ---------------------------------------------------------------------------
+
+/**
+ * Get chapters by comic ID (admin)
+ */
+export async function getChaptersByComicId(comicId: string) {
+  try {
+    const isAdmin = await checkAdminStatus()
+    if (!isAdmin) {
+      return { error: 'Unauthorized', data: null }
+    }
+
+    const supabase = await createClient()
+    const { data, error } = await supabase
+      .from('comic_chapters')
+      .select('*')
+      .eq('comic_id', comicId)
+      .order('chapter_number', { ascending: true })
+
+    if (error) {
+      return { error: error.message, data: null }
+    }
+
+    return { error: null, data }
+  } catch (error: any) {
+    return { error: error.message || 'Failed to fetch chapters', data: null }
+  }
+}
+
+/**
+ * Create chapter
+ */
+export async function createChapter(formData: FormData) {
+  try {
+    const isAdmin = await checkAdminStatus()
+    if (!isAdmin) {
+      return { error: 'Unauthorized: Admin access required', data: null }
+    }
+
+    const supabase = await createClient()
+
+    const comic_id = formData.get('comic_id') as string
+    const chapterNumber = parseInt(formData.get('chapter_number') as string, 10)
+    const title = (formData.get('title') as string)?.trim() || null
+    const description = (formData.get('description') as string)?.trim() || null
+
+    if (!comic_id || Number.isNaN(chapterNumber) || chapterNumber < 0) {
+      return { error: 'Comic and a valid chapter number are required', data: null }
+    }
+
+    const { data: chapter, error } = await supabase
+      .from('comic_chapters')
+      .insert({
+        comic_id,
+        chapter_number: chapterNumber,
+        title,
+        description,
+      })
+      .select()
+      .single()
+
+    if (error) {
+      if (error.code === '23505') {
+        return { error: `Chapter ${chapterNumber} already exists for this comic`, data: null }
+      }
+      return { error: error.message, data: null }
+    }
+
+    revalidatePath(`/admin/comics/${comic_id}`)
+    revalidatePath(`/comics/${comic_id}`)
+    return { error: null, data: chapter }
+  } catch (error: any) {
+    return { error: error.message || 'Failed to create chapter', data: null }
+  }
+}
+
+/**
+ * Update chapter
+ */
+export async function updateChapter(chapterId: string, formData: FormData) {
+  try {
+    const isAdmin = await checkAdminStatus()
+    if (!isAdmin) {
+      return { error: 'Unauthorized: Admin access required', data: null }
+    }
+
+    const supabase = await createClient()
+
+    const chapterNumber = parseInt(formData.get('chapter_number') as string, 10)
+    const title = (formData.get('title') as string)?.trim() || null
+    const description = (formData.get('description') as string)?.trim() || null
+
+    if (Number.isNaN(chapterNumber) || chapterNumber < 0) {
+      return { error: 'A valid chapter number is required', data: null }
+    }
+
+    const { data: chapter, error } = await supabase
+      .from('comic_chapters')
+      .update({
+        chapter_number: chapterNumber,
+        title,
+        description,
+      })
+      .eq('id', chapterId)
+      .select()
+      .single()
+
+    if (error) {
+      if (error.code === '23505') {
+        return { error: `Chapter ${chapterNumber} already exists for this comic`, data: null }
+      }
+      return { error: error.message, data: null }
+    }
+
+    if (chapter?.comic_id) {
+      revalidatePath(`/admin/comics/${chapter.comic_id}`)
+      revalidatePath(`/comics/${chapter.comic_id}`)
+    }
+    return { error: null, data: chapter }
+  } catch (error: any) {
+    return { error: error.message || 'Failed to update chapter', data: null }
+  }
+}
+
+/**
+ * Delete chapter
+ * Pages in the chapter are kept and become unassigned (chapter_id ON DELETE SET NULL)
+ */
+export async function deleteChapter(chapterId: string) {
+  try {
+    const isAdmin = await checkAdminStatus()
+    if (!isAdmin) {
+      return { error: 'Unauthorized: Admin access required' }
+    }
+
+    const supabase = await createClient()
+
+    const { data: chapter } = await supabase
+      .from('comic_chapters')
+      .select('comic_id')
+      .eq('id', chapterId)
+      .single()
+
+    const { error } = await supabase
+      .from('comic_chapters')
+      .delete()
+      .eq('id', chapterId)
+
+    if (error) {
+      return { error: error.message }
+    }
+
+    const comicId = chapter?.comic_id
+    if (comicId) {
+      revalidatePath(`/admin/comics/${comicId}`)
+      revalidatePath(`/comics/${comicId}`)
+    }
+    return { error: null }
+  } catch (error: any) {
+    return { error: error.message || 'Failed to delete chapter' }
+  }
+}
+
+/**
+ * Move a page into a chapter (or out of all chapters with null)
+ * The page is renumbered into the chapter's place in the reading order
+ */
+export async function assignPageToChapter(pageId: string, chapterId: string | null) {
+  try {
+    const isAdmin = await checkAdminStatus()
+    if (!isAdmin) {
+      return { error: 'Unauthorized: Admin access required' }
+    }
+
+    const supabase = await createClient()
+
+    const { data: page } = await supabase
+      .from('comic_pages')
+      .select('comic_id')
+      .eq('id', pageId)
+      .single()
+
+    if (!page) {
+      return { error: 'Page not found' }
+    }
+
+    // Checks the chapter belongs to the page's comic
+    const { error } = await supabase.rpc('move_comic_page_to_chapter', {
+      p_page_id: pageId,
+      p_chapter_id: chapterId,
+    })
+
+    if (error) {
+      return { error: error.message }
+    }
+
+    revalidatePath(`/admin/comics/${page.comic_id}`)
+    revalidatePath(`/comics/${page.comic_id}`)
+    return { error: null }
+  } catch (error: any) {
+    return { error: error.message || 'Failed to assign page' }
+  }
+}
+
+/**
+ * Flag a page as a full two-page spread, so spread reading mode shows it unpaired
+ */
+export async function setPageSpread(pageId: string, isSpread: boolean) {
+  try {
+    const isAdmin = await checkAdminStatus()
+    if (!isAdmin) {
+      return { error: 'Unauthorized: Admin access required' }
+    }
+
+    const supabase = await createClient()
+
+    const { data: page, error } = await supabase
+      .from('comic_pages')
+      .update({ is_spread: isSpread })
+      .eq('id', pageId)
+      .select('comic_id')
+      .single()
+
+    if (error || !page) {
+      return { error: error?.message || 'Page not found' }
+    }
+
+    revalidatePath(`/admin/comics/${page.comic_id}`)
+    revalidatePath(`/comics/read/${page.comic_id}`)
+    return { error: null }
+  } catch (error: any) {
+    return { error: error.message || 'Failed to update page' }
+  }
+}
+
+/**
+ * Replace a page's guided view panels (reading order)
+ */
+export async function setPagePanels(pageId: string, panels: ComicPanel[]) {
+  try {
+    const isAdmin = await checkAdminStatus()
+    if (!isAdmin) {
+      return { error: 'Unauthorized: Admin access required' }
+    }
+
+    const validation = validatePagePanels(panels)
+    if (validation.error || !validation.panels) {
+      return { error: validation.error }
+    }
+
+    const supabase = await createClient()
+
+    const { data: page, error } = await supabase
+      .from('comic_pages')
+      .update({ panels: validation.panels.map((panel) => ({ ...panel })) })
+      .eq('id', pageId)
+      .select('comic_id')
+      .single()
+
+    if (error || !page) {
+      return { error: error?.message || 'Page not found' }
+    }
+
+    revalidatePath(`/admin/comics/${page.comic_id}`)
+    revalidatePath(`/comics/read/${page.comic_id}`)
+    return { error: null }
+  } catch (error: any) {
+    return { error: error.message || 'Failed to save panels' }
+  }
+}
+
 // ---------------------------------------------------------------------------
 // Artists (admin CRUD)
 // ---------------------------------------------------------------------------
@@ -505,7 +864,18 @@ export async function getAllArtists() {
       return { error: error.message, data: null }
     }
 
-    return { error: null, data }
+    const pictureUrls = await createSignedUrlMap(
+      (data || []).map((artist) => artist.picture_path),
+      ASSET_URL_TTL_SECONDS
+    )
+
+    return {
+      error: null,
+      data: (data || []).map((artist) => ({
+        ...artist,
+        picture_url: pictureUrls.get(artist.picture_path) ?? null,
+      })),
+    }
   } catch (error: any) {
     return { error: error.message || 'Failed to fetch artists', data: null }
   }
@@ -532,7 +902,13 @@ export async function getArtistById(artistId: string) {
       return { error: error.message, data: null }
     }
 
-    return { error: null, data }
+    return {
+      error: null,
+      data: {
+        ...data,
+        picture_url: await createSignedUrl(data.picture_path, ASSET_URL_TTL_SECONDS),
+      },
+    }
   } catch (error: any) {
     return { error: error.message || 'Failed to fetch artist', data: null }
   }
@@ -790,7 +1166,18 @@ export async function getCharactersByComicId(comicId: string) {
       return { error: error.message, data: null }
     }
 
-    return { error: null, data }
+    const pictureUrls = await createSignedUrlMap(
+      (data || []).map((character) => character.picture_path),
+      ASSET_URL_TTL_SECONDS
+    )
+
+    return {
+      error: null,
+      data: (data || []).map((character) => ({
+        ...character,
+        picture_url: pictureUrls.get(character.picture_path) ?? null,
+      })),
+    }
   } catch (error: any) {
     return { error: error.message || 'Failed to fetch characters', data: null }
   }
@@ -966,3 +1353,489 @@ export async function deleteCharacter(characterId: string) {
   }
 }
 
+// ---------------------------------------------------------------------------
+// Comment moderation
+// ---------------------------------------------------------------------------
+
+export interface ModerationFilters {
+  comicId?: string
+  /** Page number within comicId */
+  pageNumber?: number
+  userId?: string
+  /** Matches commenter name or email */
+  userQuery?: string
+  /** Inclusive UTC dates, YYYY-MM-DD */
+  fromDate?: string
+  toDate?: string
+  visibility?: 'all' | 'visible' | 'hidden'
+  cursor?: string
+}
+
+const MODERATION_PAGE_SIZE = 50
+
+/** Comment row with author, comic title and page number */
+const MODERATION_COMMENT_SELECT = `
+  *,
+  profiles:user_id (
+    id,
+    full_name,
+    avatar_url,
+    email,
+    platform
+  ),
+  comics:comic_id (
+    title
+  ),
+  comic_pages:page_id (
+    page_number
+  )
+`
+
+function toModerationComment(row: any, bannedIds: Set<string>): ModerationComment {
+  return {
+    ...toCommentWithUser(row),
+    is_hidden: row.is_hidden,
+    hidden_reason: row.hidden_reason,
+    comic_title: row.comics?.title ?? 'Unknown comic',
+    page_number: row.comic_pages?.page_number ?? null,
+    user_is_banned: bannedIds.has(row.user_id),
+  }
+}
+
+/**
+ * List comments across all comics, newest first, for the moderation queue.
+ * Includes hidden comments. Pass next_cursor back as filters.cursor for more.
+ */
+export async function getModerationComments(filters: ModerationFilters = {}) {
+  try {
+    const isAdmin = await checkAdminStatus()
+    if (!isAdmin) {
+      return { error: 'Unauthorized', data: null }
+    }
+
+    const supabase = await createClient()
+    const empty = { comments: [] as ModerationComment[], next_cursor: null as string | null }
+
+    let query = supabase
+      .from('comic_comments')
+      .select(MODERATION_COMMENT_SELECT)
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(MODERATION_PAGE_SIZE + 1)
+
+    if (filters.comicId) {
+      query = query.eq('comic_id', filters.comicId)
+
+      if (filters.pageNumber) {
+        const { data: page } = await supabase
+          .from('comic_pages')
+          .select('id')
+          .eq('comic_id', filters.comicId)
+          .eq('page_number', filters.pageNumber)
+          .maybeSingle()
+
+        if (!page) {
+          return { error: null, data: empty }
+        }
+        query = query.eq('page_id', page.id)
+      }
+    }
+
+    if (filters.userId) {
+      query = query.eq('user_id', filters.userId)
+    }
+
+    if (filters.userQuery?.trim()) {
+      // Strip characters that have meaning in PostgREST filter strings
+      const term = filters.userQuery.trim().replace(/[,()%*\\]/g, '')
+      const { data: users } = await supabase
+        .from('profiles')
+        .select('id')
+        .or(`full_name.ilike.%${term}%,email.ilike.%${term}%`)
+        .limit(100)
+
+      if (!users || users.length === 0) {
+        return { error: null, data: empty }
+      }
+      query = query.in('user_id', users.map((u) => u.id))
+    }
+
+    if (filters.fromDate) {
+      query = query.gte('created_at', `${filters.fromDate}T00:00:00Z`)
+    }
+
+    if (filters.toDate) {
+      const end = new Date(`${filters.toDate}T00:00:00Z`)
+      end.setUTCDate(end.getUTCDate() + 1)
+      query = query.lt('created_at', end.toISOString())
+    }
+
+    if (filters.visibility === 'visible') {
+      query = query.eq('is_hidden', false)
+    } else if (filters.visibility === 'hidden') {
+      query = query.eq('is_hidden', true)
+    }
+
+    if (filters.cursor) {
+      const cursor = decodeCommentCursor(filters.cursor)
+      if (!cursor) {
+        return { error: 'Invalid cursor', data: null }
+      }
+      query = query.or(`created_at.lt."${cursor.created_at}",and(created_at.eq."${cursor.created_at}",id.lt.${cursor.id})`)
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      return { error: error.message, data: null }
+    }
+
+    const rows = ((data || []) as any[]).slice(0, MODERATION_PAGE_SIZE)
+    const hasMore = (data || []).length > MODERATION_PAGE_SIZE
+
+    const userIds = Array.from(new Set(rows.map((row) => row.user_id)))
+    const { data: bans } = userIds.length > 0
+      ? await supabase.from('comment_bans').select('user_id').in('user_id', userIds)
+      : { data: [] }
+    const bannedIds = new Set((bans || []).map((ban: any) => ban.user_id))
+
+    const comments = rows.map((row) => toModerationComment(row, bannedIds))
+
+    return {
+      error: null,
+      data: {
+        comments,
+        next_cursor: hasMore ? encodeCommentCursor(rows[rows.length - 1]) : null,
+      },
+    }
+  } catch (error: any) {
+    return { error: error.message || 'Failed to fetch comments', data: null }
+  }
+}
+
+/**
+ * Hide or unhide comments. Hidden comments stay visible to their author.
+ */
+export async function setCommentsHidden(commentIds: string[], hidden: boolean) {
+  try {
+    const isAdmin = await checkAdminStatus()
+    if (!isAdmin) {
+      return { error: 'Unauthorized: Admin access required' }
+    }
+
+    if (commentIds.length === 0) {
+      return { error: null }
+    }
+
+    const supabase = await createClient()
+    const { error } = await supabase
+      .from('comic_comments')
+      .update({
+        is_hidden: hidden,
+        hidden_at: hidden ? new Date().toISOString() : null,
+        hidden_reason: hidden ? 'moderator' : null,
+      })
+      .in('id', commentIds)
+
+    if (error) {
+      return { error: error.message }
+    }
+
+    revalidatePath('/admin/comments')
+    return { error: null }
+  } catch (error: any) {
+    return { error: error.message || 'Failed to update comments' }
+  }
+}
+
+/**
+ * Delete comments. Replies to deleted top-level comments are deleted with them.
+ */
+export async function deleteComments(commentIds: string[]) {
+  try {
+    const isAdmin = await checkAdminStatus()
+    if (!isAdmin) {
+      return { error: 'Unauthorized: Admin access required' }
+    }
+
+    if (commentIds.length === 0) {
+      return { error: null }
+    }
+
+    const supabase = await createClient()
+    const { error } = await supabase
+      .from('comic_comments')
+      .delete()
+      .in('id', commentIds)
+
+    if (error) {
+      return { error: error.message }
+    }
+
+    revalidatePath('/admin/comments')
+    return { error: null }
+  } catch (error: any) {
+    return { error: error.message || 'Failed to delete comments' }
+  }
+}
+
+/**
+ * Get a commenter's profile, ban status and comment counts for their history page
+ */
+export async function getCommenterSummary(userId: string) {
+  try {
+    const isAdmin = await checkAdminStatus()
+    if (!isAdmin) {
+      return { error: 'Unauthorized', data: null }
+    }
+
+    const supabase = await createClient()
+
+    const [{ data: profile, error }, { data: ban }, { count: total }, { count: hidden }] = await Promise.all([
+      supabase
+        .from('profiles')
+        .select('id, full_name, email, avatar_url, platform, created_at')
+        .eq('id', userId)
+        .single(),
+      supabase
+        .from('comment_bans')
+        .select('*')
+        .eq('user_id', userId)
+        .maybeSingle(),
+      supabase
+        .from('comic_comments')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId),
+      supabase
+        .from('comic_comments')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .eq('is_hidden', true),
+    ])
+
+    if (error || !profile) {
+      return { error: error?.message || 'User not found', data: null }
+    }
+
+    return {
+      error: null,
+      data: {
+        profile,
+        ban: ban ?? null,
+        comment_count: total ?? 0,
+        hidden_count: hidden ?? 0,
+      },
+    }
+  } catch (error: any) {
+    return { error: error.message || 'Failed to fetch user', data: null }
+  }
+}
+
+/**
+ * Shadow-ban a user from commenting, or lift the ban. Banned users can still
+ * post, but new comments are hidden from everyone except themselves.
+ */
+export async function setCommentBan(userId: string, banned: boolean, reason?: string) {
+  try {
+    const isAdmin = await checkAdminStatus()
+    if (!isAdmin) {
+      return { error: 'Unauthorized: Admin access required' }
+    }
+
+    const supabase = await createClient()
+
+    if (banned) {
+      const { data: { user } } = await supabase.auth.getUser()
+      const { error } = await supabase
+        .from('comment_bans')
+        .upsert({
+          user_id: userId,
+          banned_by: user?.id ?? null,
+          reason: reason?.trim() || null,
+        }, {
+          onConflict: 'user_id',
+        })
+
+      if (error) {
+        return { error: error.message }
+      }
+    } else {
+      const { error } = await supabase
+        .from('comment_bans')
+        .delete()
+        .eq('user_id', userId)
+
+      if (error) {
+        return { error: error.message }
+      }
+    }
+
+    revalidatePath('/admin/comments')
+    revalidatePath(`/admin/comments/users/${userId}`)
+    return { error: null }
+  } catch (error: any) {
+    return { error: error.message || 'Failed to update ban' }
+  }
+}
+
+/**
+ * List comments with pending reader reports, most-reported first
+ */
+export async function getReportedComments() {
+  try {
+    const isAdmin = await checkAdminStatus()
+    if (!isAdmin) {
+      return { error: 'Unauthorized', data: null }
+    }
+
+    const supabase = await createClient()
+    const { data: reports, error } = await supabase
+      .from('comment_reports')
+      .select(`
+        id,
+        comment_id,
+        reason,
+        details,
+        created_at,
+        profiles:reporter_id (
+          id,
+          full_name,
+          email
+        )
+      `)
+      .eq('status', 'pending')
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      return { error: error.message, data: null }
+    }
+
+    const reportsByComment = new Map<string, any[]>()
+    for (const report of (reports || []) as any[]) {
+      const list = reportsByComment.get(report.comment_id) || []
+      list.push(report)
+      reportsByComment.set(report.comment_id, list)
+    }
+
+    const commentIds = Array.from(reportsByComment.keys())
+    if (commentIds.length === 0) {
+      return { error: null, data: [] as ReportedComment[] }
+    }
+
+    const { data: rows, error: commentsError } = await supabase
+      .from('comic_comments')
+      .select(MODERATION_COMMENT_SELECT)
+      .in('id', commentIds)
+
+    if (commentsError) {
+      return { error: commentsError.message, data: null }
+    }
+
+    const userIds = Array.from(new Set(((rows || []) as any[]).map((row) => row.user_id)))
+    const { data: bans } = userIds.length > 0
+      ? await supabase.from('comment_bans').select('user_id').in('user_id', userIds)
+      : { data: [] }
+    const bannedIds = new Set((bans || []).map((ban: any) => ban.user_id))
+
+    const reported: ReportedComment[] = ((rows || []) as any[]).map((row) => {
+      const commentReports = reportsByComment.get(row.id) || []
+      const reasonCounts: ReportedComment['reason_counts'] = {}
+      for (const report of commentReports) {
+        const reason = report.reason as CommentReportReason
+        reasonCounts[reason] = (reasonCounts[reason] ?? 0) + 1
+      }
+
+      return {
+        comment: toModerationComment(row, bannedIds),
+        report_count: commentReports.length,
+        reason_counts: reasonCounts,
+        reports: commentReports.map((report) => ({
+          id: report.id,
+          reason: report.reason,
+          details: report.details,
+          created_at: report.created_at,
+          reporter: {
+            id: report.profiles?.id,
+            full_name: report.profiles?.full_name ?? null,
+            email: report.profiles?.email ?? null,
+          },
+        })),
+        // Reports are newest first
+        latest_reported_at: commentReports[0].created_at,
+      }
+    })
+
+    reported.sort((a, b) =>
+      b.report_count - a.report_count || b.latest_reported_at.localeCompare(a.latest_reported_at)
+    )
+
+    return { error: null, data: reported }
+  } catch (error: any) {
+    return { error: error.message || 'Failed to fetch reports', data: null }
+  }
+}
+
+/**
+ * Resolve all pending reports on a comment. Approving keeps the comment (and
+ * unhides it if reports hid it); removing hides it from readers.
+ */
+export async function resolveCommentReports(commentId: string, outcome: 'approved' | 'removed') {
+  try {
+    const isAdmin = await checkAdminStatus()
+    if (!isAdmin) {
+      return { error: 'Unauthorized: Admin access required' }
+    }
+
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    const { error } = await supabase
+      .from('comment_reports')
+      .update({
+        status: outcome,
+        resolved_by: user?.id ?? null,
+        resolved_at: new Date().toISOString(),
+      })
+      .eq('comment_id', commentId)
+      .eq('status', 'pending')
+
+    if (error) {
+      return { error: error.message }
+    }
+
+    if (outcome === 'removed') {
+      const { error: hideError } = await supabase
+        .from('comic_comments')
+        .update({
+          is_hidden: true,
+          hidden_at: new Date().toISOString(),
+          hidden_reason: 'moderator',
+        })
+        .eq('id', commentId)
+
+      if (hideError) {
+        return { error: hideError.message }
+      }
+    } else {
+      const { error: unhideError } = await supabase
+        .from('comic_comments')
+        .update({
+          is_hidden: false,
+          hidden_at: null,
+          hidden_reason: null,
+        })
+        .eq('id', commentId)
+        .eq('hidden_reason', 'reports')
+
+      if (unhideError) {
+        return { error: unhideError.message }
+      }
+    }
+
+    revalidatePath('/admin/comments')
+    revalidatePath('/admin/comments/reports')
+    return { error: null }
+  } catch (error: any) {
+    return { error: error.message || 'Failed to resolve reports' }
+  }
+}
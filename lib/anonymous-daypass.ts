@@ -1,4 +1,5 @@
 import { createClient } from '@/lib/supabase/server'
+import { cookies } from 'next/headers'
 import { NextRequest } from 'next/server'
 import { calculateSubscriptionEndDate } from './subscription-actions'
 import { updateUserSubscription } from './subscription-actions'
@@ -21,6 +22,14 @@ export function getSessionIdFromCookie(request: NextRequest): string | null {
   return cookie?.value || null
 }
 
+/**
+ * Get session ID from cookies in a Server Component or Server Action
+ */
+export async function getSessionIdFromServerCookies(): Promise<string | null> {
+  const cookieStore = await cookies()
+  return cookieStore.get(SESSION_ID_COOKIE_NAME)?.value || null
+}
+
 /**
  * Set session ID in response cookie
  */
@@ -1,39 +1,93 @@
 'use server'
 
 import { createClient } from '@/lib/supabase/server'
-import type { Comic, ComicPage } from '@/types/database'
+import { hasActiveSubscription } from '@/lib/subscription-actions'
+import { getSessionIdFromServerCookies, hasActiveAnonymousDayPass } from '@/lib/anonymous-daypass'
+import { FREE_PAGE_LIMIT } from '@/lib/subscription-utils'
+import {
+  createSignedUrlMap,
+  createSignedUrl,
+  ASSET_URL_TTL_SECONDS,
+  PAGE_URL_TTL_SECONDS,
+} from '@/lib/storage-urls'
+import type { Comic, ComicPage, ComicStatus, ChapterSummary } from '@/types/database'
 
 /**
- * Convert storage path to full URL
+ * Check whether the caller can read premium pages:
+ * an active subscription for signed-in users, or an active anonymous Day Pass
  */
-function getImageUrl(path: string | null): string | null {
-  if (!path) return null
-  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
-  if (!supabaseUrl) return null
-  return `${supabaseUrl}/storage/v1/object/public/comics/${path}`
+async function hasPremiumAccess(): Promise<boolean> {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (user && await hasActiveSubscription(user.id)) {
+      return true
+    }
+
+    const sessionId = await getSessionIdFromServerCookies()
+    return sessionId ? await hasActiveAnonymousDayPass(sessionId) : false
+  } catch (error) {
+    console.error('Error checking premium access:', error)
+    return false
+  }
+}
+
+export type ComicSort = 'newest' | 'rating' | 'popular'
+
+export interface ComicListOptions {
+  sort?: ComicSort
+  genre?: string | null
+  status?: ComicStatus | null
+}
+
+const SORT_COLUMNS: Record<ComicSort, 'created_at' | 'rating' | 'view_count'> = {
+  newest: 'created_at',
+  rating: 'rating',
+  popular: 'view_count',
 }
 
 /**
  * Get all comics (public) - only premium comics
+ * Optionally filtered by genre (GIN-indexed array contains) and status, and sorted
  */
-export async function getAllComics() {
+export async function getAllComics(options: ComicListOptions = {}) {
   try {
+    const { sort = 'newest', genre, status } = options
     const supabase = await createClient()
-    const { data, error } = await supabase
+    let query = supabase
       .from('comics')
       .select('*')
       .eq('is_premium', true)
-      .order('created_at', { ascending: false })
+
+    if (genre) {
+      query = query.contains('genre', [genre])
+    }
+    if (status) {
+      query = query.eq('status', status)
+    }
+
+    const sortColumn = SORT_COLUMNS[sort] ?? 'created_at'
+    query = query.order(sortColumn, { ascending: false, nullsFirst: false })
+    if (sortColumn !== 'created_at') {
+      query = query.order('created_at', { ascending: false })
+    }
+
+    const { data, error } = await query
 
     if (error) {
       console.error('Error fetching comics:', error)
       return { error: error.message, data: null }
     }
 
-    // Convert image paths to URLs
+    // Convert image paths to signed URLs
+    const coverUrls = await createSignedUrlMap(
+      (data || []).map(comic => comic.cover_image_path),
+      ASSET_URL_TTL_SECONDS
+    )
     const comicsWithUrls = data?.map(comic => ({
       ...comic,
-      cover_image_url: getImageUrl(comic.cover_image_path),
+      cover_image_url: coverUrls.get(comic.cover_image_path) ?? null,
     })) || []
 
     return { error: null, data: comicsWithUrls }
@@ -43,6 +97,41 @@ export async function getAllComics() {
   }
 }
 
+/**
+ * Get the distinct genres used by listed comics, sorted alphabetically
+ */
+export async function getComicGenres() {
+  try {
+    const supabase = await createClient()
+    const { data, error } = await supabase
+      .from('comics')
+      .select('genre')
+      .eq('is_premium', true)
+      .not('genre', 'is', null)
+
+    if (error) {
+      console.error('Error fetching genres:', error)
+      return { error: error.message, data: null }
+    }
+
+    const genres = new Set<string>()
+    for (const row of (data || []) as { genre: string[] | null }[]) {
+      for (const genre of row.genre || []) {
+        const trimmed = genre.trim()
+        if (trimmed) genres.add(trimmed)
+      }
+    }
+
+    return {
+      error: null,
+      data: Array.from(genres).sort((a, b) => a.localeCompare(b)),
+    }
+  } catch (error: any) {
+    console.error('Error in getComicGenres:', error)
+    return { error: error.message || 'Failed to fetch genres', data: null }
+  }
+}
+
 /**
  * Get comic by ID (public)
  */
@@ -64,10 +153,10 @@ export async function getComicById(comicId: string) {
       return { error: 'Comic not found', data: null }
     }
 
-    // Convert image path to URL
+    // Convert image path to signed URL
     const comicWithUrl = {
       ...data,
-      cover_image_url: getImageUrl(data.cover_image_path),
+      cover_image_url: await createSignedUrl(data.cover_image_path, ASSET_URL_TTL_SECONDS),
     }
 
     return { error: null, data: comicWithUrl }
@@ -79,6 +168,8 @@ export async function getComicById(comicId: string) {
 
 /**
  * Get comic pages (public)
+ * Pages past FREE_PAGE_LIMIT only get a signed image URL when the caller has
+ * premium access; otherwise they come back locked with no image URL.
  */
 export async function getComicPages(comicId: string) {
   try {
@@ -94,11 +185,21 @@ export async function getComicPages(comicId: string) {
       return { error: error.message, data: null }
     }
 
-    // Convert image paths to URLs
-    const pagesWithUrls = data?.map(page => ({
+    const pages = data || []
+    const canReadPremium = pages.length > FREE_PAGE_LIMIT ? await hasPremiumAccess() : true
+    const isLocked = (index: number) => index >= FREE_PAGE_LIMIT && !canReadPremium
+
+    // Only sign the pages the caller is entitled to
+    const pageUrls = await createSignedUrlMap(
+      pages.filter((_, index) => !isLocked(index)).map(page => page.image_path),
+      PAGE_URL_TTL_SECONDS
+    )
+
+    const pagesWithUrls = pages.map((page, index) => ({
       ...page,
-      image_url: getImageUrl(page.image_path),
-    })) || []
+      image_url: isLocked(index) ? null : pageUrls.get(page.image_path) ?? null,
+      is_locked: isLocked(index),
+    }))
 
     return { error: null, data: pagesWithUrls }
   } catch (error: any) {
@@ -107,6 +208,56 @@ export async function getComicPages(comicId: string) {
   }
 }
 
+/**
+ * Get a comic's chapters with the reader position of each chapter's first page.
+ * first_page_number is 1-based over the comic-wide page order (the reader's ?page= param).
+ */
+export async function getComicChapters(
+  comicId: string
+): Promise<{ error: string | null; data: ChapterSummary[] | null }> {
+  try {
+    const supabase = await createClient()
+    const [{ data: chapters, error }, { data: pages, error: pagesError }] = await Promise.all([
+      supabase
+        .from('comic_chapters')
+        .select('*')
+        .eq('comic_id', comicId)
+        .order('chapter_number', { ascending: true }),
+      supabase
+        .from('comic_pages')
+        .select('id, chapter_id, page_number')
+        .eq('comic_id', comicId)
+        .order('page_number', { ascending: true }),
+    ])
+
+    if (error || pagesError) {
+      console.error('Error fetching chapters:', error || pagesError)
+      return { error: (error || pagesError)!.message, data: null }
+    }
+
+    const firstPageByChapter = new Map<string, number>()
+    const pageCountByChapter = new Map<string, number>()
+    ;(pages || []).forEach((page: any, index: number) => {
+      if (!page.chapter_id) return
+      if (!firstPageByChapter.has(page.chapter_id)) {
+        firstPageByChapter.set(page.chapter_id, index + 1)
+      }
+      pageCountByChapter.set(page.chapter_id, (pageCountByChapter.get(page.chapter_id) || 0) + 1)
+    })
+
+    const summaries: ChapterSummary[] = (chapters || []).map((chapter: any) => ({
+      ...chapter,
+      first_page_number: firstPageByChapter.get(chapter.id) ?? null,
+      page_count: pageCountByChapter.get(chapter.id) ?? 0,
+    }))
+
+    return { error: null, data: summaries }
+  } catch (error: any) {
+    console.error('Error in getComicChapters:', error)
+    return { error: error.message || 'Failed to fetch chapters', data: null }
+  }
+}
+
 /**
  * Get popular comics (top rated) - only premium comics
  */
@@ -125,10 +276,14 @@ export async function getPopularComics(limit: number = 4) {
       return { error: error.message, data: null }
     }
 
-    // Convert image paths to URLs
+    // Convert image paths to signed URLs
+    const coverUrls = await createSignedUrlMap(
+      (data || []).map(comic => comic.cover_image_path),
+      ASSET_URL_TTL_SECONDS
+    )
     const comicsWithUrls = data?.map(comic => ({
       ...comic,
-      cover_image_url: getImageUrl(comic.cover_image_path),
+      cover_image_url: coverUrls.get(comic.cover_image_path) ?? null,
     })) || []
 
     return { error: null, data: comicsWithUrls }
@@ -155,9 +310,13 @@ export async function getAllArtistsPublic() {
       return { error: error.message, data: null }
     }
 
+    const pictureUrls = await createSignedUrlMap(
+      (data || []).map((artist) => artist.picture_path),
+      ASSET_URL_TTL_SECONDS
+    )
     const artistsWithUrls = (data || []).map((artist) => ({
       ...artist,
-      picture_url: getImageUrl(artist.picture_path),
+      picture_url: pictureUrls.get(artist.picture_path) ?? null,
     }))
 
     return { error: null, data: artistsWithUrls }
@@ -185,9 +344,13 @@ export async function getArtistsForComic(comicId: string) {
       return { error: error.message, data: null }
     }
 
+    const pictureUrls = await createSignedUrlMap(
+      (data || []).map((artist) => artist.picture_path),
+      ASSET_URL_TTL_SECONDS
+    )
     const artistsWithUrls = (data || []).map((artist) => ({
       ...artist,
-      picture_url: getImageUrl(artist.picture_path),
+      picture_url: pictureUrls.get(artist.picture_path) ?? null,
     }))
 
     return { error: null, data: artistsWithUrls }
@@ -214,9 +377,13 @@ export async function getCharactersForComic(comicId: string) {
       return { error: error.message, data: null }
     }
 
+    const pictureUrls = await createSignedUrlMap(
+      (data || []).map((character) => character.picture_path),
+      ASSET_URL_TTL_SECONDS
+    )
     const charactersWithUrls = (data || []).map((character) => ({
       ...character,
-      picture_url: getImageUrl(character.picture_path),
+      picture_url: pictureUrls.get(character.picture_path) ?? null,
     }))
 
     return { error: null, data: charactersWithUrls }
@@ -247,10 +414,19 @@ export async function getPageById(pageId: string) {
       return { error: 'Page not found', data: null }
     }
 
-    // Convert image path to URL
+    // Premium pages are only signed for entitled callers
+    const { count: pagesBefore } = await supabase
+      .from('comic_pages')
+      .select('id', { count: 'exact', head: true })
+      .eq('comic_id', data.comic_id)
+      .lt('page_number', data.page_number)
+
+    const isLocked = (pagesBefore ?? 0) >= FREE_PAGE_LIMIT && !(await hasPremiumAccess())
+
     const pageWithUrl = {
       ...data,
-      image_url: getImageUrl(data.image_path),
+      image_url: isLocked ? null : await createSignedUrl(data.image_path, PAGE_URL_TTL_SECONDS),
+      is_locked: isLocked,
     }
 
     return { error: null, data: pageWithUrl }
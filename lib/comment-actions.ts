@@ -1,80 +1,68 @@
 'use server'
 
 import { createClient } from '@/lib/supabase/server'
-import type { CommentWithUser } from '@/types/database'
+import type { CommentAnchor, CommentWithUser, CommentSort } from '@/types/database'
+import {
+  COMMENT_WITH_USER_SELECT,
+  toCommentWithUser,
+  resolveReplyParent,
+  decodeCommentCursor,
+  fetchCommentFeedPage,
+  parseCommentAnchor,
+} from '@/lib/comment-utils'
+import { checkCommentContent, commentInsertLimitResult } from '@/lib/comment-filters'
+import { sanitizeCommentContent } from '@/lib/comment-markup'
+import { createCommentNotifications } from '@/lib/notifications'
 
 /**
- * Get comments for a comic with optional page filter
+ * Get one page of comments for a comic with optional page filter, newest or top first.
+ * Pass next_cursor from the previous call (with the same sort) to load more.
  */
 export async function getComicComments(
   comicId: string,
-  pageId?: string
-): Promise<{ error: string | null; data: CommentWithUser[] | null }> {
+  pageId?: string,
+  cursor?: string,
+  sort: CommentSort = 'newest'
+): Promise<{ error: string | null; data: CommentWithUser[] | null; next_cursor: string | null }> {
   try {
     const supabase = await createClient()
 
-    let query = supabase
-      .from('comic_comments')
-      .select(`
-        *,
-        profiles:user_id (
-          id,
-          full_name,
-          avatar_url,
-          email,
-          platform
-        )
-      `)
-      .eq('comic_id', comicId)
-      .order('created_at', { ascending: false })
-      .limit(50)
-
-    if (pageId) {
-      query = query.eq('page_id', pageId)
+    const decodedCursor = cursor ? decodeCommentCursor(cursor, sort) : null
+    if (cursor && !decodedCursor) {
+      return { error: 'Invalid cursor', data: null, next_cursor: null }
     }
 
-    const { data: comments, error } = await query
+    const { data: { user } } = await supabase.auth.getUser()
+
+    const { data: feedPage, error } = await fetchCommentFeedPage(supabase, {
+      comicId,
+      pageId,
+      cursor: decodedCursor,
+      sort,
+      userId: user?.id,
+    })
 
-    if (error) {
-      console.error('Error fetching comments:', error)
-      return { error: error.message, data: null }
+    if (error || !feedPage) {
+      return { error: error || 'Failed to fetch comments', data: null, next_cursor: null }
     }
 
-    // Transform the data to flatten the profile relationship
-    const commentsWithUsers: CommentWithUser[] =
-      comments?.map((comment: any) => ({
-        id: comment.id,
-        user_id: comment.user_id,
-        comic_id: comment.comic_id,
-        page_id: comment.page_id,
-        parent_id: comment.parent_id,
-        content: comment.content,
-        rating: comment.rating,
-        created_at: comment.created_at,
-        updated_at: comment.updated_at,
-        user: {
-          id: comment.profiles?.id,
-          full_name: comment.profiles?.full_name,
-          avatar_url: comment.profiles?.avatar_url,
-          email: comment.profiles?.email,
-          platform: comment.profiles?.platform,
-        },
-      })) || []
-
-    return { error: null, data: commentsWithUsers }
+    return { error: null, data: feedPage.data, next_cursor: feedPage.next_cursor }
   } catch (error: any) {
     console.error('Error in getComicComments:', error)
-    return { error: error.message || 'Failed to fetch comments', data: null }
+    return { error: error.message || 'Failed to fetch comments', data: null, next_cursor: null }
   }
 }
 
 /**
- * Create a new comment
+ * Create a new comment, or a reply when parentId is given. Top-level page
+ * comments can be anchored to a point or region of the page.
  */
 export async function createComment(
   comicId: string,
   content: string,
-  pageId?: string
+  pageId?: string,
+  parentId?: string,
+  anchor?: CommentAnchor
 ): Promise<{ error: string | null; data: CommentWithUser | null }> {
   try {
     const supabase = await createClient()
@@ -85,6 +73,9 @@ export async function createComment(
       return { error: 'Authentication required', data: null }
     }
 
+    // Strip unsafe characters and links before validating
+    content = typeof content === 'string' ? sanitizeCommentContent(content) : content
+
     // Validate content
     if (!content || typeof content !== 'string' || content.trim().length === 0) {
       return { error: 'Comment content is required', data: null }
@@ -94,6 +85,26 @@ export async function createComment(
       return { error: 'Comment content must be less than 2000 characters', data: null }
     }
 
+    const contentCheck = checkCommentContent(content)
+    if (contentCheck.error) {
+      return { error: contentCheck.error, data: null }
+    }
+
+    // Replies must stay on the parent's comic and page
+    let resolvedParentId: string | null = null
+    if (parentId) {
+      const resolved = await resolveReplyParent(supabase, comicId, pageId || null, parentId)
+      if (resolved.error) {
+        return { error: resolved.error, data: null }
+      }
+      resolvedParentId = resolved.parentId
+    }
+
+    const anchorCheck = parseCommentAnchor(anchor, { pageId: pageId || null, parentId: resolvedParentId })
+    if (anchorCheck.error) {
+      return { error: anchorCheck.error, data: null }
+    }
+
     // Insert comment
     const { data: comment, error: insertError } = await supabase
       .from('comic_comments')
@@ -101,42 +112,31 @@ export async function createComment(
         user_id: user.id,
         comic_id: comicId,
         page_id: pageId || null,
+        parent_id: resolvedParentId,
         content: content.trim(),
+        ...anchorCheck.columns,
       })
-      .select(`
-        *,
-        profiles:user_id (
-          id,
-          full_name,
-          avatar_url,
-          email
-        )
-      `)
+      .select(COMMENT_WITH_USER_SELECT)
       .single()
 
     if (insertError) {
+      // Rate limits and duplicate detection run on insert
+      const rateCheck = commentInsertLimitResult(insertError)
+      if (rateCheck?.error) {
+        return { error: rateCheck.error, data: null }
+      }
+
       console.error('Error creating comment:', insertError)
       return { error: 'Failed to create comment', data: null }
     }
 
-    // Transform the data
-    const commentWithUser: CommentWithUser = {
-      id: comment.id,
-      user_id: comment.user_id,
-      comic_id: comment.comic_id,
-      page_id: comment.page_id,
-      parent_id: comment.parent_id,
-      content: comment.content,
-      rating: comment.rating,
-      created_at: comment.created_at,
-      updated_at: comment.updated_at,
-      user: {
-        id: comment.profiles?.id,
-        full_name: comment.profiles?.full_name,
-        avatar_url: comment.profiles?.avatar_url,
-        email: comment.profiles?.email,
-      },
-    }
+    const commentWithUser = toCommentWithUser(comment)
+
+    // Replies and @mentions notify other readers (not for hidden comments)
+    await createCommentNotifications({
+      ...commentWithUser,
+      is_hidden: (comment as { is_hidden?: boolean }).is_hidden,
+    })
 
     return { error: null, data: commentWithUser }
   } catch (error: any) {
@@ -161,6 +161,9 @@ export async function updateComment(
       return { error: 'Authentication required', data: null }
     }
 
+    // Strip unsafe characters and links before validating
+    content = typeof content === 'string' ? sanitizeCommentContent(content) : content
+
     // Validate content
     if (!content || typeof content !== 'string' || content.trim().length === 0) {
       return { error: 'Comment content is required', data: null }
@@ -170,6 +173,11 @@ export async function updateComment(
       return { error: 'Comment content must be less than 2000 characters', data: null }
     }
 
+    const contentCheck = checkCommentContent(content)
+    if (contentCheck.error) {
+      return { error: contentCheck.error, data: null }
+    }
+
     // Verify ownership
     const { data: comment, error: commentError } = await supabase
       .from('comic_comments')
@@ -190,16 +198,7 @@ export async function updateComment(
       .from('comic_comments')
       .update({ content: content.trim() })
       .eq('id', commentId)
-      .select(`
-        *,
-        profiles:user_id (
-          id,
-          full_name,
-          avatar_url,
-          email,
-          platform
-        )
-      `)
+      .select(COMMENT_WITH_USER_SELECT)
       .single()
 
     if (updateError) {
@@ -207,25 +206,7 @@ export async function updateComment(
       return { error: 'Failed to update comment', data: null }
     }
 
-    // Transform the data
-    const commentWithUser: CommentWithUser = {
-      id: updatedComment.id,
-      user_id: updatedComment.user_id,
-      comic_id: updatedComment.comic_id,
-      page_id: updatedComment.page_id,
-      parent_id: updatedComment.parent_id,
-      content: updatedComment.content,
-      rating: updatedComment.rating,
-      created_at: updatedComment.created_at,
-      updated_at: updatedComment.updated_at,
-      user: {
-        id: updatedComment.profiles?.id,
-        full_name: updatedComment.profiles?.full_name,
-        avatar_url: updatedComment.profiles?.avatar_url,
-        email: updatedComment.profiles?.email,
-        platform: updatedComment.profiles?.platform,
-      },
-    }
+    const commentWithUser = toCommentWithUser(updatedComment)
 
     return { error: null, data: commentWithUser }
   } catch (error: any) {
@@ -235,7 +216,7 @@ export async function updateComment(
 }
 
 /**
- * Delete a comment
+ * Delete a comment. Deleting a top-level comment also deletes its replies.
  */
 export async function deleteComment(
   commentId: string
@@ -264,7 +245,7 @@ export async function deleteComment(
       return { error: 'You can only delete your own comments', success: false }
     }
 
-    // Delete comment
+    // Delete comment (replies cascade via parent_id)
     const { error: deleteError } = await supabase
       .from('comic_comments')
       .delete()
@@ -0,0 +1,90 @@
+/**
+ * Server-side posting limits and spam filters for comments
+ * Used by the comments API routes and comment-actions when writing a comment
+ *
+ * Rate limits are enforced by the database as each comment is inserted (the
+ * enforce_comment_rate_limit trigger): 5 comments a minute and 60 an hour per
+ * user, 3 per page (or comic-level feed) in 2 minutes, and no repeating the
+ * same text on a comic within 10 minutes.
+ *
+ * Blocklists are configured with comma-separated env vars:
+ * - COMMENT_BLOCKED_WORDS: words or phrases, matched case-insensitively on word boundaries
+ * - COMMENT_BLOCKED_DOMAINS: link domains, matching the domain and its subdomains
+ */
+
+const URL_PATTERN = /\b(?:https?:\/\/)?((?:[a-z0-9-]+\.)+[a-z]{2,})(?=[/:?#\s]|$)/gi
+
+export interface CommentFilterResult {
+  error: string | null
+  /** 429 for rate limits, 422 for rejected content */
+  status: 429 | 422 | null
+  /** Seconds until the user can post again (rate limits only) */
+  retryAfter?: number
+}
+
+const PASS: CommentFilterResult = { error: null, status: null }
+
+function parseList(value: string | undefined): string[] {
+  return (value || '')
+    .split(',')
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean)
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Reject content containing a blocked word or a link to a blocked domain
+ */
+export function checkCommentContent(content: string): CommentFilterResult {
+  const text = content.toLowerCase()
+
+  const blockedWords = parseList(process.env.COMMENT_BLOCKED_WORDS)
+  for (const word of blockedWords) {
+    if (new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(word)}($|[^\\p{L}\\p{N}])`, 'u').test(text)) {
+      return { error: 'Your comment contains language that is not allowed', status: 422 }
+    }
+  }
+
+  const blockedDomains = parseList(process.env.COMMENT_BLOCKED_DOMAINS)
+  if (blockedDomains.length > 0) {
+    for (const match of text.matchAll(URL_PATTERN)) {
+      const host = match[1].replace(/^www\./, '')
+      if (blockedDomains.some((domain) => host === domain || host.endsWith(`.${domain}`))) {
+        return { error: 'Your comment links to a site that is not allowed', status: 422 }
+      }
+    }
+  }
+
+  return PASS
+}
+
+/**
+ * The filter result for a comment insert rejected by the database's rate
+ * limit trigger (PT429, with the seconds to wait as details) or duplicate
+ * check (PT422); null for any other insert error
+ */
+export function commentInsertLimitResult(
+  error: { code?: string; details?: string | null }
+): CommentFilterResult | null {
+  if (error.code === 'PT422') {
+    return { error: 'You already posted this comment', status: 422 }
+  }
+  if (error.code === 'PT429') {
+    const retryAfter = Math.max(1, parseInt(error.details ?? '', 10) || 60)
+    return {
+      error: `You're commenting too fast. Please wait ${formatWait(retryAfter)} and try again.`,
+      status: 429,
+      retryAfter,
+    }
+  }
+  return null
+}
+
+function formatWait(seconds: number): string {
+  if (seconds < 60) return `${seconds} second${seconds !== 1 ? 's' : ''}`
+  const minutes = Math.ceil(seconds / 60)
+  return `${minutes} minute${minutes !== 1 ? 's' : ''}`
+}
@@ -0,0 +1,113 @@
+/**
+ * Limited comment markup: **bold**, *italic*, [links](https://...), bare
+ * http(s) URLs and ||spoilers||
+ * sanitizeCommentContent runs on the server before a comment is saved;
+ * parseCommentMarkup turns content into nodes the reader UIs render as React
+ * elements (never as HTML).
+ */
+
+import type { CommentNode } from '@/types/database'
+
+/** Nested formatting deeper than this is left as plain text */
+const MAX_MARKUP_DEPTH = 3
+
+// Control characters (except tab/newline), zero-width spaces and bidi overrides
+const UNSAFE_CHARS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F\u200B\u200E\u200F\u202A-\u202E\u2066-\u2069\uFEFF]/g
+
+/** Markdown links whose target isn't http(s), e.g. javascript: or data: */
+const UNSAFE_LINK = /\[([^\]\n]+)\]\((?!https?:\/\/)(?:[^()\s]|\([^()\s]*\))*\)/gi
+
+/**
+ * Groups: 1 spoiler, 2 bold, 3 italic, 4 link text, 5 link href, 6 bare URL.
+ * Italic needs non-space inside the asterisks so "2 * 3 * 4" stays text.
+ */
+const INLINE_PATTERN =
+  /\|\|([\s\S]+?)\|\||\*\*([\s\S]+?)\*\*|\*([^*\s](?:[^*]*[^*\s])?)\*|\[([^\]\n]+)\]\((https?:\/\/[^\s)]+)\)|(https?:\/\/[^\s<]*[^\s<.,:;!?"')\]])/g
+
+interface ParseContext {
+  depth: number
+  inLink: boolean
+  inSpoiler: boolean
+}
+
+/**
+ * Normalize comment text before it's stored: unify newlines, strip invisible
+ * and control characters, collapse long runs of blank lines and unwrap links
+ * that don't point at http(s).
+ */
+export function sanitizeCommentContent(content: string): string {
+  return content
+    .replace(/\r\n?/g, '\n')
+    .replace(UNSAFE_CHARS, '')
+    .replace(UNSAFE_LINK, '$1')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+function isSafeHref(href: string): boolean {
+  try {
+    const url = new URL(href)
+    return url.protocol === 'http:' || url.protocol === 'https:'
+  } catch {
+    return false
+  }
+}
+
+function parseInline(text: string, context: ParseContext): CommentNode[] {
+  const nodes: CommentNode[] = []
+  const pattern = new RegExp(INLINE_PATTERN.source, 'g')
+  const canNest = context.depth < MAX_MARKUP_DEPTH
+  const nested = (overrides: Partial<ParseContext>): ParseContext => ({
+    ...context,
+    ...overrides,
+    depth: context.depth + 1,
+  })
+  let lastIndex = 0
+  let match: RegExpExecArray | null
+
+  while ((match = pattern.exec(text)) !== null) {
+    const [raw, spoiler, bold, italic, linkText, linkHref, bareUrl] = match
+    let node: CommentNode | null = null
+
+    if (spoiler !== undefined) {
+      if (canNest && !context.inSpoiler) {
+        node = { type: 'spoiler', children: parseInline(spoiler, nested({ inSpoiler: true })) }
+      }
+    } else if (bold !== undefined) {
+      if (canNest) node = { type: 'bold', children: parseInline(bold, nested({})) }
+    } else if (italic !== undefined) {
+      if (canNest) node = { type: 'italic', children: parseInline(italic, nested({})) }
+    } else if (linkHref !== undefined) {
+      if (!context.inLink && isSafeHref(linkHref)) {
+        node = { type: 'link', href: linkHref, children: parseInline(linkText, nested({ inLink: true })) }
+      }
+    } else if (bareUrl !== undefined) {
+      if (!context.inLink && isSafeHref(bareUrl)) {
+        node = { type: 'link', href: bareUrl, children: [{ type: 'text', text: bareUrl }] }
+      }
+    }
+
+    // Unsupported here (e.g. a spoiler inside a spoiler): keep the raw text
+    if (!node) continue
+
+    if (match.index > lastIndex) {
+      nodes.push({ type: 'text', text: text.slice(lastIndex, match.index) })
+    }
+    nodes.push(node)
+    lastIndex = match.index + raw.length
+  }
+
+  if (lastIndex < text.length) {
+    nodes.push({ type: 'text', text: text.slice(lastIndex) })
+  }
+
+  return nodes
+}
+
+/**
+ * Parse comment content into formatting nodes. Text is kept verbatim in text
+ * nodes; anything that isn't recognised markup stays as typed.
+ */
+export function parseCommentMarkup(content: string): CommentNode[] {
+  return parseInline(content, { depth: 0, inLink: false, inSpoiler: false })
+}
@@ -0,0 +1,535 @@
+/**
+ * Client-safe helpers for comment feeds
+ * Shared by the comments API routes, comment-actions and the reader comment UIs
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { parseCommentMarkup } from '@/lib/comment-markup'
+import type {
+  CommentAnchor,
+  CommentWithUser,
+  CommentFeedPage,
+  CommentReportReason,
+  CommentReactionType,
+  CommentSort,
+} from '@/types/database'
+
+/** Top-level comments per feed page (replies come with their thread) */
+export const COMMENT_PAGE_SIZE = 20
+export const MAX_COMMENT_PAGE_SIZE = 100
+
+/** How often open comment lists re-check that their comments are still visible */
+export const COMMENT_RESYNC_INTERVAL_MS = 60 * 1000
+
+/** Reasons readers can pick when reporting a comment */
+export const COMMENT_REPORT_REASONS: { value: CommentReportReason; label: string }[] = [
+  { value: 'spam', label: 'Spam or advertising' },
+  { value: 'harassment', label: 'Harassment or hate' },
+  { value: 'spoiler', label: 'Unmarked spoilers' },
+  { value: 'inappropriate', label: 'Inappropriate content' },
+  { value: 'other', label: 'Something else' },
+]
+
+/** Reactions readers can add to a comment, in display order */
+export const COMMENT_REACTIONS: { value: CommentReactionType; emoji: string; label: string }[] = [
+  { value: 'like', emoji: '👍', label: 'Like' },
+  { value: 'love', emoji: '❤️', label: 'Love' },
+  { value: 'laugh', emoji: '😂', label: 'Haha' },
+  { value: 'wow', emoji: '😮', label: 'Wow' },
+  { value: 'sad', emoji: '😢', label: 'Sad' },
+  { value: 'fire', emoji: '🔥', label: 'Fire' },
+]
+
+/** Profile handles: 3-30 lowercase letters, digits or underscores */
+export const HANDLE_PATTERN = /^[a-z0-9_]{3,30}$/
+
+/** Mentions notify at most this many readers per comment */
+export const MAX_MENTIONS_PER_COMMENT = 10
+
+const MENTION_PATTERN = /(^|[^a-zA-Z0-9_@])@([a-zA-Z0-9_]{3,30})(?![a-zA-Z0-9_])/g
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/** Columns to select for a comment row joined with its author's profile */
+export const COMMENT_WITH_USER_SELECT = `
+  *,
+  profiles:user_id (
+    id,
+    full_name,
+    avatar_url,
+    email,
+    platform
+  )
+`
+
+/**
+ * Flatten a comment row selected with COMMENT_WITH_USER_SELECT
+ */
+export function toCommentWithUser(comment: any): CommentWithUser {
+  return {
+    id: comment.id,
+    user_id: comment.user_id,
+    comic_id: comment.comic_id,
+    page_id: comment.page_id,
+    parent_id: comment.parent_id,
+    content: comment.content,
+    formatted: parseCommentMarkup(comment.content ?? ''),
+    rating: comment.rating,
+    reply_count: comment.reply_count ?? 0,
+    reactions: comment.reaction_counts ?? {},
+    reaction_total: comment.reaction_total ?? 0,
+    anchor: comment.anchor_x != null && comment.anchor_y != null
+      ? {
+          x: comment.anchor_x,
+          y: comment.anchor_y,
+          width: comment.anchor_width ?? null,
+          height: comment.anchor_height ?? null,
+        }
+      : null,
+    my_reactions: [],
+    created_at: comment.created_at,
+    updated_at: comment.updated_at,
+    user: {
+      id: comment.profiles?.id,
+      full_name: comment.profiles?.full_name,
+      avatar_url: comment.profiles?.avatar_url,
+      email: comment.profiles?.email,
+      platform: comment.profiles?.platform,
+    },
+  }
+}
+
+/**
+ * Cursor pointing just past a comment in a feed.
+ * Format is `<created_at>|<id>` for newest and `<reaction_total>|<created_at>|<id>`
+ * for top; clients should treat it as opaque.
+ */
+export function encodeCommentCursor(
+  comment: { created_at: string; id: string; reaction_total?: number },
+  sort: CommentSort = 'newest'
+): string {
+  const base = `${comment.created_at}|${comment.id}`
+  return sort === 'top' ? `${comment.reaction_total ?? 0}|${base}` : base
+}
+
+/**
+ * Parse and validate a cursor from encodeCommentCursor. Returns null if malformed.
+ */
+export function decodeCommentCursor(
+  cursor: string,
+  sort: CommentSort = 'newest'
+): { created_at: string; id: string; reaction_total?: number } | null {
+  const parts = cursor.split('|')
+  let reactionTotal: number | undefined
+  if (sort === 'top') {
+    const total = parts.shift()
+    if (!total || !/^\d+$/.test(total)) return null
+    reactionTotal = parseInt(total, 10)
+  }
+
+  const [createdAt, id, ...rest] = parts
+  if (rest.length > 0 || !createdAt || !id || !UUID_PATTERN.test(id)) return null
+  if (Number.isNaN(new Date(createdAt).getTime())) return null
+  return { created_at: createdAt, id, reaction_total: reactionTotal }
+}
+
+/**
+ * Load one page of a comment feed: top-level comments newest first (created_at,
+ * then id, so ties never skip or repeat across pages) or, for top, by total
+ * reactions first, plus all of their replies. Callers validate the comic/page
+ * and decode the cursor first. Pass userId to fill in my_reactions.
+ */
+export async function fetchCommentFeedPage(
+  supabase: SupabaseClient<any, any, any>,
+  options: {
+    comicId: string
+    pageId?: string | null
+    cursor?: { created_at: string; id: string; reaction_total?: number } | null
+    limit?: number
+    sort?: CommentSort
+    userId?: string | null
+  }
+): Promise<{ error: string | null; data: CommentFeedPage | null }> {
+  const limit = Math.min(Math.max(options.limit || COMMENT_PAGE_SIZE, 1), MAX_COMMENT_PAGE_SIZE)
+  const sort = options.sort ?? 'newest'
+
+  let query = supabase
+    .from('comic_comments')
+    .select(COMMENT_WITH_USER_SELECT)
+    .eq('comic_id', options.comicId)
+    .is('parent_id', null)
+
+  if (sort === 'top') {
+    query = query.order('reaction_total', { ascending: false })
+  }
+
+  query = query
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    // One extra row tells us whether there is another page
+    .limit(limit + 1)
+
+  if (options.pageId) {
+    query = query.eq('page_id', options.pageId)
+  }
+
+  if (options.cursor) {
+    const { created_at, id, reaction_total } = options.cursor
+    const afterInTime = `created_at.lt."${created_at}",and(created_at.eq."${created_at}",id.lt.${id})`
+    if (sort === 'top') {
+      const total = reaction_total ?? 0
+      query = query.or(
+        `reaction_total.lt.${total},and(reaction_total.eq.${total},or(${afterInTime}))`
+      )
+    } else {
+      query = query.or(afterInTime)
+    }
+  }
+
+  const { data: rows, error } = await query
+  if (error) {
+    console.error('Error fetching comments:', error)
+    return { error: error.message, data: null }
+  }
+
+  const topLevel = (rows || []).slice(0, limit)
+  const hasMore = (rows || []).length > limit
+
+  // Load every reply in the returned threads
+  let replies: any[] = []
+  if (topLevel.length > 0) {
+    const { data: replyRows, error: repliesError } = await supabase
+      .from('comic_comments')
+      .select(COMMENT_WITH_USER_SELECT)
+      .in('parent_id', topLevel.map((comment: any) => comment.id))
+      .order('created_at', { ascending: true })
+
+    if (repliesError) {
+      console.error('Error fetching replies:', repliesError)
+      return { error: repliesError.message, data: null }
+    }
+    replies = replyRows || []
+  }
+
+  const comments = [...topLevel, ...replies].map(toCommentWithUser)
+  if (options.userId) {
+    await attachMyReactions(supabase, comments, options.userId)
+  }
+
+  return {
+    error: null,
+    data: {
+      // Flat list of top-level comments followed by their replies; clients group by parent_id
+      data: comments,
+      next_cursor: hasMore ? encodeCommentCursor(topLevel[topLevel.length - 1], sort) : null,
+    },
+  }
+}
+
+/**
+ * Fill in my_reactions on loaded comments for the given user (in place)
+ */
+export async function attachMyReactions(
+  supabase: SupabaseClient<any, any, any>,
+  comments: CommentWithUser[],
+  userId: string
+): Promise<void> {
+  if (comments.length === 0) return
+
+  const { data, error } = await supabase
+    .from('comment_reactions')
+    .select('comment_id, reaction')
+    .eq('user_id', userId)
+    .in('comment_id', comments.map((comment) => comment.id))
+
+  if (error) {
+    console.error('Error fetching reactions:', error)
+    return
+  }
+
+  const byComment = new Map<string, CommentReactionType[]>()
+  for (const row of (data || []) as { comment_id: string; reaction: CommentReactionType }[]) {
+    const list = byComment.get(row.comment_id) || []
+    list.push(row.reaction)
+    byComment.set(row.comment_id, list)
+  }
+
+  for (const comment of comments) {
+    comment.my_reactions = byComment.get(comment.id) || []
+  }
+}
+
+/**
+ * Optimistically add or remove the current user's reaction on a comment
+ */
+export function toggleReaction(
+  comment: CommentWithUser,
+  reaction: CommentReactionType,
+  active: boolean
+): CommentWithUser {
+  const hasReaction = comment.my_reactions.includes(reaction)
+  if (hasReaction === active) return comment
+
+  const delta = active ? 1 : -1
+  const count = Math.max((comment.reactions[reaction] ?? 0) + delta, 0)
+  const reactions = { ...comment.reactions, [reaction]: count }
+  if (count === 0) delete reactions[reaction]
+
+  return {
+    ...comment,
+    reactions,
+    reaction_total: Math.max(comment.reaction_total + delta, 0),
+    my_reactions: active
+      ? [...comment.my_reactions, reaction]
+      : comment.my_reactions.filter((r) => r !== reaction),
+  }
+}
+
+/**
+ * Top-first comparator for top-level comments: most reactions, then newest
+ */
+export function compareTopComments(a: CommentWithUser, b: CommentWithUser): number {
+  return (
+    b.reaction_total - a.reaction_total ||
+    new Date(b.created_at).getTime() - new Date(a.created_at).getTime() ||
+    b.id.localeCompare(a.id)
+  )
+}
+
+/**
+ * Resolve the parent for a new reply. Threads are one level deep, so replying
+ * to a reply attaches to that reply's top-level comment. The parent must be on
+ * the same comic and page as the reply.
+ */
+export async function resolveReplyParent(
+  supabase: SupabaseClient<any, any, any>,
+  comicId: string,
+  pageId: string | null,
+  parentId: string
+): Promise<{ error: string | null; parentId: string | null }> {
+  const { data: parent } = await supabase
+    .from('comic_comments')
+    .select('id, comic_id, page_id, parent_id')
+    .eq('id', parentId)
+    .maybeSingle()
+
+  if (!parent || parent.comic_id !== comicId) {
+    return { error: 'Parent comment not found', parentId: null }
+  }
+
+  if ((parent.page_id ?? null) !== pageId) {
+    return { error: 'Replies must be on the same page as the comment they reply to', parentId: null }
+  }
+
+  return { error: null, parentId: parent.parent_id ?? parent.id }
+}
+
+/**
+ * Validate an anchor from a request body. Anchors need a page and can't be on
+ * replies; a region must fit inside the page. Returns the columns to insert.
+ */
+export function parseCommentAnchor(
+  value: unknown,
+  options: { pageId: string | null; parentId: string | null }
+): {
+  error: string | null
+  columns: { anchor_x: number; anchor_y: number; anchor_width: number | null; anchor_height: number | null } | null
+} {
+  if (value === undefined || value === null) return { error: null, columns: null }
+
+  if (!options.pageId || options.parentId) {
+    return { error: 'Only top-level page comments can be anchored', columns: null }
+  }
+
+  const anchor = value as Partial<CommentAnchor>
+  const isFraction = (n: unknown): n is number => typeof n === 'number' && Number.isFinite(n) && n >= 0 && n <= 1
+  if (!isFraction(anchor.x) || !isFraction(anchor.y)) {
+    return { error: 'Anchor coordinates must be between 0 and 1', columns: null }
+  }
+
+  const hasWidth = anchor.width !== undefined && anchor.width !== null
+  const hasHeight = anchor.height !== undefined && anchor.height !== null
+  if (!hasWidth && !hasHeight) {
+    return { error: null, columns: { anchor_x: anchor.x, anchor_y: anchor.y, anchor_width: null, anchor_height: null } }
+  }
+
+  if (
+    !isFraction(anchor.width) || !isFraction(anchor.height) ||
+    anchor.width === 0 || anchor.height === 0 ||
+    anchor.x + anchor.width > 1 || anchor.y + anchor.height > 1
+  ) {
+    return { error: 'Anchor region must fit inside the page', columns: null }
+  }
+
+  return {
+    error: null,
+    columns: { anchor_x: anchor.x, anchor_y: anchor.y, anchor_width: anchor.width, anchor_height: anchor.height },
+  }
+}
+
+/**
+ * Group a flat comment list into top-level comments and replies by parent.
+ * Replies are ordered oldest first; top-level order is left to the caller.
+ */
+export function groupCommentThreads(comments: CommentWithUser[]): {
+  topLevel: CommentWithUser[]
+  repliesByParent: Map<string, CommentWithUser[]>
+} {
+  const topLevel: CommentWithUser[] = []
+  const repliesByParent = new Map<string, CommentWithUser[]>()
+
+  for (const comment of comments) {
+    if (!comment.parent_id) {
+      topLevel.push(comment)
+      continue
+    }
+    const replies = repliesByParent.get(comment.parent_id) || []
+    replies.push(comment)
+    repliesByParent.set(comment.parent_id, replies)
+  }
+
+  repliesByParent.forEach((replies) => {
+    replies.sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
+  })
+
+  return { topLevel, repliesByParent }
+}
+
+/**
+ * Merge fetched comments into local state by id, fetched copies winning.
+ * Optimistic entries (temp- ids) are dropped once their saved copy arrives.
+ */
+export function mergeComments(current: CommentWithUser[], incoming: CommentWithUser[]): CommentWithUser[] {
+  const byId = new Map<string, CommentWithUser>()
+  for (const comment of current) {
+    if (comment.id.startsWith('temp-') && incoming.some((saved) => isSavedCopy(comment, saved))) continue
+    byId.set(comment.id, comment)
+  }
+  for (const comment of incoming) {
+    byId.set(comment.id, comment)
+  }
+  return Array.from(byId.values())
+}
+
+/**
+ * Swap an optimistic comment for the saved one, without duplicating it if a
+ * refetch already brought the saved copy in
+ */
+export function replaceOptimisticComment(
+  current: CommentWithUser[],
+  tempId: string,
+  saved: CommentWithUser
+): CommentWithUser[] {
+  const withoutTemp = current.filter((comment) => comment.id !== tempId)
+  return mergeComments(withoutTemp, [saved])
+}
+
+function isSavedCopy(optimistic: CommentWithUser, saved: CommentWithUser): boolean {
+  return (
+    saved.user_id === optimistic.user_id &&
+    saved.content === optimistic.content &&
+    saved.parent_id === optimistic.parent_id &&
+    saved.page_id === optimistic.page_id
+  )
+}
+
+/**
+ * Load a single comment with its author, e.g. for a Realtime insert payload
+ * (which carries the bare row only)
+ */
+export async function fetchCommentWithUser(
+  supabase: SupabaseClient<any, any, any>,
+  commentId: string
+): Promise<CommentWithUser | null> {
+  const { data, error } = await supabase
+    .from('comic_comments')
+    .select(COMMENT_WITH_USER_SELECT)
+    .eq('id', commentId)
+    .maybeSingle()
+
+  if (error || !data) return null
+  return toCommentWithUser(data)
+}
+
+/**
+ * Apply a Realtime update payload (bare row) to a loaded comment, keeping its author.
+ * A comment that was just hidden is dropped, except for its author (shadow bans stay invisible).
+ */
+export function applyCommentUpdate(
+  current: CommentWithUser[],
+  row: any,
+  viewerId: string | null
+): CommentWithUser[] {
+  if (row.is_hidden && row.user_id !== viewerId) {
+    return removeComment(current, row.id)
+  }
+
+  return current.map((comment) =>
+    comment.id === row.id
+      ? {
+          ...comment,
+          content: row.content ?? comment.content,
+          formatted: typeof row.content === 'string' ? parseCommentMarkup(row.content) : comment.formatted,
+          reply_count: row.reply_count ?? comment.reply_count,
+          reactions: row.reaction_counts ?? comment.reactions,
+          reaction_total: row.reaction_total ?? comment.reaction_total,
+          updated_at: row.updated_at ?? comment.updated_at,
+        }
+      : comment
+  )
+}
+
+/**
+ * Ids of loaded comments the reader can no longer see (deleted, or hidden and
+ * filtered out by RLS). Covers Realtime events missed while disconnected, and
+ * hide events, which RLS only delivers to the author and admins.
+ */
+export async function fetchGoneCommentIds(
+  supabase: SupabaseClient<any, any, any>,
+  commentIds: string[]
+): Promise<string[]> {
+  const savedIds = commentIds.filter((id) => !id.startsWith('temp-'))
+  const gone: string[] = []
+
+  // Batched to keep the request URL short
+  for (let i = 0; i < savedIds.length; i += MAX_COMMENT_PAGE_SIZE) {
+    const batch = savedIds.slice(i, i + MAX_COMMENT_PAGE_SIZE)
+    const { data, error } = await supabase
+      .from('comic_comments')
+      .select('id')
+      .in('id', batch)
+
+    if (error || !data) return []
+    const visible = new Set(data.map((row: { id: string }) => row.id))
+    gone.push(...batch.filter((id) => !visible.has(id)))
+  }
+
+  return gone
+}
+
+/**
+ * Drop a comment and, for a top-level comment, its replies (they cascade server-side)
+ */
+export function removeComment(current: CommentWithUser[], commentId: string): CommentWithUser[] {
+  return current.filter((comment) => comment.id !== commentId && comment.parent_id !== commentId)
+}
+
+/**
+ * Reply count to display: the server count, or the loaded replies if more
+ * (e.g. an optimistic reply not yet reflected in reply_count)
+ */
+export function getReplyCount(comment: CommentWithUser, loadedReplies: number): number {
+  return Math.max(comment.reply_count ?? 0, loadedReplies)
+}
+
+/**
+ * Lowercased @mentions in comment content, without duplicates
+ */
+export function extractMentions(content: string): string[] {
+  const mentions = new Set<string>()
+  for (const match of content.matchAll(MENTION_PATTERN)) {
+    mentions.add(match[2].toLowerCase())
+    if (mentions.size >= MAX_MENTIONS_PER_COMMENT) break
+  }
+  return Array.from(mentions)
+}
@@ -0,0 +1,206 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { createClient } from '@/lib/supabase/server'
+import { createSignedUrlMap, ASSET_URL_TTL_SECONDS } from '@/lib/storage-urls'
+
+export interface LibraryEntry {
+  comic_id: string
+  comic_title: string
+  cover_image_url: string | null
+  favorited_at: string
+  last_read_at: string | null
+  page_number: number | null
+  total_pages: number
+  percent_complete: number
+}
+
+/**
+ * Add a comic to the signed-in user's favorites. Adding twice is a no-op.
+ */
+export async function addFavorite(comicId: string): Promise<{ error: string | null }> {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return { error: 'Authentication required' }
+    }
+
+    const { error } = await supabase
+      .from('user_favorites')
+      .upsert({
+        user_id: user.id,
+        comic_id: comicId,
+      }, {
+        onConflict: 'user_id,comic_id',
+        ignoreDuplicates: true,
+      })
+
+    if (error) {
+      console.error('Error adding favorite:', error)
+      return { error: error.message }
+    }
+
+    revalidatePath('/profile')
+    return { error: null }
+  } catch (error: any) {
+    console.error('Error in addFavorite:', error)
+    return { error: error.message || 'Failed to add favorite' }
+  }
+}
+
+/**
+ * Remove a comic from the signed-in user's favorites
+ */
+export async function removeFavorite(comicId: string): Promise<{ error: string | null }> {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return { error: 'Authentication required' }
+    }
+
+    const { error } = await supabase
+      .from('user_favorites')
+      .delete()
+      .eq('user_id', user.id)
+      .eq('comic_id', comicId)
+
+    if (error) {
+      console.error('Error removing favorite:', error)
+      return { error: error.message }
+    }
+
+    revalidatePath('/profile')
+    return { error: null }
+  } catch (error: any) {
+    console.error('Error in removeFavorite:', error)
+    return { error: error.message || 'Failed to remove favorite' }
+  }
+}
+
+/**
+ * Get the ids of the signed-in user's favorited comics.
+ * Returns an empty list for anonymous readers.
+ */
+export async function getFavoriteComicIds(): Promise<{ error: string | null; data: string[] }> {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return { error: null, data: [] }
+    }
+
+    const { data, error } = await supabase
+      .from('user_favorites')
+      .select('comic_id')
+      .eq('user_id', user.id)
+
+    if (error) {
+      console.error('Error fetching favorites:', error)
+      return { error: error.message, data: [] }
+    }
+
+    return { error: null, data: (data || []).map((row: any) => row.comic_id) }
+  } catch (error: any) {
+    console.error('Error in getFavoriteComicIds:', error)
+    return { error: error.message || 'Failed to fetch favorites', data: [] }
+  }
+}
+
+/**
+ * Get the signed-in user's library: favorited comics with reading progress.
+ * Sorted by date added, newest first; callers can re-sort by last_read_at.
+ */
+export async function getLibrary(): Promise<{ error: string | null; data: LibraryEntry[] | null }> {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return { error: 'Authentication required', data: null }
+    }
+
+    const { data: favorites, error } = await supabase
+      .from('user_favorites')
+      .select(`
+        comic_id,
+        created_at,
+        comics:comic_id (
+          id,
+          title,
+          cover_image_path
+        )
+      `)
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      console.error('Error fetching library:', error)
+      return { error: error.message, data: null }
+    }
+
+    const rows = ((favorites || []) as any[]).filter((row) => row.comics)
+    if (rows.length === 0) {
+      return { error: null, data: [] }
+    }
+
+    const comicIds = rows.map((row) => row.comic_id)
+    const [{ data: progressRows }, { data: pages }] = await Promise.all([
+      supabase
+        .from('user_reading_progress')
+        .select('comic_id, page_id, updated_at')
+        .eq('user_id', user.id)
+        .in('comic_id', comicIds),
+      supabase
+        .from('comic_pages')
+        .select('id, comic_id, page_number')
+        .in('comic_id', comicIds)
+        .order('page_number', { ascending: true }),
+    ])
+
+    // Group page ids by comic, preserving page order
+    const pagesByComic = new Map<string, string[]>()
+    for (const page of (pages || []) as any[]) {
+      const list = pagesByComic.get(page.comic_id) || []
+      list.push(page.id)
+      pagesByComic.set(page.comic_id, list)
+    }
+    const progressByComic = new Map<string, { page_id: string; updated_at: string }>()
+    for (const progress of (progressRows || []) as any[]) {
+      progressByComic.set(progress.comic_id, progress)
+    }
+
+    const coverUrls = await createSignedUrlMap(
+      rows.map((row) => row.comics.cover_image_path),
+      ASSET_URL_TTL_SECONDS
+    )
+
+    const library: LibraryEntry[] = rows.map((row) => {
+      const comicPages = pagesByComic.get(row.comic_id) || []
+      const progress = progressByComic.get(row.comic_id)
+      const pageIndex = progress ? comicPages.indexOf(progress.page_id) : -1
+
+      return {
+        comic_id: row.comic_id,
+        comic_title: row.comics.title,
+        cover_image_url: coverUrls.get(row.comics.cover_image_path) ?? null,
+        favorited_at: row.created_at,
+        last_read_at: pageIndex !== -1 ? progress!.updated_at : null,
+        page_number: pageIndex !== -1 ? pageIndex + 1 : null,
+        total_pages: comicPages.length,
+        percent_complete: pageIndex !== -1 && comicPages.length > 0
+          ? Math.round(((pageIndex + 1) / comicPages.length) * 100)
+          : 0,
+      }
+    })
+
+    return { error: null, data: library }
+  } catch (error: any) {
+    console.error('Error in getLibrary:', error)
+    return { error: error.message || 'Failed to fetch library', data: null }
+  }
+}
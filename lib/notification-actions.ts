@@ -0,0 +1,104 @@
+'use server'
+
+import { createClient } from '@/lib/supabase/server'
+import type { NotificationWithDetails } from '@/types/database'
+
+const EXCERPT_LENGTH = 100
+
+/**
+ * Get the signed-in user's most recent notifications and unread count
+ */
+export async function getNotifications(limit: number = 20): Promise<{
+  error: string | null
+  data: { notifications: NotificationWithDetails[]; unread_count: number } | null
+}> {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return { error: 'Authentication required', data: null }
+    }
+
+    const [{ data, error }, { count, error: countError }] = await Promise.all([
+      supabase
+        .from('notifications')
+        .select(`
+          *,
+          actor:actor_id (id, full_name, avatar_url, handle),
+          comics:comic_id (title),
+          comic_pages:page_id (page_number),
+          comic_comments:comment_id (content)
+        `)
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false })
+        .limit(limit),
+      supabase
+        .from('notifications')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', user.id)
+        .is('read_at', null),
+    ])
+
+    if (error || countError) {
+      console.error('Error fetching notifications:', error || countError)
+      return { error: (error || countError)!.message, data: null }
+    }
+
+    const notifications: NotificationWithDetails[] = (data || []).map((row: any) => {
+      const { actor, comics, comic_pages, comic_comments, ...notification } = row
+      const content: string = comic_comments?.content || ''
+
+      return {
+        ...notification,
+        actor: actor || null,
+        comic_title: comics?.title || 'Unknown comic',
+        page_number: comic_pages?.page_number ?? null,
+        comment_excerpt: content.length > EXCERPT_LENGTH
+          ? `${content.slice(0, EXCERPT_LENGTH).trimEnd()}…`
+          : content,
+      }
+    })
+
+    return { error: null, data: { notifications, unread_count: count || 0 } }
+  } catch (error: any) {
+    console.error('Error in getNotifications:', error)
+    return { error: error.message || 'Failed to fetch notifications', data: null }
+  }
+}
+
+/**
+ * Mark notifications as read. Marks all unread notifications when no ids are given.
+ */
+export async function markNotificationsRead(ids?: string[]): Promise<{ error: string | null }> {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return { error: 'Authentication required' }
+    }
+
+    let query = supabase
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('user_id', user.id)
+      .is('read_at', null)
+
+    if (ids && ids.length > 0) {
+      query = query.in('id', ids)
+    }
+
+    const { error } = await query
+
+    if (error) {
+      console.error('Error marking notifications read:', error)
+      return { error: error.message }
+    }
+
+    return { error: null }
+  } catch (error: any) {
+    console.error('Error in markNotificationsRead:', error)
+    return { error: error.message || 'Failed to update notifications' }
+  }
+}
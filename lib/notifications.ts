@@ -0,0 +1,97 @@
+/**
+ * Server-side notification fan-out for new comments
+ * Used by the comments API route and comment-actions after a comment is saved
+ */
+
+import { createAdminClient } from '@/lib/supabase/admin'
+import { extractMentions } from '@/lib/comment-utils'
+import type { NotificationType } from '@/types/database'
+
+interface NotifiableComment {
+  id: string
+  user_id: string
+  comic_id: string
+  page_id: string | null
+  parent_id: string | null
+  content: string
+  is_hidden?: boolean
+}
+
+/**
+ * Notify the parent comment's author of a reply and anyone @mentioned.
+ * Mentions match a profile handle, or else a unique full name with
+ * underscores for spaces (@jane_doe -> "Jane Doe"). Never throws: a failed
+ * notification shouldn't fail the comment.
+ */
+export async function createCommentNotifications(comment: NotifiableComment): Promise<void> {
+  // Hidden (e.g. shadow-banned) comments must not reach anyone
+  if (comment.is_hidden) return
+
+  try {
+    // Notifications have no insert policy and recipients' profiles are looked up by handle
+    const supabase = createAdminClient()
+    const recipients = new Map<string, NotificationType>()
+
+    const mentions = extractMentions(comment.content)
+    if (mentions.length > 0) {
+      const { data: byHandle } = await supabase
+        .from('profiles')
+        .select('id, handle')
+        .in('handle', mentions)
+
+      const matched = new Set<string>()
+      for (const profile of (byHandle || []) as { id: string; handle: string | null }[]) {
+        recipients.set(profile.id, 'mention')
+        if (profile.handle) matched.add(profile.handle)
+      }
+
+      for (const mention of mentions.filter((m) => !matched.has(m))) {
+        const { data: byName } = await supabase
+          .from('profiles')
+          .select('id')
+          .ilike('full_name', mention.replace(/_/g, ' '))
+          .limit(2)
+
+        // Skip ambiguous names rather than notify the wrong reader
+        if (byName && byName.length === 1) {
+          recipients.set((byName[0] as { id: string }).id, 'mention')
+        }
+      }
+    }
+
+    if (comment.parent_id) {
+      const { data: parent } = await supabase
+        .from('comic_comments')
+        .select('user_id')
+        .eq('id', comment.parent_id)
+        .maybeSingle()
+
+      if (parent) {
+        recipients.set((parent as { user_id: string }).user_id, 'reply')
+      }
+    }
+
+    recipients.delete(comment.user_id)
+    if (recipients.size === 0) return
+
+    const { error } = await supabase
+      .from('notifications')
+      .upsert(
+        Array.from(recipients, ([userId, type]) => ({
+          user_id: userId,
+          actor_id: comment.user_id,
+          type,
+          comic_id: comment.comic_id,
+          page_id: comment.page_id,
+          comment_id: comment.id,
+        })),
+        { onConflict: 'user_id,comment_id', ignoreDuplicates: true }
+      )
+
+    if (error) {
+      console.error('Error creating notifications:', error)
+    }
+  } catch (error) {
+    console.error('Error in createCommentNotifications:', error)
+  }
+}
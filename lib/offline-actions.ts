@@ -0,0 +1,73 @@
+'use server'
+
+import { createClient } from '@/lib/supabase/server'
+import { getUserSubscription, hasActiveSubscription } from '@/lib/subscription-actions'
+import { getComicById, getComicPages } from '@/lib/comic-actions'
+
+/** Downloads without a subscription end date (e.g. manual grants) expire after this */
+const MAX_OFFLINE_DAYS = 30
+
+export interface OfflineBundle {
+  comic_id: string
+  title: string
+  cover_image_url: string | null
+  /** Downloads stop being readable at the subscription end date */
+  expires_at: string
+  pages: { id: string; page_number: number; image_url: string }[]
+}
+
+/**
+ * Signed URLs for every page the member can read, plus when the download
+ * expires. Only signed-in members with an active subscription can download.
+ */
+export async function getOfflineBundle(comicId: string): Promise<{
+  error: string | null
+  data: OfflineBundle | null
+}> {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return { error: 'Authentication required', data: null }
+    }
+
+    if (!await hasActiveSubscription(user.id)) {
+      return { error: 'An active membership is required to download comics', data: null }
+    }
+
+    const subscription = await getUserSubscription(user.id)
+    const maxExpiry = new Date(Date.now() + MAX_OFFLINE_DAYS * 24 * 60 * 60 * 1000)
+    const endDate = subscription?.subscription_end_date ? new Date(subscription.subscription_end_date) : null
+    const expiresAt = endDate && endDate < maxExpiry ? endDate : maxExpiry
+
+    const [{ data: comic, error: comicError }, { data: pages, error: pagesError }] = await Promise.all([
+      getComicById(comicId),
+      getComicPages(comicId),
+    ])
+
+    if (comicError || !comic) {
+      return { error: comicError || 'Comic not found', data: null }
+    }
+
+    if (pagesError || !pages) {
+      return { error: pagesError || 'Failed to fetch pages', data: null }
+    }
+
+    return {
+      error: null,
+      data: {
+        comic_id: comic.id,
+        title: comic.title,
+        cover_image_url: comic.cover_image_url ?? null,
+        expires_at: expiresAt.toISOString(),
+        pages: pages
+          .filter((page) => !page.is_locked && page.image_url)
+          .map((page) => ({ id: page.id, page_number: page.page_number, image_url: page.image_url! })),
+      },
+    }
+  } catch (error: any) {
+    console.error('Error in getOfflineBundle:', error)
+    return { error: error.message || 'Failed to prepare download', data: null }
+  }
+}
@@ -0,0 +1,203 @@
+/**
+ * Browser-only helpers for comics downloaded for offline reading
+ * Used by the detail page download button, the profile downloads list and
+ * ComicReader. Everything lives in Cache Storage so the service worker
+ * (public/sw.js, which mirrors these keys) can serve it without the network:
+ * - /offline/comics/<comicId>/manifest: OfflineComic JSON
+ * - /offline/comics/<comicId>/pages/<pageId>: page images
+ * - /offline/comics/<comicId>/cover: cover image
+ * - /comics/read/<comicId>: the reader page (shell), plus its /_next/static assets
+ */
+
+import type { OfflineBundle } from '@/lib/offline-actions'
+
+export const OFFLINE_CACHE_NAME = 'shattahs-offline-v1'
+
+/** Page images downloaded at once */
+const DOWNLOAD_CONCURRENCY = 4
+
+export interface OfflineComic {
+  comic_id: string
+  title: string
+  has_cover: boolean
+  page_ids: string[]
+  size_bytes: number
+  downloaded_at: string
+  expires_at: string
+}
+
+export function isOfflineSupported(): boolean {
+  return typeof window !== 'undefined' && 'caches' in window && 'serviceWorker' in navigator
+}
+
+/** True once the service worker controls the page and can answer /offline/ URLs */
+export function isOfflineServingReady(): boolean {
+  return isOfflineSupported() && !!navigator.serviceWorker.controller
+}
+
+export function offlinePageUrl(comicId: string, pageId: string): string {
+  return `/offline/comics/${comicId}/pages/${pageId}`
+}
+
+export function offlineCoverUrl(comicId: string): string {
+  return `/offline/comics/${comicId}/cover`
+}
+
+function manifestUrl(comicId: string): string {
+  return `/offline/comics/${comicId}/manifest`
+}
+
+function readerShellUrl(comicId: string): string {
+  return `/comics/read/${comicId}`
+}
+
+function isExpired(comic: OfflineComic): boolean {
+  return new Date(comic.expires_at).getTime() <= Date.now()
+}
+
+async function cacheResponse(cache: Cache, key: string, url: string): Promise<number> {
+  const response = await fetch(url, { mode: 'cors', credentials: 'omit' })
+  if (!response.ok) {
+    throw new Error(`Download failed (${response.status})`)
+  }
+  const blob = await response.blob()
+  await cache.put(key, new Response(blob, {
+    headers: { 'Content-Type': response.headers.get('Content-Type') || 'application/octet-stream' },
+  }))
+  return blob.size
+}
+
+/**
+ * Cache the reader page and the scripts and styles it loads, so a full page
+ * load of the reader works without the network
+ */
+async function cacheReaderShell(cache: Cache, comicId: string): Promise<number> {
+  const response = await fetch(readerShellUrl(comicId), { credentials: 'include' })
+  if (!response.ok) {
+    throw new Error(`Failed to save the reader (${response.status})`)
+  }
+  const html = await response.text()
+  await cache.put(readerShellUrl(comicId), new Response(html, {
+    headers: { 'Content-Type': 'text/html; charset=utf-8' },
+  }))
+
+  const assets = new Set(
+    Array.from(html.matchAll(/(?:src|href)="(\/_next\/static\/[^"]+)"/g), (match) => match[1])
+  )
+  await Promise.all(Array.from(assets, (asset) => cache.add(asset).catch(() => undefined)))
+  return html.length
+}
+
+/**
+ * Download a comic's entitled pages and the reader. onProgress gets the
+ * number of pages saved so far. Replaces any earlier download of the comic.
+ */
+export async function downloadComicForOffline(
+  bundle: OfflineBundle,
+  onProgress?: (saved: number, total: number) => void
+): Promise<OfflineComic> {
+  const cache = await caches.open(OFFLINE_CACHE_NAME)
+  await removeOfflineComic(bundle.comic_id)
+
+  let sizeBytes = await cacheReaderShell(cache, bundle.comic_id)
+  let hasCover = false
+  if (bundle.cover_image_url) {
+    try {
+      sizeBytes += await cacheResponse(cache, offlineCoverUrl(bundle.comic_id), bundle.cover_image_url)
+      hasCover = true
+    } catch (error) {
+      // The cover is nice to have in the downloads list; pages are what matter
+      console.error('Error caching cover:', error)
+    }
+  }
+
+  let saved = 0
+  onProgress?.(saved, bundle.pages.length)
+  const queue = [...bundle.pages]
+  const worker = async () => {
+    for (let page = queue.shift(); page; page = queue.shift()) {
+      sizeBytes += await cacheResponse(cache, offlinePageUrl(bundle.comic_id, page.id), page.image_url)
+      saved += 1
+      onProgress?.(saved, bundle.pages.length)
+    }
+  }
+
+  try {
+    await Promise.all(Array.from({ length: DOWNLOAD_CONCURRENCY }, worker))
+  } catch (error) {
+    // Don't leave a half-downloaded comic behind
+    await removeOfflineComic(bundle.comic_id)
+    throw error
+  }
+
+  const comic: OfflineComic = {
+    comic_id: bundle.comic_id,
+    title: bundle.title,
+    has_cover: hasCover,
+    page_ids: bundle.pages.map((page) => page.id),
+    size_bytes: sizeBytes,
+    downloaded_at: new Date().toISOString(),
+    expires_at: bundle.expires_at,
+  }
+  await cache.put(manifestUrl(bundle.comic_id), new Response(JSON.stringify(comic), {
+    headers: { 'Content-Type': 'application/json' },
+  }))
+
+  return comic
+}
+
+/**
+ * Remove a downloaded comic's pages, cover, manifest and reader page
+ */
+export async function removeOfflineComic(comicId: string): Promise<void> {
+  if (!isOfflineSupported()) return
+
+  const cache = await caches.open(OFFLINE_CACHE_NAME)
+  const prefix = `/offline/comics/${comicId}/`
+  const keys = await cache.keys()
+  await Promise.all(
+    keys
+      .filter((request) => {
+        const { pathname } = new URL(request.url)
+        return pathname.startsWith(prefix) || pathname === readerShellUrl(comicId)
+      })
+      .map((request) => cache.delete(request))
+  )
+}
+
+/**
+ * A comic's download, or null when it isn't downloaded. Expired downloads
+ * are removed.
+ */
+export async function getOfflineComic(comicId: string): Promise<OfflineComic | null> {
+  if (!isOfflineSupported()) return null
+
+  const cache = await caches.open(OFFLINE_CACHE_NAME)
+  const response = await cache.match(manifestUrl(comicId))
+  if (!response) return null
+
+  const comic = (await response.json()) as OfflineComic
+  if (isExpired(comic)) {
+    await removeOfflineComic(comicId)
+    return null
+  }
+  return comic
+}
+
+/**
+ * All downloaded comics, most recent first. Expired downloads are removed.
+ */
+export async function listOfflineComics(): Promise<OfflineComic[]> {
+  if (!isOfflineSupported()) return []
+
+  const cache = await caches.open(OFFLINE_CACHE_NAME)
+  const keys = await cache.keys()
+  const comicIds = keys
+    .map((request) => new URL(request.url).pathname.match(/^\/offline\/comics\/([^/]+)\/manifest$/)?.[1])
+    .filter((comicId): comicId is string => !!comicId)
+
+  const comics = await Promise.all(comicIds.map(getOfflineComic))
+  return comics
+    .filter((comic): comic is OfflineComic => !!comic)
+    .sort((a, b) => b.downloaded_at.localeCompare(a.downloaded_at))
+}
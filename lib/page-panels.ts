@@ -0,0 +1,48 @@
+/**
+ * Panel rectangles for the reader's guided view (comic_pages.panels)
+ * Used by the admin panel editor, setPagePanels and ComicReader.
+ */
+
+import type { ComicPanel } from '@/types/database'
+
+export const MAX_PANELS_PER_PAGE = 40
+
+/** Panels narrower or shorter than this (fraction of the page) are treated as misclicks */
+export const MIN_PANEL_SIZE = 0.03
+
+function isPanel(value: unknown): value is ComicPanel {
+  if (!value || typeof value !== 'object') return false
+  const { x, y, width, height } = value as Record<string, unknown>
+  const isFraction = (n: unknown): n is number => typeof n === 'number' && Number.isFinite(n) && n >= 0 && n <= 1
+  return (
+    isFraction(x) && isFraction(y) && isFraction(width) && isFraction(height) &&
+    width >= MIN_PANEL_SIZE && height >= MIN_PANEL_SIZE &&
+    x + width <= 1 && y + height <= 1
+  )
+}
+
+/**
+ * Validate panels before saving; returns only the rectangle fields
+ */
+export function validatePagePanels(value: unknown): { error: string | null; panels: ComicPanel[] | null } {
+  if (!Array.isArray(value)) {
+    return { error: 'Panels must be a list', panels: null }
+  }
+  if (value.length > MAX_PANELS_PER_PAGE) {
+    return { error: `A page can have at most ${MAX_PANELS_PER_PAGE} panels`, panels: null }
+  }
+  if (!value.every(isPanel)) {
+    return { error: 'Every panel must fit inside the page', panels: null }
+  }
+  return {
+    error: null,
+    panels: value.map(({ x, y, width, height }) => ({ x, y, width, height })),
+  }
+}
+
+/**
+ * Panels stored on a page, skipping any malformed entries
+ */
+export function parsePagePanels(value: unknown): ComicPanel[] {
+  return Array.isArray(value) ? value.filter(isPanel).slice(0, MAX_PANELS_PER_PAGE) : []
+}
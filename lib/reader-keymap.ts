@@ -0,0 +1,130 @@
+/**
+ * The reader's keyboard shortcuts: actions, default bindings and helpers for
+ * matching and displaying keys. Readers can rebind keys in their profile;
+ * bindings are saved with the reader preferences.
+ */
+
+import type { ReaderAction, ReaderKeyBindings } from '@/types/database'
+
+// Listed in this order in the shortcuts overlay and the profile editor
+export const READER_ACTIONS: ReaderAction[] = [
+  'page_left',
+  'page_right',
+  'first_page',
+  'last_page',
+  'jump_to_page',
+  'toggle_comments',
+  'share',
+  'zoom_in',
+  'zoom_out',
+  'reset_zoom',
+  'toggle_fullscreen',
+  'cycle_reading_mode',
+  'show_controls',
+  'show_shortcuts',
+]
+
+export const READER_ACTION_LABELS: Record<ReaderAction, string> = {
+  page_left: 'Turn page left',
+  page_right: 'Turn page right',
+  first_page: 'First page',
+  last_page: 'Last page',
+  jump_to_page: 'Jump to page',
+  toggle_comments: 'Show or hide comments',
+  share: 'Share this page',
+  zoom_in: 'Zoom in',
+  zoom_out: 'Zoom out',
+  reset_zoom: 'Reset zoom',
+  toggle_fullscreen: 'Toggle fullscreen',
+  cycle_reading_mode: 'Change reading mode',
+  show_controls: 'Show controls',
+  show_shortcuts: 'Show keyboard shortcuts',
+}
+
+export const DEFAULT_KEY_BINDINGS: ReaderKeyBindings = {
+  page_left: ['ArrowLeft', 'a'],
+  page_right: ['ArrowRight', 'd'],
+  first_page: ['Home'],
+  last_page: ['End'],
+  jump_to_page: ['g'],
+  toggle_comments: ['c'],
+  share: ['s'],
+  zoom_in: ['+', '='],
+  zoom_out: ['-'],
+  reset_zoom: ['0'],
+  toggle_fullscreen: ['f'],
+  cycle_reading_mode: ['r'],
+  show_controls: ['Escape'],
+  show_shortcuts: ['?'],
+}
+
+/** Most keys an action can have bound */
+export const MAX_KEYS_PER_ACTION = 3
+
+// Modifier keys on their own can't be bound
+const MODIFIER_KEYS = new Set(['Shift', 'Control', 'Alt', 'Meta', 'CapsLock', 'Tab'])
+
+const KEY_SYMBOLS: Record<string, string> = {
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ' ': 'Space',
+  Escape: 'Esc',
+  PageUp: 'Page Up',
+  PageDown: 'Page Down',
+}
+
+/**
+ * The binding key for a keydown, or null for modifiers and shortcuts held
+ * with Ctrl/Alt/Cmd, which are left to the browser. Letters are lowercased
+ * so bindings work with Caps Lock or Shift.
+ */
+export function keyFromEvent(e: KeyboardEvent | React.KeyboardEvent): string | null {
+  if (e.ctrlKey || e.altKey || e.metaKey || MODIFIER_KEYS.has(e.key)) return null
+  return e.key.length === 1 ? e.key.toLowerCase() : e.key
+}
+
+/** The action bound to key, if any */
+export function actionForKey(bindings: ReaderKeyBindings, key: string): ReaderAction | null {
+  return READER_ACTIONS.find((action) => bindings[action].includes(key)) ?? null
+}
+
+/** A key as shown to readers, e.g. ArrowLeft as ← and letters in capitals */
+export function formatKey(key: string): string {
+  return KEY_SYMBOLS[key] ?? (key.length === 1 ? key.toUpperCase() : key)
+}
+
+/**
+ * Bind key to action, taking it off any other action so each key does one
+ * thing. The newest key replaces the oldest once an action has the maximum.
+ */
+export function bindKey(bindings: ReaderKeyBindings, action: ReaderAction, key: string): ReaderKeyBindings {
+  const next = { ...bindings }
+  for (const other of READER_ACTIONS) {
+    next[other] = next[other].filter((bound) => bound !== key)
+  }
+  next[action] = [...next[action], key].slice(-MAX_KEYS_PER_ACTION)
+  return next
+}
+
+/**
+ * Bindings from stored JSON. Actions missing from it (saved before they
+ * existed) get their defaults; a key claimed twice stays with the first action.
+ */
+export function normalizeKeyBindings(value: unknown): ReaderKeyBindings {
+  const stored = value && typeof value === 'object' && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {}
+  const claimed = new Set<string>()
+  const bindings = {} as ReaderKeyBindings
+
+  for (const action of READER_ACTIONS) {
+    const keys = Array.isArray(stored[action])
+      ? (stored[action] as unknown[]).filter((key): key is string => typeof key === 'string' && key.length > 0)
+      : DEFAULT_KEY_BINDINGS[action]
+    bindings[action] = keys.filter((key) => !claimed.has(key)).slice(0, MAX_KEYS_PER_ACTION)
+    bindings[action].forEach((key) => claimed.add(key))
+  }
+  return bindings
+}
@@ -0,0 +1,71 @@
+'use server'
+
+import { createClient } from '@/lib/supabase/server'
+import { normalizeReaderPreferences } from '@/lib/reader-preferences'
+import type { ReaderPreferences } from '@/types/database'
+
+/**
+ * Get the signed-in user's reader preferences.
+ * data is null for anonymous readers, whose preferences live in localStorage.
+ */
+export async function getReaderPreferences(): Promise<{
+  error: string | null
+  data: ReaderPreferences | null
+}> {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return { error: null, data: null }
+    }
+
+    const { data: profile, error } = await supabase
+      .from('profiles')
+      .select('reader_preferences')
+      .eq('id', user.id)
+      .single()
+
+    if (error) {
+      console.error('Error fetching reader preferences:', error)
+      return { error: error.message, data: null }
+    }
+
+    return { error: null, data: normalizeReaderPreferences(profile?.reader_preferences) }
+  } catch (error: any) {
+    console.error('Error in getReaderPreferences:', error)
+    return { error: error.message || 'Failed to fetch reader preferences', data: null }
+  }
+}
+
+/**
+ * Save reader preferences for the signed-in user.
+ * Silently no-ops for anonymous readers.
+ */
+export async function saveReaderPreferences(
+  preferences: ReaderPreferences
+): Promise<{ error: string | null; success: boolean }> {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return { error: null, success: false }
+    }
+
+    const { error } = await supabase
+      .from('profiles')
+      .update({ reader_preferences: { ...normalizeReaderPreferences(preferences) } })
+      .eq('id', user.id)
+
+    if (error) {
+      console.error('Error saving reader preferences:', error)
+      return { error: error.message, success: false }
+    }
+
+    return { error: null, success: true }
+  } catch (error: any) {
+    console.error('Error in saveReaderPreferences:', error)
+    return { error: error.message || 'Failed to save reader preferences', success: false }
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * Reader preferences shared by ComicReader, ProfileForm and the server actions
+ * Signed-in readers keep them in profiles.reader_preferences (synced across
+ * devices); anonymous readers keep them in localStorage. Signed-in readers
+ * also get a local copy, which is what the reader falls back to offline.
+ */
+
+import type {
+  ReaderBackground,
+  ReaderFit,
+  ReaderPreferences,
+  ReaderTapZones,
+  ReadingMode,
+} from '@/types/database'
+import { DEFAULT_KEY_BINDINGS, normalizeKeyBindings } from '@/lib/reader-keymap'
+
+const STORAGE_KEY = 'shattahs-reader-preferences'
+
+export const DEFAULT_READER_PREFERENCES: ReaderPreferences = {
+  reading_mode: 'vertical',
+  fit: 'width',
+  background: 'black',
+  tap_zones: 'halves',
+  auto_hide_delay_ms: 3000,
+  show_hints: true,
+  data_saver: false,
+  key_bindings: DEFAULT_KEY_BINDINGS,
+}
+
+// Order the reader's mode button (and R) cycles through
+export const READING_MODES: ReadingMode[] = ['vertical', 'horizontal', 'rtl', 'spread', 'guided']
+
+export const READING_MODE_LABELS: Record<ReadingMode, string> = {
+  vertical: 'vertical',
+  horizontal: 'left-to-right',
+  rtl: 'right-to-left',
+  spread: 'two-page spread',
+  guided: 'guided panel',
+}
+
+export const READER_FIT_LABELS: Record<ReaderFit, string> = {
+  width: 'Fit width',
+  height: 'Fit height',
+  original: 'Original size',
+}
+
+export const READER_BACKGROUND_LABELS: Record<ReaderBackground, string> = {
+  black: 'Black',
+  gray: 'Gray',
+  white: 'White',
+}
+
+export const READER_TAP_ZONE_LABELS: Record<ReaderTapZones, string> = {
+  halves: 'Left/right halves turn pages',
+  thirds: 'Outer thirds turn pages, middle shows controls',
+  off: 'Tapping selects the page',
+}
+
+/** Auto-hide choices in milliseconds; 0 never hides */
+export const AUTO_HIDE_DELAYS_MS = [2000, 3000, 5000, 10000, 0]
+
+function pick<T extends string>(value: unknown, options: Record<T, string>, fallback: T): T {
+  return typeof value === 'string' && value in options ? (value as T) : fallback
+}
+
+/**
+ * Preferences from stored JSON, with unknown or invalid fields replaced by
+ * defaults (stored values may predate newer fields)
+ */
+export function normalizeReaderPreferences(value: unknown): ReaderPreferences {
+  const stored = value && typeof value === 'object' && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {}
+  const defaults = DEFAULT_READER_PREFERENCES
+
+  return {
+    reading_mode: pick(stored.reading_mode, READING_MODE_LABELS, defaults.reading_mode),
+    fit: pick(stored.fit, READER_FIT_LABELS, defaults.fit),
+    background: pick(stored.background, READER_BACKGROUND_LABELS, defaults.background),
+    tap_zones: pick(stored.tap_zones, READER_TAP_ZONE_LABELS, defaults.tap_zones),
+    auto_hide_delay_ms: AUTO_HIDE_DELAYS_MS.includes(stored.auto_hide_delay_ms as number)
+      ? (stored.auto_hide_delay_ms as number)
+      : defaults.auto_hide_delay_ms,
+    show_hints: typeof stored.show_hints === 'boolean' ? stored.show_hints : defaults.show_hints,
+    data_saver: typeof stored.data_saver === 'boolean' ? stored.data_saver : defaults.data_saver,
+    key_bindings: normalizeKeyBindings(stored.key_bindings),
+  }
+}
+
+/**
+ * Preferences saved on this device, or null when there are none (browser only)
+ */
+export function readLocalReaderPreferences(): ReaderPreferences | null {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY)
+    return stored ? normalizeReaderPreferences(JSON.parse(stored)) : null
+  } catch {
+    return null
+  }
+}
+
+export function writeLocalReaderPreferences(preferences: ReaderPreferences): void {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(preferences))
+  } catch (error) {
+    // Private browsing or a full quota; preferences just won't stick on this device
+    console.error('Error saving reader preferences:', error)
+  }
+}
@@ -0,0 +1,197 @@
+'use server'
+
+import { createClient } from '@/lib/supabase/server'
+
+export interface ReadingProgressEntry {
+  comic_id: string
+  comic_title: string
+  cover_image_path: string | null
+  page_id: string
+  page_number: number
+  page_index: number
+  total_pages: number
+  percent_complete: number
+  updated_at: string
+}
+
+/**
+ * Save the current reading position for the signed-in user.
+ * Silently no-ops for anonymous readers.
+ */
+export async function saveReadingProgress(
+  comicId: string,
+  pageId: string
+): Promise<{ error: string | null; success: boolean }> {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return { error: null, success: false }
+    }
+
+    const { error } = await supabase
+      .from('user_reading_progress')
+      .upsert({
+        user_id: user.id,
+        comic_id: comicId,
+        page_id: pageId,
+        updated_at: new Date().toISOString(),
+      }, {
+        onConflict: 'user_id,comic_id',
+      })
+
+    if (error) {
+      console.error('Error saving reading progress:', error)
+      return { error: error.message, success: false }
+    }
+
+    return { error: null, success: true }
+  } catch (error: any) {
+    console.error('Error in saveReadingProgress:', error)
+    return { error: error.message || 'Failed to save reading progress', success: false }
+  }
+}
+
+/**
+ * Get the signed-in user's saved position in a comic.
+ * page_index is the 0-based position in the ordered page list.
+ */
+export async function getReadingProgress(comicId: string) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return { error: null, data: null }
+    }
+
+    const { data: progress, error } = await supabase
+      .from('user_reading_progress')
+      .select('page_id, updated_at')
+      .eq('user_id', user.id)
+      .eq('comic_id', comicId)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error fetching reading progress:', error)
+      return { error: error.message, data: null }
+    }
+
+    if (!progress) {
+      return { error: null, data: null }
+    }
+
+    const { data: pages } = await supabase
+      .from('comic_pages')
+      .select('id, page_number')
+      .eq('comic_id', comicId)
+      .order('page_number', { ascending: true })
+
+    const pageIndex = (pages || []).findIndex((page) => page.id === progress.page_id)
+    if (pageIndex === -1) {
+      return { error: null, data: null }
+    }
+
+    return {
+      error: null,
+      data: {
+        page_id: progress.page_id,
+        page_index: pageIndex,
+        page_number: pageIndex + 1,
+        total_pages: pages?.length ?? 0,
+        updated_at: progress.updated_at,
+      },
+    }
+  } catch (error: any) {
+    console.error('Error in getReadingProgress:', error)
+    return { error: error.message || 'Failed to fetch reading progress', data: null }
+  }
+}
+
+/**
+ * Get the signed-in user's reading history, most recently read first.
+ * Percent complete is computed from the comic's pages in comic_pages.
+ */
+export async function getReadingHistory(
+  limit: number = 10
+): Promise<{ error: string | null; data: ReadingProgressEntry[] | null }> {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return { error: 'Authentication required', data: null }
+    }
+
+    const { data: rows, error } = await supabase
+      .from('user_reading_progress')
+      .select(`
+        comic_id,
+        page_id,
+        updated_at,
+        comics:comic_id (
+          id,
+          title,
+          cover_image_path
+        )
+      `)
+      .eq('user_id', user.id)
+      .order('updated_at', { ascending: false })
+      .limit(limit)
+
+    if (error) {
+      console.error('Error fetching reading history:', error)
+      return { error: error.message, data: null }
+    }
+
+    if (!rows || rows.length === 0) {
+      return { error: null, data: [] }
+    }
+
+    const comicIds = rows.map((row: any) => row.comic_id)
+    const { data: pages, error: pagesError } = await supabase
+      .from('comic_pages')
+      .select('id, comic_id, page_number')
+      .in('comic_id', comicIds)
+      .order('page_number', { ascending: true })
+
+    if (pagesError) {
+      console.error('Error fetching pages for reading history:', pagesError)
+      return { error: pagesError.message, data: null }
+    }
+
+    // Group page ids by comic, preserving page order
+    const pagesByComic = new Map<string, string[]>()
+    for (const page of (pages || []) as any[]) {
+      const list = pagesByComic.get(page.comic_id) || []
+      list.push(page.id)
+      pagesByComic.set(page.comic_id, list)
+    }
+
+    const history: ReadingProgressEntry[] = rows
+      .map((row: any) => {
+        const comicPages = pagesByComic.get(row.comic_id) || []
+        const pageIndex = comicPages.indexOf(row.page_id)
+        if (!row.comics || pageIndex === -1) return null
+
+        return {
+          comic_id: row.comic_id,
+          comic_title: row.comics.title,
+          cover_image_path: row.comics.cover_image_path,
+          page_id: row.page_id,
+          page_number: pageIndex + 1,
+          page_index: pageIndex,
+          total_pages: comicPages.length,
+          percent_complete: Math.round(((pageIndex + 1) / comicPages.length) * 100),
+          updated_at: row.updated_at,
+        }
+      })
+      .filter((entry): entry is ReadingProgressEntry => entry !== null)
+
+    return { error: null, data: history }
+  } catch (error: any) {
+    console.error('Error in getReadingHistory:', error)
+    return { error: error.message || 'Failed to fetch reading history', data: null }
+  }
+}
@@ -2,6 +2,7 @@
 
 import { createClient } from '@/lib/supabase/server'
 import { revalidatePath } from 'next/cache'
+import { createSignedUrl, ASSET_URL_TTL_SECONDS } from '@/lib/storage-urls'
 
 const MAX_FILE_SIZE = 10 * 1024 * 1024 // 10MB
 const ALLOWED_IMAGE_TYPES = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp']
@@ -253,11 +254,13 @@ export async function uploadCharacterPicture(
 }
 
 /**
- * Upload comic page images
+ * Upload comic page images, optionally into a chapter
+ * Pages uploaded into a chapter are numbered after its last page; later pages shift up
  */
 export async function uploadComicPages(
   comicId: string,
-  files: File[]
+  files: File[],
+  chapterId?: string | null
 ): Promise<UploadPageResult[]> {
   try {
     const supabase = await createClient()
@@ -278,31 +281,32 @@ export async function uploadComicPages(
       return files.map(() => ({ success: false, error: 'Unauthorized: Admin access required' }))
     }
 
-    // Get current max page number for this comic
-    const { data: existingPages } = await supabase
-      .from('comic_pages')
-      .select('page_number')
-      .eq('comic_id', comicId)
-      .order('page_number', { ascending: false })
-      .limit(1)
+    // Verify the target chapter belongs to this comic
+    if (chapterId) {
+      const { data: chapter } = await supabase
+        .from('comic_chapters')
+        .select('comic_id')
+        .eq('id', chapterId)
+        .single()
 
-    let nextPageNumber = existingPages && existingPages.length > 0
-      ? existingPages[0].page_number + 1
-      : 1
+      if (!chapter || chapter.comic_id !== comicId) {
+        return files.map(() => ({ success: false, error: 'Chapter does not belong to this comic' }))
+      }
+    }
 
-    const results: UploadPageResult[] = []
+    const results: UploadPageResult[] = files.map((file) => {
+      const validationError = validateImageFile(file)
+      return validationError ? { success: false, error: validationError } : { success: true }
+    })
+    const uploaded: { index: number; path: string }[] = []
 
     // Upload files sequentially to maintain page order
-    for (const file of files) {
-      // Validate file
-      const validationError = validateImageFile(file)
-      if (validationError) {
-        results.push({ success: false, error: validationError })
-        continue
-      }
+    for (const [index, file] of files.entries()) {
+      if (!results[index].success) continue
 
       const ext = getFileExtension(file.name, file.type)
-      const filePath = `comics/${comicId}/pages/page-${nextPageNumber}.${ext}`
+      // Not named after the page number, which shifts as pages are inserted
+      const filePath = `comics/${comicId}/pages/${crypto.randomUUID()}.${ext}`
 
       try {
         // Convert File to ArrayBuffer
@@ -318,32 +322,35 @@ export async function uploadComicPages(
           })
 
         if (uploadError) {
-          results.push({ success: false, error: uploadError.message })
+          results[index] = { success: false, error: uploadError.message }
           continue
         }
 
-        // Create database entry for the page
-        const { data: pageData, error: dbError } = await supabase
-          .from('comic_pages')
-          .insert({
-            comic_id: comicId,
-            page_number: nextPageNumber,
-            image_path: filePath,
-          })
-          .select('id')
-          .single()
+        uploaded.push({ index, path: filePath })
+      } catch (error: any) {
+        results[index] = { success: false, error: error.message || 'Upload failed' }
+      }
+    }
 
-        if (dbError) {
-          // Delete uploaded file if DB insert fails
-          await supabase.storage.from('comics').remove([filePath])
-          results.push({ success: false, error: dbError.message })
-          continue
-        }
+    if (uploaded.length > 0) {
+      // Number and insert the pages in one transaction, at the chapter's place in the reading order
+      const { data: pageIds, error: dbError } = await supabase.rpc('insert_comic_pages', {
+        p_comic_id: comicId,
+        p_chapter_id: chapterId || null,
+        p_image_paths: uploaded.map((upload) => upload.path),
+      })
 
-        results.push({ success: true, pageId: pageData.id })
-        nextPageNumber++
-      } catch (error: any) {
-        results.push({ success: false, error: error.message || 'Upload failed' })
+      if (dbError || !pageIds) {
+        console.error('Error inserting pages:', dbError)
+        // Delete uploaded files if the DB insert fails
+        await supabase.storage.from('comics').remove(uploaded.map((upload) => upload.path))
+        uploaded.forEach(({ index }) => {
+          results[index] = { success: false, error: dbError?.message || 'Failed to save pages' }
+        })
+      } else {
+        uploaded.forEach(({ index }, i) => {
+          results[index] = { success: true, pageId: pageIds[i] }
+        })
       }
     }
 
@@ -392,17 +399,30 @@ export async function deleteComicFile(filePath: string): Promise<{ success: bool
 }
 
 /**
- * Get public URL for a storage file
+ * Get a signed URL for a storage file (the comics bucket is private)
  */
 export async function getStorageUrl(filePath: string): Promise<string | null> {
   try {
     const supabase = await createClient()
-    const { data } = supabase.storage
-      .from('comics')
-      .getPublicUrl(filePath)
-    return data.publicUrl
+
+    // Verify user is admin
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return null
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('is_admin')
+      .eq('id', user.id)
+      .single()
+
+    if (!profile?.is_admin) {
+      return null
+    }
+
+    return await createSignedUrl(filePath, ASSET_URL_TTL_SECONDS)
   } catch {
     return null
   }
 }
-
@@ -0,0 +1,62 @@
+import { createAdminClient } from '@/lib/supabase/admin'
+
+/**
+ * Signed URL helpers for the private 'comics' storage bucket.
+ * Server-only: signing uses the service role client, so callers must do
+ * their own entitlement checks before handing URLs to the browser.
+ */
+
+const STORAGE_BUCKET = 'comics'
+
+/** Comic page images: short-lived so a leaked URL stops working quickly */
+export const PAGE_URL_TTL_SECONDS = 10 * 60
+
+/** Covers, artist and character pictures: not gated, so cache-friendly */
+export const ASSET_URL_TTL_SECONDS = 24 * 60 * 60
+
+/**
+ * Sign a batch of storage paths in one request.
+ * Returns a map of path -> signed URL; paths that fail to sign are omitted.
+ */
+export async function createSignedUrlMap(
+  paths: (string | null | undefined)[],
+  expiresIn: number
+): Promise<Map<string, string>> {
+  const urlMap = new Map<string, string>()
+  const uniquePaths = Array.from(new Set(paths.filter((p): p is string => !!p)))
+  if (uniquePaths.length === 0) return urlMap
+
+  try {
+    const supabase = createAdminClient()
+    const { data, error } = await supabase.storage
+      .from(STORAGE_BUCKET)
+      .createSignedUrls(uniquePaths, expiresIn)
+
+    if (error) {
+      console.error('Error signing storage URLs:', error)
+      return urlMap
+    }
+
+    for (const item of data || []) {
+      if (item.path && item.signedUrl && !item.error) {
+        urlMap.set(item.path, item.signedUrl)
+      }
+    }
+  } catch (error) {
+    console.error('Error in createSignedUrlMap:', error)
+  }
+
+  return urlMap
+}
+
+/**
+ * Sign a single storage path. Returns null for empty paths or on failure.
+ */
+export async function createSignedUrl(
+  path: string | null | undefined,
+  expiresIn: number
+): Promise<string | null> {
+  if (!path) return null
+  const urlMap = await createSignedUrlMap([path], expiresIn)
+  return urlMap.get(path) ?? null
+}
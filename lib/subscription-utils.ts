@@ -5,6 +5,12 @@
 
 export type SubscriptionTier = 'free' | 'member' | 'daypass'
 
+/**
+ * Number of pages readable without a subscription (pages 1-4).
+ * Enforced server-side in getComicPages; the reader uses it for UI hints.
+ */
+export const FREE_PAGE_LIMIT = 4
+
 /**
  * Get plan details based on country
  * @param planName - Name of the plan
@@ -11,6 +11,8 @@ const nextConfig: NextConfig = {
         hostname: '**',
       },
     ],
+    // Reader page placeholders (20), data saver renditions (50) and the default (75)
+    qualities: [20, 50, 75],
     // Allow local images even if they don't exist (for placeholders)
     unoptimized: process.env.NODE_ENV === 'development',
   },
@@ -0,0 +1,105 @@
+/**
+ * Service worker for offline reading
+ * Serves comics downloaded with lib/offline-reading.ts (keep cache name and
+ * URL layout in sync) and falls back to them when the network is down.
+ * Downloads past their expires_at (the member's subscription end) are deleted
+ * instead of served.
+ */
+
+const OFFLINE_CACHE_NAME = 'shattahs-offline-v1'
+
+self.addEventListener('install', () => {
+  self.skipWaiting()
+})
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((names) => Promise.all(
+        names
+          .filter((name) => name.startsWith('shattahs-offline-') && name !== OFFLINE_CACHE_NAME)
+          .map((name) => caches.delete(name))
+      ))
+      .then(() => self.clients.claim())
+  )
+})
+
+async function removeComic(cache, comicId) {
+  const prefix = `/offline/comics/${comicId}/`
+  const keys = await cache.keys()
+  await Promise.all(
+    keys
+      .filter((request) => {
+        const { pathname } = new URL(request.url)
+        return pathname.startsWith(prefix) || pathname === `/comics/read/${comicId}`
+      })
+      .map((request) => cache.delete(request))
+  )
+}
+
+/** The comic's manifest when it's downloaded and not expired */
+async function getValidManifest(cache, comicId) {
+  const response = await cache.match(`/offline/comics/${comicId}/manifest`)
+  if (!response) return null
+
+  const manifest = await response.json()
+  if (new Date(manifest.expires_at).getTime() <= Date.now()) {
+    await removeComic(cache, comicId)
+    return null
+  }
+  return manifest
+}
+
+async function serveOfflineAsset(url, comicId) {
+  const cache = await caches.open(OFFLINE_CACHE_NAME)
+  const manifest = await getValidManifest(cache, comicId)
+  const cached = manifest ? await cache.match(url.pathname) : null
+  return cached || new Response('Not available offline', { status: 404 })
+}
+
+async function serveReader(request, comicId) {
+  try {
+    return await fetch(request)
+  } catch (error) {
+    const cache = await caches.open(OFFLINE_CACHE_NAME)
+    const manifest = await getValidManifest(cache, comicId)
+    const cached = manifest ? await cache.match(`/comics/read/${comicId}`) : null
+    if (cached) return cached
+    throw error
+  }
+}
+
+async function serveStatic(request) {
+  try {
+    return await fetch(request)
+  } catch (error) {
+    const cached = await caches.match(request)
+    if (cached) return cached
+    throw error
+  }
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event
+  if (request.method !== 'GET') return
+
+  const url = new URL(request.url)
+  if (url.origin !== self.location.origin) return
+
+  const assetMatch = url.pathname.match(/^\/offline\/comics\/([^/]+)\//)
+  if (assetMatch) {
+    event.respondWith(serveOfflineAsset(url, assetMatch[1]))
+    return
+  }
+
+  const readerMatch = url.pathname.match(/^\/comics\/read\/([^/]+)$/)
+  if (readerMatch && request.mode === 'navigate') {
+    event.respondWith(serveReader(request, readerMatch[1]))
+    return
+  }
+
+  // Scripts and styles saved with a download; only used when the network fails
+  if (url.pathname.startsWith('/_next/static/')) {
+    event.respondWith(serveStatic(request))
+  }
+})
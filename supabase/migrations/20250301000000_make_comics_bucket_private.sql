@@ -0,0 +1,15 @@
+-- Migration: Make the comics storage bucket private
+-- Run this SQL in your Supabase SQL Editor
+--
+-- Page images are now served through short-lived signed URLs created by the
+-- server (lib/storage-urls.ts) only for pages the reader is entitled to.
+-- Covers, artist and character pictures are signed the same way with a longer TTL.
+-- Requires SUPABASE_SERVICE_ROLE_KEY to be set for the Next.js server.
+
+-- Turn off anonymous /object/public/ access
+UPDATE storage.buckets
+SET public = false
+WHERE id = 'comics';
+
+-- Remove the blanket public read policy; signing uses the service role
+DROP POLICY IF EXISTS "Allow public reads" ON storage.objects;
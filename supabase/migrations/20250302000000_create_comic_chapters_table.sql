@@ -0,0 +1,79 @@
+-- Migration: Create comic_chapters table and link pages to chapters
+-- Run this SQL in your Supabase SQL Editor
+--
+-- Pages keep their comic-wide page_number (the reading order); chapter_id
+-- groups a run of pages into a chapter/issue. Existing pages stay unassigned.
+
+-- Create comic_chapters table
+CREATE TABLE IF NOT EXISTS public.comic_chapters (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  comic_id UUID NOT NULL REFERENCES public.comics(id) ON DELETE CASCADE,
+  chapter_number INTEGER NOT NULL,
+  title TEXT,
+  description TEXT,
+  published_date TIMESTAMPTZ DEFAULT NOW(),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(comic_id, chapter_number)
+);
+
+-- Link pages to chapters (NULL = not assigned to a chapter)
+ALTER TABLE public.comic_pages
+  ADD COLUMN IF NOT EXISTS chapter_id UUID REFERENCES public.comic_chapters(id) ON DELETE SET NULL;
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_comic_chapters_comic_id ON public.comic_chapters(comic_id, chapter_number);
+CREATE INDEX IF NOT EXISTS idx_comic_pages_chapter_id ON public.comic_pages(chapter_id) WHERE chapter_id IS NOT NULL;
+
+-- Enable RLS
+ALTER TABLE public.comic_chapters ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+-- Chapters are viewable by everyone
+CREATE POLICY "Comic chapters are viewable by everyone"
+  ON public.comic_chapters FOR SELECT
+  USING (true);
+
+-- Admins can insert chapters
+CREATE POLICY "Admins can insert comic chapters"
+  ON public.comic_chapters FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.is_admin = true
+    )
+  );
+
+-- Admins can update chapters
+CREATE POLICY "Admins can update comic chapters"
+  ON public.comic_chapters FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.is_admin = true
+    )
+  );
+
+-- Admins can delete chapters
+CREATE POLICY "Admins can delete comic chapters"
+  ON public.comic_chapters FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.is_admin = true
+    )
+  );
+
+-- Trigger to update updated_at timestamp
+DROP TRIGGER IF EXISTS update_comic_chapters_updated_at ON public.comic_chapters;
+CREATE TRIGGER update_comic_chapters_updated_at
+  BEFORE UPDATE ON public.comic_chapters
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Comments for documentation
+COMMENT ON TABLE public.comic_chapters IS 'Chapters/issues of a comic; pages link to them via comic_pages.chapter_id';
+COMMENT ON COLUMN public.comic_pages.chapter_id IS 'Chapter this page belongs to; NULL when the comic is not split into chapters';
@@ -0,0 +1,96 @@
+-- Migration: Add full-text search over comics, artists and characters
+-- Run this SQL in your Supabase SQL Editor
+
+-- Weighted search vectors: names/titles rank above credits, credits above prose
+ALTER TABLE public.comics
+  ADD COLUMN IF NOT EXISTS search_vector TSVECTOR
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(author, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(written_by, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(description, '')), 'C')
+  ) STORED;
+
+ALTER TABLE public.artists
+  ADD COLUMN IF NOT EXISTS search_vector TSVECTOR
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce(name, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(social_handle, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(bio, '')), 'C')
+  ) STORED;
+
+-- title is included because the admin UI uses it as the character's display name
+ALTER TABLE public.comic_characters
+  ADD COLUMN IF NOT EXISTS search_vector TSVECTOR
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce(name, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(handle, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(bio, '')), 'C')
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_comics_search_vector ON public.comics USING GIN(search_vector);
+CREATE INDEX IF NOT EXISTS idx_artists_search_vector ON public.artists USING GIN(search_vector);
+CREATE INDEX IF NOT EXISTS idx_comic_characters_search_vector ON public.comic_characters USING GIN(search_vector);
+
+-- Ranked search across all three tables, top result_limit per type.
+-- SECURITY DEFINER so characters are searchable regardless of their RLS setup;
+-- visibility is enforced here instead: listed (premium) comics, visible artists,
+-- and characters of listed comics only.
+CREATE OR REPLACE FUNCTION public.search_catalog(search_query TEXT, result_limit INT DEFAULT 5)
+RETURNS TABLE (
+  result_type TEXT,
+  id UUID,
+  comic_id UUID,
+  title TEXT,
+  subtitle TEXT,
+  picture_path TEXT,
+  rank REAL
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH q AS (
+    SELECT to_tsquery('english', search_query) AS query
+  )
+  (
+    SELECT 'comic', c.id, c.id, c.title, c.author, c.cover_image_path,
+           ts_rank(c.search_vector, q.query)
+    FROM public.comics c, q
+    WHERE c.is_premium = true
+      AND c.search_vector @@ q.query
+    ORDER BY 7 DESC
+    LIMIT result_limit
+  )
+  UNION ALL
+  (
+    SELECT 'artist', a.id, a.comic_id, a.name, a.social_handle, a.picture_path,
+           ts_rank(a.search_vector, q.query)
+    FROM public.artists a, q
+    WHERE a.is_visible = true
+      AND a.search_vector @@ q.query
+    ORDER BY 7 DESC
+    LIMIT result_limit
+  )
+  UNION ALL
+  (
+    SELECT 'character', ch.id, ch.comic_id, coalesce(ch.title, ch.name), c.title, ch.picture_path,
+           ts_rank(ch.search_vector, q.query)
+    FROM public.comic_characters ch
+    JOIN public.comics c ON c.id = ch.comic_id, q
+    WHERE c.is_premium = true
+      AND ch.search_vector @@ q.query
+    ORDER BY 7 DESC
+    LIMIT result_limit
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_catalog(TEXT, INT) TO anon, authenticated;
+
+-- Comments for documentation
+COMMENT ON COLUMN public.comics.search_vector IS 'Weighted full-text vector over title, author, written_by, description';
+COMMENT ON COLUMN public.artists.search_vector IS 'Weighted full-text vector over name, social_handle, bio';
+COMMENT ON COLUMN public.comic_characters.search_vector IS 'Weighted full-text vector over name, title, handle, bio';
+COMMENT ON FUNCTION public.search_catalog(TEXT, INT) IS 'Ranked full-text search over public comics, artists and characters; expects a to_tsquery string';
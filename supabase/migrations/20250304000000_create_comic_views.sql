@@ -0,0 +1,105 @@
+-- Migration: Record comic views with per-viewer dedupe and a daily rollup
+-- Run this SQL in your Supabase SQL Editor
+
+-- Last counted view per viewer per comic, used to dedupe within a time window.
+-- viewer_key is 'user:<uuid>' for signed-in readers; anonymous viewers get both an
+-- 'anon:<cookie id>' and an 'ip:<hash>' row.
+CREATE TABLE IF NOT EXISTS public.comic_view_sessions (
+  comic_id UUID NOT NULL REFERENCES public.comics(id) ON DELETE CASCADE,
+  viewer_key TEXT NOT NULL,
+  last_viewed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (comic_id, viewer_key)
+);
+
+-- Views per comic per UTC day, for admin charts
+CREATE TABLE IF NOT EXISTS public.comic_view_daily (
+  comic_id UUID NOT NULL REFERENCES public.comics(id) ON DELETE CASCADE,
+  view_date DATE NOT NULL,
+  views INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (comic_id, view_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_comic_view_sessions_last_viewed_at ON public.comic_view_sessions(last_viewed_at);
+CREATE INDEX IF NOT EXISTS idx_comic_view_daily_view_date ON public.comic_view_daily(view_date DESC);
+
+-- Enable RLS
+ALTER TABLE public.comic_view_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.comic_view_daily ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+-- Sessions are only touched by record_comic_view (service role); no client policies.
+
+-- Admins can view daily rollups
+CREATE POLICY "Admins can view comic view rollups"
+  ON public.comic_view_daily FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.is_admin = true
+    )
+  );
+
+-- Count a view unless this viewer was already counted for this comic within the window.
+-- The upsert's WHERE clause makes the check-and-set atomic, so concurrent refreshes
+-- can't double count. Anonymous viewers without a cookie yet also pass an ip:<hash>
+-- fingerprint key and must be new under both keys, so clearing cookies doesn't count
+-- again. Returns true when the view was counted.
+CREATE OR REPLACE FUNCTION public.record_comic_view(
+  p_comic_id UUID,
+  p_viewer_key TEXT,
+  p_window_minutes INT DEFAULT 30,
+  p_fingerprint_key TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  counted BOOLEAN := false;
+  fingerprint_counted BOOLEAN := true;
+BEGIN
+  INSERT INTO public.comic_view_sessions (comic_id, viewer_key, last_viewed_at)
+  VALUES (p_comic_id, p_viewer_key, NOW())
+  ON CONFLICT (comic_id, viewer_key) DO UPDATE
+    SET last_viewed_at = EXCLUDED.last_viewed_at
+    WHERE public.comic_view_sessions.last_viewed_at < NOW() - make_interval(mins => p_window_minutes)
+  RETURNING true INTO counted;
+
+  -- Refresh the fingerprint's window even when the viewer key was already counted
+  IF p_fingerprint_key IS NOT NULL THEN
+    fingerprint_counted := false;
+    INSERT INTO public.comic_view_sessions (comic_id, viewer_key, last_viewed_at)
+    VALUES (p_comic_id, p_fingerprint_key, NOW())
+    ON CONFLICT (comic_id, viewer_key) DO UPDATE
+      SET last_viewed_at = EXCLUDED.last_viewed_at
+      WHERE public.comic_view_sessions.last_viewed_at < NOW() - make_interval(mins => p_window_minutes)
+    RETURNING true INTO fingerprint_counted;
+  END IF;
+
+  IF NOT coalesce(counted, false) OR NOT coalesce(fingerprint_counted, false) THEN
+    RETURN false;
+  END IF;
+
+  UPDATE public.comics
+  SET view_count = view_count + 1
+  WHERE id = p_comic_id;
+
+  INSERT INTO public.comic_view_daily (comic_id, view_date, views)
+  VALUES (p_comic_id, (NOW() AT TIME ZONE 'utc')::date, 1)
+  ON CONFLICT (comic_id, view_date) DO UPDATE
+    SET views = public.comic_view_daily.views + 1;
+
+  RETURN true;
+END;
+$$;
+
+-- Only the server (service role) may record views; clients go through the API route
+REVOKE EXECUTE ON FUNCTION public.record_comic_view(UUID, TEXT, INT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Comments for documentation
+COMMENT ON TABLE public.comic_view_sessions IS 'Last counted view per viewer per comic; dedupes refreshes within a window';
+COMMENT ON COLUMN public.comic_view_sessions.viewer_key IS 'user:<uuid>, anon:<viewer cookie> or ip:<hash>';
+COMMENT ON TABLE public.comic_view_daily IS 'Counted views per comic per UTC day';
+COMMENT ON FUNCTION public.record_comic_view(UUID, TEXT, INT, TEXT) IS 'Atomically dedupes a view and increments comics.view_count and the daily rollup';
@@ -0,0 +1,111 @@
+-- Migration: Create comic_ratings table and derive comics.rating from it
+-- Run this SQL in your Supabase SQL Editor
+
+-- One 1-10 rating per user per comic; users can change or remove it
+CREATE TABLE IF NOT EXISTS public.comic_ratings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  comic_id UUID NOT NULL REFERENCES public.comics(id) ON DELETE CASCADE,
+  rating INTEGER NOT NULL CHECK (rating >= 1 AND rating <= 10),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(user_id, comic_id)
+);
+
+ALTER TABLE public.comics
+  ADD COLUMN IF NOT EXISTS rating_count INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_comic_ratings_comic_id ON public.comic_ratings(comic_id);
+
+-- Enable RLS
+ALTER TABLE public.comic_ratings ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+-- Users can view their own ratings (aggregates are read from comics)
+CREATE POLICY "Users can view own ratings"
+  ON public.comic_ratings FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Users can rate comics as themselves
+CREATE POLICY "Users can insert own ratings"
+  ON public.comic_ratings FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+-- Users can change their own ratings
+CREATE POLICY "Users can update own ratings"
+  ON public.comic_ratings FOR UPDATE
+  USING (auth.uid() = user_id);
+
+-- Users can remove their own ratings
+CREATE POLICY "Users can delete own ratings"
+  ON public.comic_ratings FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Trigger to update updated_at timestamp
+DROP TRIGGER IF EXISTS update_comic_ratings_updated_at ON public.comic_ratings;
+CREATE TRIGGER update_comic_ratings_updated_at
+  BEFORE UPDATE ON public.comic_ratings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Recompute comics.rating (average, 1 decimal) and rating_count for one comic
+CREATE OR REPLACE FUNCTION public.refresh_comic_rating(p_comic_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.comics
+  SET rating = coalesce((SELECT round(avg(rating)::numeric, 1) FROM public.comic_ratings WHERE comic_id = p_comic_id), 0),
+      rating_count = (SELECT count(*) FROM public.comic_ratings WHERE comic_id = p_comic_id)
+  WHERE id = p_comic_id;
+$$;
+
+-- Keep the aggregate in sync on every rating change. SECURITY DEFINER because
+-- readers can't update comics under RLS.
+CREATE OR REPLACE FUNCTION public.handle_comic_rating_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM public.refresh_comic_rating(OLD.comic_id);
+    RETURN OLD;
+  END IF;
+
+  PERFORM public.refresh_comic_rating(NEW.comic_id);
+  IF TG_OP = 'UPDATE' AND NEW.comic_id <> OLD.comic_id THEN
+    PERFORM public.refresh_comic_rating(OLD.comic_id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_comic_rating_change ON public.comic_ratings;
+CREATE TRIGGER on_comic_rating_change
+  AFTER INSERT OR UPDATE OR DELETE ON public.comic_ratings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_comic_rating_change();
+
+REVOKE EXECUTE ON FUNCTION public.refresh_comic_rating(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Replace admin-entered ratings with the real aggregate (0 until a comic is rated)
+UPDATE public.comics c
+SET rating = coalesce(r.avg_rating, 0),
+    rating_count = coalesce(r.rating_count, 0)
+FROM (
+  SELECT comics.id,
+         round(avg(comic_ratings.rating)::numeric, 1) AS avg_rating,
+         count(comic_ratings.id) AS rating_count
+  FROM public.comics
+  LEFT JOIN public.comic_ratings ON comic_ratings.comic_id = comics.id
+  GROUP BY comics.id
+) r
+WHERE r.id = c.id;
+
+-- Comments for documentation
+COMMENT ON TABLE public.comic_ratings IS 'Reader ratings (1-10), one per user per comic';
+COMMENT ON COLUMN public.comics.rating IS 'Average of comic_ratings.rating, maintained by trigger';
+COMMENT ON COLUMN public.comics.rating_count IS 'Number of comic_ratings rows, maintained by trigger';
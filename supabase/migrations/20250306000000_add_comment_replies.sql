@@ -0,0 +1,142 @@
+-- Migration: Threaded replies on comic_comments
+-- Run this SQL in your Supabase SQL Editor
+--
+-- Threads are one level deep: a reply's parent is always a top-level comment
+-- on the same comic and page. Deleting a top-level comment deletes its replies
+-- (existing ON DELETE CASCADE on parent_id); deleting a reply only removes it.
+
+ALTER TABLE public.comic_comments
+  ADD COLUMN IF NOT EXISTS reply_count INTEGER NOT NULL DEFAULT 0;
+
+-- Feeds list top-level comments, then load replies per thread oldest-first
+CREATE INDEX IF NOT EXISTS idx_comic_comments_top_level
+  ON public.comic_comments(comic_id, created_at DESC) WHERE parent_id IS NULL;
+CREATE INDEX IF NOT EXISTS idx_comic_comments_parent_created_at
+  ON public.comic_comments(parent_id, created_at) WHERE parent_id IS NOT NULL;
+
+-- Reject replies whose parent is on another comic/page or is itself a reply
+CREATE OR REPLACE FUNCTION public.validate_comment_parent()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  parent RECORD;
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT comic_id, page_id, parent_id INTO parent
+  FROM public.comic_comments
+  WHERE id = NEW.parent_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Parent comment not found';
+  END IF;
+
+  IF parent.comic_id <> NEW.comic_id OR parent.page_id IS DISTINCT FROM NEW.page_id THEN
+    RAISE EXCEPTION 'Reply must be on the same comic and page as its parent';
+  END IF;
+
+  IF parent.parent_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Replies can only be made to top-level comments';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS validate_comic_comment_parent ON public.comic_comments;
+CREATE TRIGGER validate_comic_comment_parent
+  BEFORE INSERT OR UPDATE OF parent_id, comic_id, page_id ON public.comic_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_comment_parent();
+
+-- Keep the parent's reply_count in sync. SECURITY DEFINER because repliers
+-- can't update other users' comments under RLS.
+CREATE OR REPLACE FUNCTION public.handle_comment_reply_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' AND NEW.parent_id IS NOT NULL THEN
+    UPDATE public.comic_comments
+    SET reply_count = reply_count + 1
+    WHERE id = NEW.parent_id;
+  ELSIF TG_OP = 'DELETE' AND OLD.parent_id IS NOT NULL THEN
+    -- No-op when the parent itself is being cascade-deleted
+    UPDATE public.comic_comments
+    SET reply_count = greatest(reply_count - 1, 0)
+    WHERE id = OLD.parent_id;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_comic_comment_reply_change ON public.comic_comments;
+CREATE TRIGGER on_comic_comment_reply_change
+  AFTER INSERT OR DELETE ON public.comic_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_comment_reply_change();
+
+-- reply_count is only written by the trigger above. The comment RLS policies
+-- would otherwise let authors set it directly, so new comments start at 0 and
+-- author updates keep the stored value. Admins and service-role requests (no
+-- auth.uid()) are exempt, as are updates made from inside another trigger.
+CREATE OR REPLACE FUNCTION public.protect_comment_counters()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF pg_trigger_depth() > 1 THEN
+    RETURN NEW;
+  END IF;
+
+  IF auth.uid() IS NULL OR EXISTS (
+    SELECT 1 FROM public.profiles WHERE id = auth.uid() AND is_admin = true
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.reply_count := 0;
+  ELSE
+    NEW.reply_count := OLD.reply_count;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_comic_comment_counters ON public.comic_comments;
+CREATE TRIGGER protect_comic_comment_counters
+  BEFORE INSERT OR UPDATE ON public.comic_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_comment_counters();
+
+-- Only content edits count as an update, so reply_count changes don't mark a
+-- comment as edited
+DROP TRIGGER IF EXISTS update_comic_comments_updated_at ON public.comic_comments;
+CREATE TRIGGER update_comic_comments_updated_at
+  BEFORE UPDATE OF content ON public.comic_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Backfill counts for existing threads
+UPDATE public.comic_comments c
+SET reply_count = r.reply_count
+FROM (
+  SELECT parent_id, count(*) AS reply_count
+  FROM public.comic_comments
+  WHERE parent_id IS NOT NULL
+  GROUP BY parent_id
+) r
+WHERE r.parent_id = c.id;
+
+-- Comments for documentation
+COMMENT ON COLUMN public.comic_comments.parent_id IS 'Top-level comment this replies to (same comic and page). Replies are deleted with their parent';
+COMMENT ON COLUMN public.comic_comments.reply_count IS 'Number of direct replies, maintained by trigger';
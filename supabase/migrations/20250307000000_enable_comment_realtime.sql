@@ -0,0 +1,18 @@
+-- Migration: Broadcast comic_comments changes over Supabase Realtime
+-- Run this SQL in your Supabase SQL Editor
+--
+-- The reader subscribes to inserts/updates filtered by comic_id or page_id.
+-- Delete events can't be filtered and only carry the primary key under RLS,
+-- so clients drop deleted ids (and their replies) from whatever they have loaded.
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+      AND schemaname = 'public'
+      AND tablename = 'comic_comments'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.comic_comments;
+  END IF;
+END $$;
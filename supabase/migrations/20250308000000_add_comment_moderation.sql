@@ -0,0 +1,142 @@
+-- Migration: Comment moderation (hidden comments and shadow bans)
+-- Run this SQL in your Supabase SQL Editor
+--
+-- Hidden comments stay visible to their author and to admins only, so a
+-- shadow-banned user keeps seeing their own comments while nobody else does.
+
+ALTER TABLE public.comic_comments
+  ADD COLUMN IF NOT EXISTS is_hidden BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS hidden_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS hidden_reason TEXT CHECK (hidden_reason IS NULL OR hidden_reason IN ('moderator', 'shadow_ban'));
+
+CREATE INDEX IF NOT EXISTS idx_comic_comments_moderation ON public.comic_comments(created_at DESC, id DESC);
+
+-- Users whose new comments are hidden from everyone else. Admin-only, so a
+-- banned user can't tell (or undo it through their own profile row).
+CREATE TABLE IF NOT EXISTS public.comment_bans (
+  user_id UUID PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  banned_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  reason TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Enable RLS
+ALTER TABLE public.comment_bans ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+-- Admins can view bans
+CREATE POLICY "Admins can view comment bans"
+  ON public.comment_bans FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.is_admin = true
+    )
+  );
+
+-- Admins can ban users
+CREATE POLICY "Admins can insert comment bans"
+  ON public.comment_bans FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.is_admin = true
+    )
+  );
+
+-- Admins can lift bans
+CREATE POLICY "Admins can delete comment bans"
+  ON public.comment_bans FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.is_admin = true
+    )
+  );
+
+-- Hidden comments are only visible to their author and admins
+DROP POLICY IF EXISTS "Comments are viewable by everyone" ON public.comic_comments;
+CREATE POLICY "Comments are viewable by everyone"
+  ON public.comic_comments FOR SELECT
+  USING (
+    NOT is_hidden
+    OR auth.uid() = user_id
+    OR EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.is_admin = true
+    )
+  );
+
+-- Admins can hide/unhide any comment
+CREATE POLICY "Admins can update comments"
+  ON public.comic_comments FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.is_admin = true
+    )
+  );
+
+-- Admins can delete any comment
+CREATE POLICY "Admins can delete comments"
+  ON public.comic_comments FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.is_admin = true
+    )
+  );
+
+-- Hide new comments from banned users, and stop authors from changing
+-- moderation fields on their own comments. SECURITY DEFINER because authors
+-- can't read comment_bans.
+CREATE OR REPLACE FUNCTION public.enforce_comment_moderation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  is_moderator BOOLEAN;
+BEGIN
+  -- Service-role requests (no auth.uid()) and admins may set anything
+  is_moderator := auth.uid() IS NULL OR EXISTS (
+    SELECT 1 FROM public.profiles WHERE id = auth.uid() AND is_admin = true
+  );
+
+  IF TG_OP = 'INSERT' THEN
+    IF EXISTS (SELECT 1 FROM public.comment_bans WHERE user_id = NEW.user_id) THEN
+      NEW.is_hidden := true;
+      NEW.hidden_at := NOW();
+      NEW.hidden_reason := 'shadow_ban';
+    ELSIF NOT is_moderator THEN
+      NEW.is_hidden := false;
+      NEW.hidden_at := NULL;
+      NEW.hidden_reason := NULL;
+    END IF;
+  ELSIF NOT is_moderator THEN
+    NEW.is_hidden := OLD.is_hidden;
+    NEW.hidden_at := OLD.hidden_at;
+    NEW.hidden_reason := OLD.hidden_reason;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_comic_comment_moderation ON public.comic_comments;
+CREATE TRIGGER enforce_comic_comment_moderation
+  BEFORE INSERT OR UPDATE ON public.comic_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_comment_moderation();
+
+-- Comments for documentation
+COMMENT ON TABLE public.comment_bans IS 'Shadow-banned commenters: their new comments are hidden from everyone but themselves';
+COMMENT ON COLUMN public.comic_comments.is_hidden IS 'Hidden from other readers; still visible to the author and admins';
+COMMENT ON COLUMN public.comic_comments.hidden_reason IS 'Why the comment is hidden: moderator or shadow_ban';
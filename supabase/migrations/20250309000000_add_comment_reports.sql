@@ -0,0 +1,66 @@
+-- Migration: Reader reports on comments
+-- Run this SQL in your Supabase SQL Editor
+--
+-- Each reader can report a comment once. The comments API hides a comment
+-- (hidden_reason = 'reports') once it has enough distinct pending reports;
+-- an admin then approves it (unhide) or removes it.
+
+-- Allow comments to be hidden by reader reports
+ALTER TABLE public.comic_comments
+  DROP CONSTRAINT IF EXISTS comic_comments_hidden_reason_check;
+ALTER TABLE public.comic_comments
+  ADD CONSTRAINT comic_comments_hidden_reason_check
+  CHECK (hidden_reason IS NULL OR hidden_reason IN ('moderator', 'shadow_ban', 'reports'));
+
+CREATE TABLE IF NOT EXISTS public.comment_reports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  comment_id UUID NOT NULL REFERENCES public.comic_comments(id) ON DELETE CASCADE,
+  reporter_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  reason TEXT NOT NULL CHECK (reason IN ('spam', 'harassment', 'spoiler', 'inappropriate', 'other')),
+  details TEXT CHECK (details IS NULL OR char_length(details) <= 500),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'removed')),
+  resolved_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (comment_id, reporter_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_comment_reports_status ON public.comment_reports(status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_comment_reports_reporter_created_at ON public.comment_reports(reporter_id, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE public.comment_reports ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+-- Readers can see their own reports; admins can see all
+CREATE POLICY "Users can view own comment reports"
+  ON public.comment_reports FOR SELECT
+  USING (
+    auth.uid() = reporter_id
+    OR EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.is_admin = true
+    )
+  );
+
+-- Readers can file pending reports as themselves
+CREATE POLICY "Users can insert own comment reports"
+  ON public.comment_reports FOR INSERT
+  WITH CHECK (auth.uid() = reporter_id AND status = 'pending');
+
+-- Admins resolve reports
+CREATE POLICY "Admins can update comment reports"
+  ON public.comment_reports FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.is_admin = true
+    )
+  );
+
+-- Comments for documentation
+COMMENT ON TABLE public.comment_reports IS 'Reader reports on comments, one per reader per comment';
+COMMENT ON COLUMN public.comment_reports.status IS 'pending until an admin approves the comment or removes it';
+COMMENT ON COLUMN public.comic_comments.hidden_reason IS 'Why the comment is hidden: moderator, shadow_ban or reports';
@@ -0,0 +1,121 @@
+-- Migration: Emoji reactions on comments
+-- Run this SQL in your Supabase SQL Editor
+--
+-- Readers toggle reactions from a fixed set; each reader can add each
+-- reaction once per comment. Counts are kept on comic_comments so feeds can
+-- return and sort by them without aggregating.
+
+CREATE TABLE IF NOT EXISTS public.comment_reactions (
+  comment_id UUID NOT NULL REFERENCES public.comic_comments(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  reaction TEXT NOT NULL CHECK (reaction IN ('like', 'love', 'laugh', 'wow', 'sad', 'fire')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (comment_id, user_id, reaction)
+);
+
+CREATE INDEX IF NOT EXISTS idx_comment_reactions_user_id ON public.comment_reactions(user_id);
+
+ALTER TABLE public.comic_comments
+  ADD COLUMN IF NOT EXISTS reaction_counts JSONB NOT NULL DEFAULT '{}'::jsonb,
+  ADD COLUMN IF NOT EXISTS reaction_total INTEGER NOT NULL DEFAULT 0;
+
+-- "Top" feeds order top-level comments by total reactions, then newest
+CREATE INDEX IF NOT EXISTS idx_comic_comments_top_reactions
+  ON public.comic_comments(comic_id, reaction_total DESC, created_at DESC, id DESC) WHERE parent_id IS NULL;
+
+-- Enable RLS
+ALTER TABLE public.comment_reactions ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+-- Everyone can view reactions
+CREATE POLICY "Reactions are viewable by everyone"
+  ON public.comment_reactions FOR SELECT
+  USING (true);
+
+-- Users can add their own reactions
+CREATE POLICY "Users can insert own reactions"
+  ON public.comment_reactions FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+-- Users can remove their own reactions
+CREATE POLICY "Users can delete own reactions"
+  ON public.comment_reactions FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Recount a comment's reactions. SECURITY DEFINER because readers can't
+-- update other users' comments under RLS.
+CREATE OR REPLACE FUNCTION public.handle_comment_reaction_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_comment_id UUID;
+BEGIN
+  target_comment_id := COALESCE(NEW.comment_id, OLD.comment_id);
+
+  -- No-op when the comment itself is being deleted
+  UPDATE public.comic_comments c
+  SET
+    reaction_counts = COALESCE(r.counts, '{}'::jsonb),
+    reaction_total = COALESCE(r.total, 0)
+  FROM (
+    SELECT jsonb_object_agg(reaction, reaction_count) AS counts, sum(reaction_count)::integer AS total
+    FROM (
+      SELECT reaction, count(*) AS reaction_count
+      FROM public.comment_reactions
+      WHERE comment_id = target_comment_id
+      GROUP BY reaction
+    ) grouped
+  ) r
+  WHERE c.id = target_comment_id;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_comment_reaction_change ON public.comment_reactions;
+CREATE TRIGGER on_comment_reaction_change
+  AFTER INSERT OR DELETE ON public.comment_reactions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_comment_reaction_change();
+
+-- Extend the counter guard from the replies migration (trigger
+-- protect_comic_comment_counters) to the reaction counters, so authors can't
+-- raise their own comments in the top sort
+CREATE OR REPLACE FUNCTION public.protect_comment_counters()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- The counter triggers update comments from inside another trigger
+  IF pg_trigger_depth() > 1 THEN
+    RETURN NEW;
+  END IF;
+
+  IF auth.uid() IS NULL OR EXISTS (
+    SELECT 1 FROM public.profiles WHERE id = auth.uid() AND is_admin = true
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.reply_count := 0;
+    NEW.reaction_counts := '{}'::jsonb;
+    NEW.reaction_total := 0;
+  ELSE
+    NEW.reply_count := OLD.reply_count;
+    NEW.reaction_counts := OLD.reaction_counts;
+    NEW.reaction_total := OLD.reaction_total;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Comments for documentation
+COMMENT ON TABLE public.comment_reactions IS 'Emoji reactions on comments, one row per reader per reaction';
+COMMENT ON COLUMN public.comic_comments.reaction_counts IS 'Reaction counts by type, maintained by trigger';
+COMMENT ON COLUMN public.comic_comments.reaction_total IS 'Total reactions, maintained by trigger; used for top sort';
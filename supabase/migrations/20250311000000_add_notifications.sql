@@ -0,0 +1,65 @@
+-- Migration: @mention handles and in-app notifications
+-- Run this SQL in your Supabase SQL Editor
+--
+-- Readers pick a unique @handle on their profile. Mentioning someone in a
+-- comment, or replying to their comment, notifies them. Notifications are
+-- created server-side with the service role, so there is no INSERT policy.
+
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS handle TEXT CHECK (handle IS NULL OR handle ~ '^[a-z0-9_]{3,30}$');
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_profiles_handle ON public.profiles(handle) WHERE handle IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS public.notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  actor_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('mention', 'reply')),
+  comic_id UUID NOT NULL REFERENCES public.comics(id) ON DELETE CASCADE,
+  page_id UUID REFERENCES public.comic_pages(id) ON DELETE CASCADE,
+  comment_id UUID NOT NULL REFERENCES public.comic_comments(id) ON DELETE CASCADE,
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  -- One notification per reader per comment (a reply that also mentions them counts once)
+  UNIQUE (user_id, comment_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_created_at ON public.notifications(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_unread ON public.notifications(user_id) WHERE read_at IS NULL;
+
+-- Enable RLS
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+-- Users can view their own notifications
+CREATE POLICY "Users can view own notifications"
+  ON public.notifications FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Users can mark their own notifications as read
+CREATE POLICY "Users can update own notifications"
+  ON public.notifications FOR UPDATE
+  USING (auth.uid() = user_id);
+
+-- Users can clear their own notifications
+CREATE POLICY "Users can delete own notifications"
+  ON public.notifications FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Push new notifications to the navbar bell
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+      AND schemaname = 'public'
+      AND tablename = 'notifications'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+  END IF;
+END $$;
+
+-- Comments for documentation
+COMMENT ON COLUMN public.profiles.handle IS 'Unique lowercase @handle used for comment mentions';
+COMMENT ON TABLE public.notifications IS 'In-app notifications for comment mentions and replies';
+COMMENT ON COLUMN public.notifications.read_at IS 'When the recipient opened or dismissed the notification; NULL while unread';
@@ -0,0 +1,35 @@
+-- Migration: Anchor comments to a point or region of a page image
+-- Run this SQL in your Supabase SQL Editor
+--
+-- Coordinates are normalized to the page frame (0..1 from the top-left), so
+-- anchors stay put at any display size. A point has no width/height; a
+-- region has both. Only top-level page comments can be anchored.
+
+ALTER TABLE public.comic_comments
+  ADD COLUMN IF NOT EXISTS anchor_x REAL CHECK (anchor_x IS NULL OR (anchor_x >= 0 AND anchor_x <= 1)),
+  ADD COLUMN IF NOT EXISTS anchor_y REAL CHECK (anchor_y IS NULL OR (anchor_y >= 0 AND anchor_y <= 1)),
+  ADD COLUMN IF NOT EXISTS anchor_width REAL CHECK (anchor_width IS NULL OR (anchor_width > 0 AND anchor_width <= 1)),
+  ADD COLUMN IF NOT EXISTS anchor_height REAL CHECK (anchor_height IS NULL OR (anchor_height > 0 AND anchor_height <= 1));
+
+ALTER TABLE public.comic_comments DROP CONSTRAINT IF EXISTS comic_comments_anchor_check;
+ALTER TABLE public.comic_comments
+  ADD CONSTRAINT comic_comments_anchor_check CHECK (
+    (anchor_x IS NULL AND anchor_y IS NULL AND anchor_width IS NULL AND anchor_height IS NULL)
+    OR (
+      anchor_x IS NOT NULL AND anchor_y IS NOT NULL
+      AND page_id IS NOT NULL AND parent_id IS NULL
+      AND (anchor_width IS NULL) = (anchor_height IS NULL)
+      AND anchor_x + COALESCE(anchor_width, 0) <= 1
+      AND anchor_y + COALESCE(anchor_height, 0) <= 1
+    )
+  );
+
+-- Reader markers load every anchored comment for a comic
+CREATE INDEX IF NOT EXISTS idx_comic_comments_anchored
+  ON public.comic_comments(comic_id, page_id) WHERE anchor_x IS NOT NULL;
+
+-- Comments for documentation
+COMMENT ON COLUMN public.comic_comments.anchor_x IS 'Left edge (or point) of the anchor, 0..1 across the page';
+COMMENT ON COLUMN public.comic_comments.anchor_y IS 'Top edge (or point) of the anchor, 0..1 down the page';
+COMMENT ON COLUMN public.comic_comments.anchor_width IS 'Anchor region width as a fraction of the page; NULL for a point';
+COMMENT ON COLUMN public.comic_comments.anchor_height IS 'Anchor region height as a fraction of the page; NULL for a point';
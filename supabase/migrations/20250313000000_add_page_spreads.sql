@@ -0,0 +1,12 @@
+-- Migration: Flag comic pages that are full two-page spreads
+-- Run this SQL in your Supabase SQL Editor
+--
+-- The reader's two-page spread mode pairs pages side by side (the cover on its
+-- own). A page flagged here is already a full spread in one image, so it is
+-- shown alone at double width instead of being paired.
+
+ALTER TABLE public.comic_pages
+  ADD COLUMN IF NOT EXISTS is_spread BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Comments for documentation
+COMMENT ON COLUMN public.comic_pages.is_spread IS 'Page image is a full two-page spread; shown unpaired in spread reading mode';
@@ -0,0 +1,17 @@
+-- Migration: Store reader preferences on profiles
+-- Run this SQL in your Supabase SQL Editor
+--
+-- Default reading mode, page fit, background, tap zones, control auto-hide,
+-- hints and data saver, as JSON so new settings don't need a migration. The
+-- app fills in defaults for missing keys. Anonymous readers keep the same
+-- JSON in localStorage.
+
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS reader_preferences JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE public.profiles DROP CONSTRAINT IF EXISTS profiles_reader_preferences_check;
+ALTER TABLE public.profiles
+  ADD CONSTRAINT profiles_reader_preferences_check CHECK (jsonb_typeof(reader_preferences) = 'object');
+
+-- Comments for documentation
+COMMENT ON COLUMN public.profiles.reader_preferences IS 'Reader settings JSON (reading_mode, fit, background, tap_zones, auto_hide_delay_ms, show_hints, data_saver)';
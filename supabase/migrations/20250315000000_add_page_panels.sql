@@ -0,0 +1,16 @@
+-- Migration: Store panel rectangles on comic pages for guided view
+-- Run this SQL in your Supabase SQL Editor
+--
+-- panels is a JSON array of {x, y, width, height} rectangles in reading
+-- order, normalized to the page image (0..1 from the top-left). The reader's
+-- guided view steps through them; pages with no panels are shown whole.
+
+ALTER TABLE public.comic_pages
+  ADD COLUMN IF NOT EXISTS panels JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE public.comic_pages DROP CONSTRAINT IF EXISTS comic_pages_panels_check;
+ALTER TABLE public.comic_pages
+  ADD CONSTRAINT comic_pages_panels_check CHECK (jsonb_typeof(panels) = 'array');
+
+-- Comments for documentation
+COMMENT ON COLUMN public.comic_pages.panels IS 'Guided view panel rectangles [{x, y, width, height}] in reading order, as fractions of the page image';
@@ -0,0 +1,110 @@
+-- Migration: Enforce comment rate limits when comments are inserted
+-- Run this SQL in your Supabase SQL Editor
+--
+-- Every comment a reader posts is logged in comment_post_log, which deleting
+-- the comment doesn't touch, so delete-and-repost can't reset the limits. A
+-- BEFORE INSERT trigger checks the log under a per-user advisory lock, so
+-- parallel posts are counted one after another. Errors use PostgREST's PTxxx
+-- codes: PT429 for rate limits (DETAIL holds seconds until a slot frees up)
+-- and PT422 for duplicates.
+
+CREATE TABLE IF NOT EXISTS public.comment_post_log (
+  id BIGSERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  comic_id UUID NOT NULL REFERENCES public.comics(id) ON DELETE CASCADE,
+  page_id UUID,
+  content_hash TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_comment_post_log_user_created_at
+  ON public.comment_post_log(user_id, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE public.comment_post_log ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+-- Only written by enforce_comment_rate_limit; no client policies.
+
+-- Limits match the ones described in lib/comment-filters.ts:
+-- 5 comments a minute and 60 an hour per user, 3 per page (or comic-level
+-- feed) in 2 minutes, and no repeating the same text on a comic within 10 minutes
+CREATE OR REPLACE FUNCTION public.enforce_comment_rate_limit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  post_hash TEXT;
+  limit_row RECORD;
+  blocking_at TIMESTAMPTZ;
+BEGIN
+  -- Service-role requests (no auth.uid()) aren't rate limited
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Serialize a user's concurrent posts so each sees the others in the log
+  PERFORM pg_advisory_xact_lock(hashtext('comment_rate_limit:' || NEW.user_id::text));
+
+  -- Only the last hour matters
+  DELETE FROM public.comment_post_log
+  WHERE user_id = NEW.user_id AND created_at < NOW() - INTERVAL '1 hour';
+
+  -- Lowercased with whitespace collapsed, so trivial variations still match
+  post_hash := md5(lower(btrim(regexp_replace(NEW.content, '\s+', ' ', 'g'))));
+
+  IF EXISTS (
+    SELECT 1 FROM public.comment_post_log l
+    WHERE l.user_id = NEW.user_id
+      AND l.comic_id = NEW.comic_id
+      AND l.content_hash = post_hash
+      AND l.created_at > NOW() - INTERVAL '10 minutes'
+  ) THEN
+    RAISE EXCEPTION 'You already posted this comment' USING ERRCODE = 'PT422';
+  END IF;
+
+  FOR limit_row IN
+    SELECT * FROM (VALUES
+      (5, INTERVAL '1 minute', false),
+      (60, INTERVAL '1 hour', false),
+      (3, INTERVAL '2 minutes', true)
+    ) AS limits(max_posts, window_length, per_page)
+  LOOP
+    -- A slot frees up once the max-th newest post in the window ages out
+    SELECT l.created_at INTO blocking_at
+    FROM public.comment_post_log l
+    WHERE l.user_id = NEW.user_id
+      AND l.created_at > NOW() - limit_row.window_length
+      AND (
+        NOT limit_row.per_page
+        OR (l.comic_id = NEW.comic_id AND l.page_id IS NOT DISTINCT FROM NEW.page_id)
+      )
+    ORDER BY l.created_at DESC
+    OFFSET limit_row.max_posts - 1
+    LIMIT 1;
+
+    IF FOUND THEN
+      RAISE EXCEPTION 'Comment rate limit exceeded'
+        USING ERRCODE = 'PT429',
+          DETAIL = greatest(1, ceil(extract(epoch FROM blocking_at + limit_row.window_length - NOW())))::int::text;
+    END IF;
+  END LOOP;
+
+  INSERT INTO public.comment_post_log (user_id, comic_id, page_id, content_hash)
+  VALUES (NEW.user_id, NEW.comic_id, NEW.page_id, post_hash);
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_comic_comment_rate_limit ON public.comic_comments;
+CREATE TRIGGER enforce_comic_comment_rate_limit
+  BEFORE INSERT ON public.comic_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_comment_rate_limit();
+
+-- Comments for documentation
+COMMENT ON TABLE public.comment_post_log IS 'Recent comment posts per reader for rate limiting; kept when comments are deleted';
+COMMENT ON FUNCTION public.enforce_comment_rate_limit() IS 'Rejects comment inserts over the posting limits (PT429) or repeating recent text (PT422)';
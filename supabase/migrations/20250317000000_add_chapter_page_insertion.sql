@@ -0,0 +1,202 @@
+-- Migration: Keep each chapter's pages together in the reading order
+-- Run this SQL in your Supabase SQL Editor
+--
+-- page_number is the comic-wide reading order, and chapters are read as a
+-- contiguous run of it. Pages uploaded into a chapter, or moved into one, go
+-- after that chapter's last page (or before the next chapter's first page),
+-- and the pages that follow shift to make room. Slots are taken and filled in
+-- the same transaction, under a per-comic lock, so concurrent uploads can't
+-- claim the same numbers.
+
+-- Shift page_number >= p_from by p_by. Goes through negative numbers so
+-- UNIQUE(comic_id, page_number) holds at every step.
+CREATE OR REPLACE FUNCTION public.shift_comic_pages(
+  p_comic_id UUID,
+  p_from INT,
+  p_by INT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.comic_pages
+  SET page_number = -(page_number + p_by)
+  WHERE comic_id = p_comic_id AND page_number >= p_from;
+
+  UPDATE public.comic_pages
+  SET page_number = -page_number
+  WHERE comic_id = p_comic_id AND page_number < 0;
+END;
+$$;
+
+-- Where the next page of a chapter goes: after the chapter's last page, else
+-- before the first page of any later chapter, else at the end. Unassigned
+-- pages go at the end. p_exclude_page_id leaves out a page being moved.
+CREATE OR REPLACE FUNCTION public.comic_chapter_page_slot(
+  p_comic_id UUID,
+  p_chapter_id UUID,
+  p_exclude_page_id UUID DEFAULT NULL
+)
+RETURNS INT
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  slot INT;
+BEGIN
+  IF p_chapter_id IS NOT NULL THEN
+    SELECT MAX(page_number) + 1 INTO slot
+    FROM public.comic_pages
+    WHERE comic_id = p_comic_id
+      AND chapter_id = p_chapter_id
+      AND id IS DISTINCT FROM p_exclude_page_id;
+
+    IF slot IS NULL THEN
+      SELECT MIN(p.page_number) INTO slot
+      FROM public.comic_pages p
+      JOIN public.comic_chapters later ON later.id = p.chapter_id
+      JOIN public.comic_chapters target ON target.id = p_chapter_id
+      WHERE p.comic_id = p_comic_id
+        AND p.id IS DISTINCT FROM p_exclude_page_id
+        AND later.chapter_number > target.chapter_number;
+    END IF;
+  END IF;
+
+  IF slot IS NULL THEN
+    SELECT COALESCE(MAX(page_number), 0) + 1 INTO slot
+    FROM public.comic_pages
+    WHERE comic_id = p_comic_id
+      AND id IS DISTINCT FROM p_exclude_page_id;
+  END IF;
+
+  RETURN slot;
+END;
+$$;
+
+-- Insert uploaded pages (already in storage) at the chapter's place in the
+-- reading order. Returns the new page ids in the order of p_image_paths.
+CREATE OR REPLACE FUNCTION public.insert_comic_pages(
+  p_comic_id UUID,
+  p_chapter_id UUID,
+  p_image_paths TEXT[]
+)
+RETURNS UUID[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  slot INT;
+  page_count INT := COALESCE(array_length(p_image_paths, 1), 0);
+  page_ids UUID[] := '{}';
+  new_id UUID;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.is_admin = true
+  ) THEN
+    RAISE EXCEPTION 'Admin access required' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_chapter_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.comic_chapters
+    WHERE id = p_chapter_id AND comic_id = p_comic_id
+  ) THEN
+    RAISE EXCEPTION 'Chapter does not belong to this comic' USING ERRCODE = '22023';
+  END IF;
+
+  IF page_count = 0 THEN
+    RETURN page_ids;
+  END IF;
+
+  -- Held until the pages are inserted, so concurrent uploads queue up
+  PERFORM pg_advisory_xact_lock(hashtext('comic_pages:' || p_comic_id::text));
+
+  slot := public.comic_chapter_page_slot(p_comic_id, p_chapter_id);
+  PERFORM public.shift_comic_pages(p_comic_id, slot, page_count);
+
+  FOR i IN 1..page_count LOOP
+    INSERT INTO public.comic_pages (comic_id, chapter_id, page_number, image_path)
+    VALUES (p_comic_id, p_chapter_id, slot + i - 1, p_image_paths[i])
+    RETURNING id INTO new_id;
+    page_ids := page_ids || new_id;
+  END LOOP;
+
+  RETURN page_ids;
+END;
+$$;
+
+-- Move a page into a chapter (or out of all chapters with NULL), renumbering
+-- it into the chapter's place in the reading order
+CREATE OR REPLACE FUNCTION public.move_comic_page_to_chapter(
+  p_page_id UUID,
+  p_chapter_id UUID
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  page_row RECORD;
+  slot INT;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.is_admin = true
+  ) THEN
+    RAISE EXCEPTION 'Admin access required' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT id, comic_id, chapter_id, page_number INTO page_row
+  FROM public.comic_pages
+  WHERE id = p_page_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Page not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_chapter_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.comic_chapters
+    WHERE id = p_chapter_id AND comic_id = page_row.comic_id
+  ) THEN
+    RAISE EXCEPTION 'Chapter does not belong to this comic' USING ERRCODE = '22023';
+  END IF;
+
+  IF page_row.chapter_id IS NOT DISTINCT FROM p_chapter_id THEN
+    RETURN;
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('comic_pages:' || page_row.comic_id::text));
+
+  -- Take the page out of the order (0 is never a real page number) and close its gap
+  UPDATE public.comic_pages SET page_number = 0 WHERE id = p_page_id;
+  PERFORM public.shift_comic_pages(page_row.comic_id, page_row.page_number + 1, -1);
+
+  slot := public.comic_chapter_page_slot(page_row.comic_id, p_chapter_id, p_page_id);
+  PERFORM public.shift_comic_pages(page_row.comic_id, slot, 1);
+
+  UPDATE public.comic_pages
+  SET chapter_id = p_chapter_id, page_number = slot
+  WHERE id = p_page_id;
+END;
+$$;
+
+-- Helpers run inside the functions above only
+REVOKE EXECUTE ON FUNCTION public.shift_comic_pages(UUID, INT, INT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.comic_chapter_page_slot(UUID, UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+REVOKE EXECUTE ON FUNCTION public.insert_comic_pages(UUID, UUID, TEXT[]) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.move_comic_page_to_chapter(UUID, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.insert_comic_pages(UUID, UUID, TEXT[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.move_comic_page_to_chapter(UUID, UUID) TO authenticated;
+
+-- Comments for documentation
+COMMENT ON FUNCTION public.shift_comic_pages(UUID, INT, INT) IS 'Shifts a comic''s page numbers from p_from on by p_by without breaking uniqueness';
+COMMENT ON FUNCTION public.comic_chapter_page_slot(UUID, UUID, UUID) IS 'Page number where the next page of a chapter (or an unassigned page) belongs in the reading order';
+COMMENT ON FUNCTION public.insert_comic_pages(UUID, UUID, TEXT[]) IS 'Admin only: inserts uploaded pages at their chapter''s place in the reading order, shifting later pages';
+COMMENT ON FUNCTION public.move_comic_page_to_chapter(UUID, UUID) IS 'Admin only: reassigns a page''s chapter and renumbers it into that chapter''s place in the reading order';
@@ -0,0 +1,53 @@
+-- Migration: Enforce the comment report rate limit when reports are inserted
+-- Run this SQL in your Supabase SQL Editor
+--
+-- Readers can insert reports with their own session, so the limit of 10
+-- reports an hour is checked by a BEFORE INSERT trigger rather than only in
+-- the report API route. The check runs under a per-reader advisory lock, so
+-- parallel reports are counted one after another. Over the limit it raises
+-- PostgREST's PT429 with DETAIL holding the seconds until a slot frees up.
+
+CREATE OR REPLACE FUNCTION public.enforce_comment_report_rate_limit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  blocking_at TIMESTAMPTZ;
+BEGIN
+  -- Service-role requests (no auth.uid()) aren't rate limited
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Serialize a reader's concurrent reports so each sees the others
+  PERFORM pg_advisory_xact_lock(hashtext('comment_report_rate_limit:' || NEW.reporter_id::text));
+
+  -- A slot frees up once the 10th newest report in the last hour ages out
+  SELECT r.created_at INTO blocking_at
+  FROM public.comment_reports r
+  WHERE r.reporter_id = NEW.reporter_id
+    AND r.created_at > NOW() - INTERVAL '1 hour'
+  ORDER BY r.created_at DESC
+  OFFSET 9
+  LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION 'Report rate limit exceeded'
+      USING ERRCODE = 'PT429',
+        DETAIL = greatest(1, ceil(extract(epoch FROM blocking_at + INTERVAL '1 hour' - NOW())))::int::text;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_comment_report_rate_limit ON public.comment_reports;
+CREATE TRIGGER enforce_comment_report_rate_limit
+  BEFORE INSERT ON public.comment_reports
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_comment_report_rate_limit();
+
+-- Comments for documentation
+COMMENT ON FUNCTION public.enforce_comment_report_rate_limit() IS 'Rejects a reader''s report inserts beyond 10 an hour (PT429)';
@@ -5,7 +5,8 @@
 -- STORAGE BUCKET SETUP INSTRUCTIONS
 -- ============================================================================
 -- 
--- 1. Create a storage bucket named 'comics' in Supabase Storage
+-- 1. Create a PRIVATE storage bucket named 'comics' in Supabase Storage
+--    (images are served through server-signed URLs, see lib/storage-urls.ts)
 -- 2. Storage structure (simplified - no chapters):
 --    comics/
 --      {comic_id}/
@@ -520,11 +521,8 @@ ON storage.objects FOR DELETE
 TO authenticated
 USING (bucket_id = 'comics');
 
--- Policy: Allow public read access to all files
-CREATE POLICY IF NOT EXISTS "Allow public reads"
-ON storage.objects FOR SELECT
-TO public
-USING (bucket_id = 'comics');
+-- No public read policy: the bucket is private and the server signs URLs
+-- with the service role only for content the reader is entitled to.
 
 -- ============================================================================
 -- SAMPLE DATA (Optional - uncomment to use)
@@ -7,6 +7,13 @@ export type Json =
   | Json[]
 
 export type ComicStatus = 'Ongoing' | 'Completed' | 'Hiatus' | 'Cancelled'
+export type CommentHiddenReason = 'moderator' | 'shadow_ban' | 'reports'
+export type CommentReportReason = 'spam' | 'harassment' | 'spoiler' | 'inappropriate' | 'other'
+export type CommentReportStatus = 'pending' | 'approved' | 'removed'
+export type CommentReactionType = 'like' | 'love' | 'laugh' | 'wow' | 'sad' | 'fire'
+export type CommentReactionCounts = Partial<Record<CommentReactionType, number>>
+export type CommentSort = 'newest' | 'top'
+export type NotificationType = 'mention' | 'reply'
 
 export interface Database {
   public: {
@@ -27,6 +34,8 @@ export interface Database {
           paypal_subscription_id: string | null
           payment_provider: string | null
           platform: string | null
+          handle: string | null
+          reader_preferences: Json
           is_admin: boolean
           created_at: string
           updated_at: string
@@ -46,6 +55,8 @@ export interface Database {
           paypal_subscription_id?: string | null
           payment_provider?: string | null
           platform?: string | null
+          handle?: string | null
+          reader_preferences?: Json
           is_admin?: boolean
           created_at?: string
           updated_at?: string
@@ -65,6 +76,8 @@ export interface Database {
           paypal_subscription_id?: string | null
           payment_provider?: string | null
           platform?: string | null
+          handle?: string | null
+          reader_preferences?: Json
           is_admin?: boolean
           created_at?: string
           updated_at?: string
@@ -93,6 +106,7 @@ export interface Database {
           author: string | null
           genre: string[] | null
           rating: number
+          rating_count: number
           view_count: number
           page_count: number
           is_premium: boolean
@@ -113,6 +127,7 @@ export interface Database {
           author?: string | null
           genre?: string[] | null
           rating?: number
+          rating_count?: number
           view_count?: number
           page_count?: number
           is_premium?: boolean
@@ -133,6 +148,7 @@ export interface Database {
           author?: string | null
           genre?: string[] | null
           rating?: number
+          rating_count?: number
           view_count?: number
           page_count?: number
           is_premium?: boolean
@@ -150,25 +166,66 @@ export interface Database {
         Row: {
           id: string
           comic_id: string
+          chapter_id: string | null
           page_number: number
           image_path: string
+          is_spread: boolean
+          panels: Json
           created_at: string
         }
         Insert: {
           id?: string
           comic_id: string
+          chapter_id?: string | null
           page_number: number
           image_path: string
+          is_spread?: boolean
+          panels?: Json
           created_at?: string
         }
         Update: {
           id?: string
           comic_id?: string
+          chapter_id?: string | null
           page_number?: number
           image_path?: string
+          is_spread?: boolean
+          panels?: Json
           created_at?: string
         }
       }
+      comic_chapters: {
+        Row: {
+          id: string
+          comic_id: string
+          chapter_number: number
+          title: string | null
+          description: string | null
+          published_date: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          comic_id: string
+          chapter_number: number
+          title?: string | null
+          description?: string | null
+          published_date?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          comic_id?: string
+          chapter_number?: number
+          title?: string | null
+          description?: string | null
+          published_date?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
       user_favorites: {
         Row: {
           id: string
@@ -198,6 +255,16 @@ export interface Database {
           parent_id: string | null
           content: string
           rating: number | null
+          reply_count: number
+          is_hidden: boolean
+          hidden_at: string | null
+          hidden_reason: CommentHiddenReason | null
+          reaction_counts: CommentReactionCounts
+          reaction_total: number
+          anchor_x: number | null
+          anchor_y: number | null
+          anchor_width: number | null
+          anchor_height: number | null
           created_at: string
           updated_at: string
         }
@@ -209,6 +276,16 @@ export interface Database {
           parent_id?: string | null
           content: string
           rating?: number | null
+          reply_count?: number
+          is_hidden?: boolean
+          hidden_at?: string | null
+          hidden_reason?: CommentHiddenReason | null
+          reaction_counts?: CommentReactionCounts
+          reaction_total?: number
+          anchor_x?: number | null
+          anchor_y?: number | null
+          anchor_width?: number | null
+          anchor_height?: number | null
           created_at?: string
           updated_at?: string
         }
@@ -220,6 +297,16 @@ export interface Database {
           parent_id?: string | null
           content?: string
           rating?: number | null
+          reply_count?: number
+          is_hidden?: boolean
+          hidden_at?: string | null
+          hidden_reason?: CommentHiddenReason | null
+          reaction_counts?: CommentReactionCounts
+          reaction_total?: number
+          anchor_x?: number | null
+          anchor_y?: number | null
+          anchor_width?: number | null
+          anchor_height?: number | null
           created_at?: string
           updated_at?: string
         }
@@ -247,6 +334,159 @@ export interface Database {
           updated_at?: string
         }
       }
+      comic_ratings: {
+        Row: {
+          id: string
+          user_id: string
+          comic_id: string
+          rating: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          comic_id: string
+          rating: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          comic_id?: string
+          rating?: number
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      comment_bans: {
+        Row: {
+          user_id: string
+          banned_by: string | null
+          reason: string | null
+          created_at: string
+        }
+        Insert: {
+          user_id: string
+          banned_by?: string | null
+          reason?: string | null
+          created_at?: string
+        }
+        Update: {
+          user_id?: string
+          banned_by?: string | null
+          reason?: string | null
+          created_at?: string
+        }
+      }
+      comment_reports: {
+        Row: {
+          id: string
+          comment_id: string
+          reporter_id: string
+          reason: CommentReportReason
+          details: string | null
+          status: CommentReportStatus
+          resolved_by: string | null
+          resolved_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          comment_id: string
+          reporter_id: string
+          reason: CommentReportReason
+          details?: string | null
+          status?: CommentReportStatus
+          resolved_by?: string | null
+          resolved_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          comment_id?: string
+          reporter_id?: string
+          reason?: CommentReportReason
+          details?: string | null
+          status?: CommentReportStatus
+          resolved_by?: string | null
+          resolved_at?: string | null
+          created_at?: string
+        }
+      }
+      comment_reactions: {
+        Row: {
+          comment_id: string
+          user_id: string
+          reaction: CommentReactionType
+          created_at: string
+        }
+        Insert: {
+          comment_id: string
+          user_id: string
+          reaction: CommentReactionType
+          created_at?: string
+        }
+        Update: {
+          comment_id?: string
+          user_id?: string
+          reaction?: CommentReactionType
+          created_at?: string
+        }
+      }
+      notifications: {
+        Row: {
+          id: string
+          user_id: string
+          actor_id: string | null
+          type: NotificationType
+          comic_id: string
+          page_id: string | null
+          comment_id: string
+          read_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          actor_id?: string | null
+          type: NotificationType
+          comic_id: string
+          page_id?: string | null
+          comment_id: string
+          read_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          actor_id?: string | null
+          type?: NotificationType
+          comic_id?: string
+          page_id?: string | null
+          comment_id?: string
+          read_at?: string | null
+          created_at?: string
+        }
+      }
+      comic_view_daily: {
+        Row: {
+          comic_id: string
+          view_date: string
+          views: number
+        }
+        Insert: {
+          comic_id: string
+          view_date: string
+          views?: number
+        }
+        Update: {
+          comic_id?: string
+          view_date?: string
+          views?: number
+        }
+      }
       artists: {
         Row: {
           id: string
@@ -331,7 +571,45 @@ export interface Database {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      record_comic_view: {
+        Args: {
+          p_comic_id: string
+          p_viewer_key: string
+          p_window_minutes?: number
+          p_fingerprint_key?: string
+        }
+        Returns: boolean
+      }
+      insert_comic_pages: {
+        Args: {
+          p_comic_id: string
+          p_chapter_id: string | null
+          p_image_paths: string[]
+        }
+        Returns: string[]
+      }
+      move_comic_page_to_chapter: {
+        Args: {
+          p_page_id: string
+          p_chapter_id: string | null
+        }
+        Returns: undefined
+      }
+      search_catalog: {
+        Args: {
+          search_query: string
+          result_limit?: number
+        }
+        Returns: {
+          result_type: 'comic' | 'artist' | 'character'
+          id: string
+          comic_id: string | null
+          title: string
+          subtitle: string | null
+          picture_path: string | null
+          rank: number
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
@@ -343,13 +621,45 @@ export interface Database {
 export type Profile = Database['public']['Tables']['profiles']['Row']
 export type Comic = Database['public']['Tables']['comics']['Row']
 export type ComicPage = Database['public']['Tables']['comic_pages']['Row']
+export type ComicChapter = Database['public']['Tables']['comic_chapters']['Row']
 export type UserFavorite = Database['public']['Tables']['user_favorites']['Row']
 export type ComicComment = Database['public']['Tables']['comic_comments']['Row']
 export type UserReadingProgress = Database['public']['Tables']['user_reading_progress']['Row']
+export type ComicRating = Database['public']['Tables']['comic_ratings']['Row']
+export type CommentBan = Database['public']['Tables']['comment_bans']['Row']
+export type CommentReport = Database['public']['Tables']['comment_reports']['Row']
+export type CommentReaction = Database['public']['Tables']['comment_reactions']['Row']
+export type Notification = Database['public']['Tables']['notifications']['Row']
+export type ComicViewDaily = Database['public']['Tables']['comic_view_daily']['Row']
 export type Artist = Database['public']['Tables']['artists']['Row']
 export type ComicCharacter = Database['public']['Tables']['comic_characters']['Row']
 
 // Extended types
+/** Parsed comment markup (see lib/comment-markup); rendered as React elements, never HTML */
+export type CommentNode =
+  | { type: 'text'; text: string }
+  | { type: 'bold' | 'italic' | 'spoiler'; children: CommentNode[] }
+  | { type: 'link'; href: string; children: CommentNode[] }
+
+/**
+ * Where a comment is pinned on its page, normalized to the page frame
+ * (0..1 from the top-left). width/height are null for a point.
+ */
+export interface CommentAnchor {
+  x: number
+  y: number
+  width: number | null
+  height: number | null
+}
+
+/** A guided view panel, as fractions of the page image from its top-left */
+export interface ComicPanel {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
 export interface CommentWithUser {
   id: string
   user_id: string
@@ -357,7 +667,16 @@ export interface CommentWithUser {
   page_id: string | null
   parent_id: string | null
   content: string
+  /** content parsed into bold/italic/link/spoiler nodes */
+  formatted: CommentNode[]
   rating: number | null
+  reply_count: number
+  reactions: CommentReactionCounts
+  reaction_total: number
+  /** Set when the comment points at part of its page */
+  anchor: CommentAnchor | null
+  /** Reactions the current user has added (empty when signed out) */
+  my_reactions: CommentReactionType[]
   created_at: string
   updated_at: string
   user: {
@@ -368,3 +687,110 @@ export interface CommentWithUser {
     platform: string | null
   }
 }
+
+/** A comment as listed in the admin moderation queue */
+export interface ModerationComment extends CommentWithUser {
+  is_hidden: boolean
+  hidden_reason: CommentHiddenReason | null
+  comic_title: string
+  page_number: number | null
+  user_is_banned: boolean
+}
+
+/** A reported comment with its pending reports, for the admin review list */
+export interface ReportedComment {
+  comment: ModerationComment
+  report_count: number
+  reason_counts: Partial<Record<CommentReportReason, number>>
+  reports: {
+    id: string
+    reason: CommentReportReason
+    details: string | null
+    created_at: string
+    reporter: { id: string; full_name: string | null; email: string | null }
+  }[]
+  latest_reported_at: string
+}
+
+/** A notification joined with who triggered it and where, for the navbar bell */
+export interface NotificationWithDetails extends Notification {
+  actor: {
+    id: string
+    full_name: string | null
+    avatar_url: string | null
+    handle: string | null
+  } | null
+  comic_title: string
+  page_number: number | null
+  comment_excerpt: string
+}
+
+/** One page of a comment feed; pass next_cursor back as ?cursor= for older comments */
+export interface CommentFeedPage {
+  data: CommentWithUser[]
+  next_cursor: string | null
+}
+
+export interface ChapterSummary extends ComicChapter {
+  first_page_number: number | null
+  page_count: number
+}
+
+export type SearchResultType = 'comic' | 'artist' | 'character'
+
+export interface SearchResultItem {
+  type: SearchResultType
+  id: string
+  title: string
+  subtitle: string | null
+  image_url: string | null
+  href: string
+}
+
+export interface SearchResults {
+  comics: SearchResultItem[]
+  artists: SearchResultItem[]
+  characters: SearchResultItem[]
+}
+
+export interface ComicRatingSummary {
+  average: number
+  count: number
+  user_rating: number | null
+}
+
+export type ReadingMode = 'vertical' | 'horizontal' | 'rtl' | 'spread' | 'guided'
+export type ReaderFit = 'width' | 'height' | 'original'
+export type ReaderBackground = 'black' | 'gray' | 'white'
+export type ReaderTapZones = 'halves' | 'thirds' | 'off'
+export type ReaderAction =
+  | 'page_left'
+  | 'page_right'
+  | 'first_page'
+  | 'last_page'
+  | 'jump_to_page'
+  | 'toggle_comments'
+  | 'share'
+  | 'zoom_in'
+  | 'zoom_out'
+  | 'reset_zoom'
+  | 'toggle_fullscreen'
+  | 'cycle_reading_mode'
+  | 'show_controls'
+  | 'show_shortcuts'
+/** Keys (KeyboardEvent.key values, letters lowercased) bound to each reader action */
+export type ReaderKeyBindings = Record<ReaderAction, string[]>
+
+/** Stored in profiles.reader_preferences, or localStorage for anonymous readers */
+export interface ReaderPreferences {
+  reading_mode: ReadingMode
+  fit: ReaderFit
+  background: ReaderBackground
+  /** How tapping the page on screen turns pages in horizontal modes */
+  tap_zones: ReaderTapZones
+  /** Inactivity before controls hide in fullscreen; 0 keeps them visible */
+  auto_hide_delay_ms: number
+  show_hints: boolean
+  data_saver: boolean
+  key_bindings: ReaderKeyBindings
+}